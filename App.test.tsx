@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+
+// Starts from the defaults (one bit, sweeping) and stops the sweep so the manual controls unlock
+const renderStopped = () => {
+  const view = render(<App />);
+  fireEvent.click(screen.getByText('Stop Auto'));
+  return view;
+};
+
+const badge = () => screen.getByText(/^VAL: [01]$/);
+
+beforeEach(() => {
+  window.localStorage.clear();
+  window.location.hash = '';
+});
+
+afterEach(cleanup);
+
+describe('App write buttons', () => {
+  it('are locked while the drive sweeps', () => {
+    render(<App />);
+    expect(screen.getByText('Write 1').closest('button')!.disabled).toBe(true);
+    expect(screen.getByText('Write 0').closest('button')!.disabled).toBe(true);
+  });
+
+  it('Write 1 stores a 1 on the upper (red) branch', () => {
+    const { container } = renderStopped();
+    fireEvent.click(screen.getByText('Write 1'));
+    expect(badge().textContent).toBe('VAL: 1');
+    expect(badge().className).toContain('text-red-400');
+    container.querySelectorAll('circle[r="5"]').forEach(dot => expect(dot.getAttribute('fill')).toBe('#ef4444'));
+  });
+
+  it('Write 0 stores a 0 on the lower (blue) branch', () => {
+    const { container } = renderStopped();
+    fireEvent.click(screen.getByText('Write 1'));
+    fireEvent.click(screen.getByText('Write 0'));
+    expect(badge().textContent).toBe('VAL: 0');
+    expect(badge().className).toContain('text-blue-400');
+    container.querySelectorAll('circle[r="5"]').forEach(dot => expect(dot.getAttribute('fill')).toBe('#3b82f6'));
+  });
+
+  it('leaves the bit at 0V after the write pulse', () => {
+    const { container } = renderStopped();
+    fireEvent.click(screen.getByText('Write 1'));
+    const slider = container.querySelector<HTMLInputElement>('main input[type="range"]')!;
+    expect(Number(slider.value)).toBe(0);
+  });
+});
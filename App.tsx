@@ -1,44 +1,188 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { HysteresisChart } from './components/HysteresisChart';
-import { stepSimulation, calculateAmplitude } from './services/physicsEngine';
-import { CONSTANTS, SimulationState } from './types';
-import { RotateCcw, Info, Cpu, ArrowUpFromLine, ArrowDownFromLine, Play, Square, Gauge } from 'lucide-react';
+import { WordControls } from './components/WordControls';
+import { DeviceModelPanel } from './components/DeviceModelPanel';
+import { DuffingPanel } from './components/DuffingPanel';
+import { MultiLevelPanel } from './components/MultiLevelPanel';
+import { DynamicsPanel } from './components/DynamicsPanel';
+import { WaveformPanel } from './components/WaveformPanel';
+import { StripChart } from './components/StripChart';
+import { RunFilesPanel, ExportFormat } from './components/RunFilesPanel';
+import { FitPanel } from './components/FitPanel';
+import { LoopAnalysisPanel } from './components/LoopAnalysisPanel';
+import { NoisePanel } from './components/NoisePanel';
+import { EventLog } from './components/EventLog';
+import { ReadoutPanel, ReadRecord } from './components/ReadoutPanel';
+import { CrosstalkPanel } from './components/CrosstalkPanel';
+import { LogicGatePanel } from './components/LogicGatePanel';
+import { AgingPanel } from './components/AgingPanel';
+import { ShmooPanel } from './components/ShmooPanel';
+import { ChartAxesPanel } from './components/ChartAxesPanel';
+import { ClockControls } from './components/ClockControls';
+import { FigureExportPanel } from './components/FigureExportPanel';
+import { createInitialState } from './services/physicsEngine';
+import { readLevels, readWord, formatWord } from './services/memoryRegister';
+import { levelColor, levelCount, levelOf } from './services/multiLevel';
+import { toArray, recentStates, sampleAt } from './services/history';
+import { runToCSV, runToJSON, runDuration, downloadBlob, downloadText } from './services/runFiles';
+import { createSimulation, WriteReport } from './services/simulationCore';
+import { createTimeline } from './services/timeline';
+import { ReadConfig } from './services/readout';
+import { GateStep, runGateStep } from './services/logicGates';
+import { StorageReport, runStorage } from './services/retention';
+import { resolveAxis } from './services/chartScale';
+import { ChartView, DEFAULT_SESSION, SPEED_RANGE, SessionState, clearSession, loadSession, saveSession, sessionURL } from './services/session';
+import { DEFAULT_FIGURE_OPTIONS, FigureFormat, FigureOptions, HysteresisFigure, renderHysteresisSVG, svgToPNG, validateFigureOptions } from './services/figureExport';
+import { AgingConfig, AxisRange, CONSTANTS, CouplingConfig, DeviceModel, DynamicsConfig, MeasuredPoint, NoiseConfig, Observable, SimulationRun, SimulationState, SwitchingEvent, WaveformConfig } from './types';
+import { RotateCcw, Info, Cpu, ArrowUpFromLine, ArrowDownFromLine, Play, Square, Gauge, Spline, Link2, Check, Eraser, AlertTriangle } from 'lucide-react';
 
-const BIT_COUNT = 1;
+const TRAIL_LENGTH = 800;       // Samples drawn on each hysteresis chart (~6.7s of clock)
+const STRIP_WINDOW_SECONDS = 20; // Visible span of the time-series chart
+const EVENT_LOG_ROWS = 50;
+const SESSION_SAVE_INTERVAL_MS = 1000; // Session written to localStorage and the URL at most this often
+
+const CHART_VIEWS: { id: ChartView; label: string }[] = [
+  { id: 'both', label: 'Both' },
+  { id: 'frequency', label: 'Freq' },
+  { id: 'amplitude', label: 'Amp' },
+];
 
 const App: React.FC = () => {
-  // Initialize bits
-  // Default state: 0V, Lower Branch
-  const createInitialState = (): SimulationState => ({
-    voltage: 0,
-    frequency: CONSTANTS.FREQ_LOWER_BASE, // Unused but required by type
-    amplitude: calculateAmplitude(0, 'lower'),
-    branch: 'lower', 
-    direction: 'stationary'
+  // Last session (from a shared link or localStorage), else the defaults
+  const [restored] = useState(loadSession);
+  const start = restored.session ?? DEFAULT_SESSION;
+
+  // Headless simulation (register, drive, clock, history, events); React state mirrors it for rendering
+  const [sim] = useState(() => {
+    const { bits: startBits, driveTime, model, waveform, noise, dynamics, coupling, aging, speed } = start;
+    const simulation = createSimulation({ bitCount: startBits.length, model, waveform, noise, dynamics, coupling, aging, speed });
+    simulation.restore(startBits, driveTime);
+    return simulation;
   });
 
-  const [bits, setBits] = useState<SimulationState[]>(
-    Array(BIT_COUNT).fill(null).map(createInitialState)
-  );
+  // Fixed-step clock with a rewindable record of the states it passed through
+  const [timeline] = useState(() => createTimeline(sim));
+
+  // Register of resonators; index 0 is the most significant bit
+  // Default state: 0V, Lower Branch
+  const [bitCount, setBitCount] = useState(start.bits.length);
+  const [bits, setBits] = useState<SimulationState[]>(() => sim.getBits());
+  const [model, setModel] = useState<DeviceModel>(start.model);
 
   // Animation State - Start sweeping automatically
-  const [isSweeping, setIsSweeping] = useState(true);
-  const [speed, setSpeed] = useState(1.0);
-  
+  const [isSweeping, setIsSweeping] = useState(start.playing);
+  const [speed, setSpeed] = useState(start.speed);
+  const [chartView, setChartView] = useState<ChartView>(start.chartView);
+  const [axisRanges, setAxisRanges] = useState<Record<Observable, AxisRange>>(start.axisRanges);
+  const [figureOptions, setFigureOptions] = useState<FigureOptions>(DEFAULT_FIGURE_OPTIONS);
+  const [figureError, setFigureError] = useState<string | null>(null);
+  const [waveform, setWaveform] = useState<WaveformConfig>(start.waveform);
+  const [showTrail, setShowTrail] = useState(start.showTrail);
+  const [focusBit, setFocusBit] = useState(0);
+  const [measured, setMeasured] = useState<MeasuredPoint[]>([]);
+  const [noise, setNoise] = useState<NoiseConfig>(start.noise);
+  const [dynamics, setDynamics] = useState<DynamicsConfig>(start.dynamics);
+  const [readConfig, setReadConfig] = useState<ReadConfig>(start.readConfig);
+  const [lastRead, setLastRead] = useState<ReadRecord | null>(null);
+  const [coupling, setCoupling] = useState<CouplingConfig>(start.coupling);
+  const [lastWrite, setLastWrite] = useState<WriteReport | null>(null);
+  const [aging, setAging] = useState<AgingConfig>(start.aging);
+  const [lastStorage, setLastStorage] = useState<StorageReport | null>(null);
+  const [sessionErrors, setSessionErrors] = useState<string[]>(restored.errors);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [pauseAtEvent, setPauseAtEvent] = useState(false);
+  const [clockEvent, setClockEvent] = useState<SwitchingEvent | null>(null); // Switch the clock last stopped at
+
+  // Imported run being played back (replaces the live drive while active)
+  const [replayRun, setReplayRun] = useState<SimulationRun | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+
   const animationRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
-  const phaseRef = useRef<number>(0); // Accumulate phase for smooth speed changes
-  const speedRef = useRef(speed);
 
-  // Keep ref in sync for animation loop without re-triggering effect
+  // Keep the simulation in sync without re-triggering the animation effect
   useEffect(() => {
-    speedRef.current = speed;
+    sim.setSpeed(speed);
   }, [speed]);
 
-  // Animation Loop
   useEffect(() => {
-    if (isSweeping) {
+    sim.setNoise(noise);
+  }, [noise]);
+
+  useEffect(() => {
+    sim.setDynamics(dynamics);
+  }, [dynamics]);
+
+  useEffect(() => {
+    sim.setCoupling(coupling);
+  }, [coupling]);
+
+  // The session as it would be reopened; persisted on a timer rather than every animation frame
+  const session: SessionState = {
+    version: 1,
+    bits,
+    driveTime: sim.getDriveTime(),
+    playing: isSweeping,
+    speed,
+    model,
+    waveform,
+    noise,
+    dynamics,
+    coupling,
+    aging,
+    readConfig,
+    chartView,
+    axisRanges,
+    showTrail,
+  };
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  useEffect(() => {
+    let lastSaved = '';
+    const persist = () => {
+      const current = sessionRef.current;
+      const text = JSON.stringify(current);
+      if (text === lastSaved) return;
+      lastSaved = text;
+      saveSession(current);
+      // Keep the address bar shareable without adding history entries
+      window.history.replaceState(null, '', sessionURL(current, window.location.href));
+    };
+    const timer = window.setInterval(persist, SESSION_SAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', persist);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', persist);
+    };
+  }, []);
+
+  const handleCopyLink = () => {
+    navigator.clipboard
+      .writeText(sessionURL(session, window.location.href))
+      .then(() => {
+        setLinkCopied(true);
+        window.setTimeout(() => setLinkCopied(false), 1500);
+      })
+      .catch(() => setSessionErrors(['Could not copy the session link; copy it from the address bar instead.']));
+  };
+
+  // Drop the saved session and reopen with the defaults
+  const handleForgetSession = () => {
+    clearSession();
+    window.location.replace(window.location.pathname + window.location.search);
+  };
+
+  // Animation Loop. Frames only feed real time to the fixed-step clock, so a
+  // run is the same at any frame rate. While paused in dynamic or aging mode
+  // the clock keeps running so readouts can relax, held voltages can complete
+  // their dwell and stored levels can decay (not while rewound, which would
+  // overwrite the recorded steps)
+  const rewound = timeline.getCursor() < timeline.getLength() - 1;
+  const holding = !isSweeping && (dynamics.enabled || aging.enabled) && !replayRun && !rewound;
+  useEffect(() => {
+    if (isSweeping || holding) {
         // Reset lastTime on start to avoid huge delta
         lastTimeRef.current = 0;
 
@@ -49,14 +193,16 @@ const App: React.FC = () => {
             const deltaTime = (time - lastTimeRef.current) / 1000;
             lastTimeRef.current = time;
 
-            // Update phase based on current speed
-            // Base Frequency = 0.166Hz (6s period)
-            const baseFreq = 0.166; 
-            phaseRef.current += 2 * Math.PI * baseFreq * speedRef.current * deltaTime;
-            
-            const v = CONSTANTS.VOLTAGE_MAX * Math.sin(phaseRef.current);
-            
-            setBits(prev => prev.map(bit => stepSimulation(v, bit)));
+            // Whole clock steps; drive time follows at the current speed
+            // The default sine has a 6s period (0.166Hz) at 1.0x
+            // The drive is followed in sub-steps, so threshold crossings between steps still register
+            const events = timeline.run(deltaTime, isSweeping ? 'advance' : 'hold', pauseAtEvent);
+            setBits(sim.getBits());
+            if (pauseAtEvent && events.length > 0) {
+                setClockEvent(events[0]);
+                setIsSweeping(false);
+                return;
+            }
             animationRef.current = requestAnimationFrame(animate);
         };
         animationRef.current = requestAnimationFrame(animate);
@@ -65,57 +211,249 @@ const App: React.FC = () => {
             cancelAnimationFrame(animationRef.current);
         }
         lastTimeRef.current = 0;
-        // We deliberately do not reset phaseRef here so it resumes smoothly if toggled back
+        // We deliberately do not restart the drive here so it resumes smoothly if toggled back
     }
 
     return () => {
         if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isSweeping]); // Removed speed from dependency to prevent jumps
+  }, [isSweeping, holding, pauseAtEvent]); // Removed speed from dependency to prevent jumps
+
+  // Replay Loop: show the recorded state of each bit at the replay time
+  useEffect(() => {
+    if (!replayRun) return;
 
-  const handleResetPhase = () => {
-    phaseRef.current = 0;
+    const duration = runDuration(replayRun);
+    let frame: number;
+    let last = 0;
+    let t = 0;
+
+    const animate = (time: number) => {
+        if (!last) last = time;
+        const dt = (time - last) / 1000;
+        t = Math.min(duration, t + sim.getConfig().speed * dt);
+        last = time;
+
+        setReplayTime(t);
+        const prev = sim.getBits();
+        sim.setStates(replayRun.bits.map((samples, i) => sampleAt(samples, t)?.state ?? prev[i] ?? createInitialState(replayRun.model)), dt);
+        setBits(sim.getBits());
+        if (t < duration) frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      // The replayed states are not clock steps: start the clock record afresh
+      timeline.clear();
+    };
+  }, [replayRun]);
+
+  const stopReplay = () => {
+    setReplayRun(null);
+  };
+
+  const handleExportRun = (format: ExportFormat) => {
+    const run = sim.exportRun();
+    const stamp = run.exportedAt.replace(/[:.]/g, '-');
+    if (format === 'csv') downloadText(`run-${stamp}.csv`, runToCSV(run), 'text/csv');
+    else downloadText(`run-${stamp}.json`, runToJSON(run), 'application/json');
+  };
+
+  // Load a saved run's settings and play its recorded states back from t=0
+  const handleImportRun = (run: SimulationRun) => {
+    const count = Math.max(1, run.bits.length);
+    setIsSweeping(false);
+    sim.setModel(run.model);
+    sim.setWaveform(run.waveform);
+    sim.setSpeed(run.speed);
+    sim.resize(count);
+    sim.reset();
+    setModel(run.model);
+    setWaveform(run.waveform);
+    setSpeed(run.speed);
+    setBitCount(count);
+    setFocusBit(prev => Math.min(prev, count - 1));
+    setBits(sim.getBits());
+    setReplayTime(0);
+    setReplayRun(run);
+  };
+
+  // A new drive starts from its beginning (scripts replay from the first command)
+  const handleWaveformChange = (next: WaveformConfig) => {
+    sim.setWaveform(next);
+    timeline.record();
+    setWaveform(next);
   };
 
   // Handle manual slider change for a specific bit
   const handleBitVoltageChange = (index: number, newVoltage: number) => {
-    setBits(prevBits => {
-      const newBits = [...prevBits];
-      newBits[index] = stepSimulation(newVoltage, newBits[index]);
-      return newBits;
-    });
+    sim.setVoltage(index, newVoltage);
+    timeline.record();
+    setBits(sim.getBits());
   };
 
   // "Write" operation: Simulate a pulse that switches the state and returns to 0
-  const pulseBit = (index: number, targetValue: '0' | '1') => {
-    setBits(prevBits => {
-      const newBits = [...prevBits];
-      let currentState = newBits[index];
-
-      if (targetValue === '1') {
-        // Pulse High to switch to Upper Branch
-        currentState = stepSimulation(1.5, currentState);
-        currentState = stepSimulation(0, currentState);
-      } else {
-        // Pulse Low to switch to Lower Branch
-        currentState = stepSimulation(-1.5, currentState);
-        currentState = stepSimulation(0, currentState);
-      }
-
-      newBits[index] = currentState;
-      return newBits;
-    });
+  // (multi-level cells: the pulses that leave it on the target level)
+  const pulseBit = (index: number, level: number) => {
+    setLastWrite(sim.writeBit(index, level));
+    timeline.record();
+    setBits(sim.getBits());
+  };
+
+  // Word-level write: every resonator receives its write pulse in one action
+  const handleWriteWord = (value: number) => {
+    setLastWrite(sim.writeWord(value));
+    timeline.record();
+    setBits(sim.getBits());
+  };
+
+  // Read operation: sample every bit at the read bias and decide against the level
+  const handleReadWord = () => {
+    const stored = readLevels(sim.getBits());
+    const results = sim.read(readConfig);
+    timeline.record();
+    setBits(sim.getBits());
+    setLastRead({ stored, results });
+    return results.reduce<number>((word, r) => word * radix + r.value, 0);
+  };
+
+  // One step of an in-memory logic gate: a pulse on the result bit set by the stored sources
+  const handleGateStep = (step: GateStep, operands: number[]) => {
+    const result = runGateStep(sim, step, operands, readConfig);
+    timeline.record();
+    setBits(sim.getBits());
+    return result;
+  };
+
+  // Accelerated time: hold the register for hours or days and report the bits lost
+  const handleStore = (duration: number) => {
+    setLastStorage(runStorage(sim, duration, readConfig));
+    timeline.record();
+    setBits(sim.getBits());
+  };
+
+  const handleBitCountChange = (count: number) => {
+    stopReplay();
+    sim.resize(count);
+    timeline.clear();
+    setBitCount(count);
+    setBits(sim.getBits());
+    setLastRead(null);
+    setLastWrite(null);
+    setLastStorage(null);
+    setFocusBit(prev => Math.min(prev, count - 1));
+  };
+
+  // Swap device parameters live; a stationary step re-evaluates each bit on the new curves
+  const handleModelChange = (next: DeviceModel) => {
+    sim.setModel(next);
+    timeline.record();
+    setModel(next);
+    setBits(sim.getBits());
+  };
+
+  // Aging moves every bit onto its aged curves at once
+  const handleAgingChange = (next: AgingConfig) => {
+    sim.setAging(next);
+    timeline.record();
+    setAging(next);
+    setBits(sim.getBits());
   };
 
   const resetAll = () => {
+    stopReplay();
     setIsSweeping(false); // Stop animation on reset
-    handleResetPhase();   // Reset phase to 0
-    setBits(Array(BIT_COUNT).fill(null).map(createInitialState));
+    sim.reset();          // Clock, drive phase, history and events back to 0
+    timeline.clear();
+    setBits(sim.getBits());
+    setLastRead(null);
+    setLastWrite(null);
+    setLastStorage(null);
+    setClockEvent(null);
   };
 
-  // Calculate the bit code
-  const bitValues = bits.map(b => b.branch === 'upper' ? 1 : 0);
-  const decimalValue = parseInt(bitValues.join(''), 2);
+  // Clock controls pause the sweep and move one fixed step (or to a recorded step) at a time
+  const handleStepBack = () => {
+    setIsSweeping(false);
+    timeline.stepBack();
+    setBits(sim.getBits());
+  };
+
+  const handleStepForward = () => {
+    setIsSweeping(false);
+    const events = timeline.stepForward('advance');
+    if (events.length > 0) setClockEvent(events[0]);
+    setBits(sim.getBits());
+  };
+
+  const handleRunToEvent = () => {
+    setIsSweeping(false);
+    setClockEvent(timeline.runToNextEvent('advance')[0] ?? null);
+    setBits(sim.getBits());
+  };
+
+  const handleSeek = (index: number) => {
+    setIsSweeping(false);
+    timeline.seek(index);
+    setBits(sim.getBits());
+  };
+
+  // Calculate the bit code (one digit per cell in the cell's radix)
+  const radix = levelCount(model);
+  const bitValues = readLevels(bits);
+  const decimalValue = readWord(bits, radix);
+  // Two-branch cells keep the red/blue classes; multi-level cells are coloured per level
+  const levelClass = (level: number) => (radix > 2 ? '' : level === 1 ? 'text-red-400' : 'text-blue-400');
+  const levelStyle = (level: number) => (radix > 2 ? { color: levelColor(level, radix) } : undefined);
+  const compact = bitCount > 1;
+  const isDriven = isSweeping || replayRun !== null; // Manual controls locked
+  const observables: Observable[] = chartView === 'both' ? ['frequency', 'amplitude'] : [chartView];
+  const trails = showTrail
+    ? sim.getHistory().map(buffer => recentStates(buffer, TRAIL_LENGTH))
+    : [];
+  const focusIndex = Math.min(focusBit, bits.length - 1);
+  const history = sim.getHistory();
+  const focusSamples = history[focusIndex] ? toArray(history[focusIndex]) : [];
+
+  const yDomains = useMemo((): Record<Observable, [number, number]> => ({
+    amplitude: resolveAxis(axisRanges.amplitude, 'amplitude', model),
+    frequency: resolveAxis(axisRanges.frequency, 'frequency', model),
+  }), [model, axisRanges]);
+  const figureFor = (index: number, observable: Observable): HysteresisFigure => ({
+    model,
+    observable,
+    yDomain: yDomains[observable],
+    trail: trails[index],
+    measured,
+  });
+
+  // New options may fix what made the last export fail
+  const handleFigureOptionsChange = (options: FigureOptions) => {
+    setFigureOptions(options);
+    setFigureError(null);
+  };
+
+  // Publication export: rendered from the figure definition, not the on-screen chart
+  const handleExportFigure = (index: number, observable: Observable, format: FigureFormat) => {
+    const errors = validateFigureOptions(figureOptions);
+    if (errors.length > 0) {
+      setFigureError(`Fix the figure options to export: ${errors.join(' ')}`);
+      return;
+    }
+    setFigureError(null);
+    const svg = renderHysteresisSVG(figureFor(index, observable), figureOptions);
+    const name = `bit${index}-${observable}`;
+    if (format === 'svg') {
+      downloadText(`${name}.svg`, svg, 'image/svg+xml');
+      return;
+    }
+    svgToPNG(svg, figureOptions.width, figureOptions.height, figureOptions.pngScale)
+      .then(blob => downloadBlob(`${name}.png`, blob))
+      .catch(err => setFigureError(`PNG export failed: ${err instanceof Error ? err.message : String(err)}`));
+  };
+
+  const gridClass = bitCount >= 8 ? 'grid-cols-2 lg:grid-cols-4' : bitCount > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1';
 
   return (
     <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 sm:p-8 font-sans">
@@ -125,13 +463,17 @@ const App: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-white tracking-tight flex items-center gap-3">
             <Cpu className="text-indigo-400" />
-            Single-Bit Mechanical Memory
+            {radix > 2
+              ? `${bitCount === 1 ? 'Single-Cell' : `${bitCount}-Cell`} ${radix}-Level`
+              : bitCount === 1 ? 'Single-Bit' : `${bitCount}-Bit`} Mechanical Memory
           </h1>
           <p className="text-slate-400 mt-2 max-w-xl text-sm">
-            Using the <span className="text-indigo-300">Pinched Hysteresis Loop</span> (Amplitude) to encode information. 
+            Using the <span className="text-indigo-300">Pinched Hysteresis Loop</span> (Frequency &amp; Amplitude) to encode information. 
             <br/>
             {/* Swapped Colors: Blue=Lower/0, Red=Upper/1 */}
-            <span className="text-blue-400">Blue (Lower) = 0</span>, <span className="text-red-400">Red (Upper) = 1</span>.
+            {radix > 2
+              ? <><span className="text-blue-400">Blue (Lowest) = 0</span> up to <span className="text-red-400">Red (Highest) = {radix - 1}</span>.</>
+              : <><span className="text-blue-400">Blue (Lower) = 0</span>, <span className="text-red-400">Red (Upper) = 1</span>.</>}
           </p>
         </div>
 
@@ -144,50 +486,100 @@ const App: React.FC = () => {
                   <span 
                     key={i} 
                     // Swapped Colors: 1 = Red, 0 = Blue
-                    className={`text-3xl font-mono font-bold w-8 text-center transition-colors duration-300 ${val === 1 ? 'text-red-400' : 'text-blue-400'}`}
+                    className={`font-mono font-bold text-center transition-colors duration-300 ${bitCount > 8 ? 'text-lg w-3' : 'text-3xl w-8'} ${levelClass(val)}`}
+                    style={levelStyle(val)}
                   >
                     {val}
                   </span>
                 ))}
              </div>
              <span className="text-slate-600 text-sm font-mono">
-                (DEC: {decimalValue})
+                (DEC: {decimalValue}{bitCount >= 4 && `, HEX: ${formatWord(decimalValue, 'hex', bitCount, radix)}`})
              </span>
           </div>
         </div>
       </header>
 
-      {/* Main Display - Centered Single Item */}
-      <main className="w-full max-w-2xl flex flex-col items-center gap-6 mb-8">
-        {bits.map((bitState, index) => (
-          <div key={index} className="w-full bg-slate-800 rounded-xl p-4 border border-slate-700 shadow-md flex flex-col gap-4 transition-all duration-500">
+      {/* Problems restoring or sharing the session */}
+      {sessionErrors.length > 0 && (
+        <div className="w-full max-w-4xl mb-6 flex items-start gap-3 bg-amber-900/20 border border-amber-500/30 rounded-lg p-3 text-xs text-amber-300">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <ul className="flex-1">
+            {sessionErrors.map(err => <li key={err}>{err}</li>)}
+          </ul>
+          <button onClick={() => setSessionErrors([])} className="text-amber-400 hover:text-white font-bold">Dismiss</button>
+        </div>
+      )}
+
+      {/* Word-level Read/Write */}
+      <section className="w-full max-w-4xl mb-6">
+        <WordControls
+          bitCount={bitCount}
+          radix={radix}
+          disabled={isDriven}
+          onBitCountChange={handleBitCountChange}
+          onWriteWord={handleWriteWord}
+          onReadWord={handleReadWord}
+        />
+      </section>
+
+      {/* Main Display - Grid of Bits (MSB first) */}
+      <main className={`w-full ${compact ? 'max-w-6xl' : observables.length > 1 ? 'max-w-4xl' : 'max-w-2xl'} grid ${gridClass} gap-4 mb-8`}>
+        {bits.map((bitState, index) => {
+          // Unintended flip (crosstalk) or failed write from the last write operation
+          const disturbed = lastWrite?.flipped.includes(index) ?? false;
+          const failed = lastWrite?.failed.includes(index) ?? false;
+          return (
+          <div key={index} className={`w-full bg-slate-800 rounded-xl border shadow-md flex flex-col transition-all duration-500 ${compact ? 'p-2 gap-2' : 'p-4 gap-4'} ${
+            disturbed || failed ? 'border-amber-500 ring-2 ring-amber-500/40' : 'border-slate-700'
+          }`}>
             
             {/* Chart Area */}
             <div className="relative">
-                <HysteresisChart 
-                  bitIndex={index}
-                  currentVoltage={bitState.voltage}
-                  currentValue={bitState.amplitude}
-                  currentBranch={bitState.branch}
-                  currentDirection={bitState.direction}
-                  yDomain={[0, 25]}
-                />
+                <div className={`grid gap-2 ${observables.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {observables.map(observable => (
+                    <div key={observable} className="relative">
+                      <HysteresisChart 
+                        bitIndex={index}
+                        currentVoltage={bitState.voltage}
+                        currentValue={bitState[observable]}
+                        currentBranch={bitState.branch}
+                        currentLevel={bitState.level}
+                        currentDirection={bitState.direction}
+                        yDomain={yDomains[observable]}
+                        model={aging.enabled ? sim.getBitModel(index) : model}
+                        observable={observable}
+                        trail={trails[index]}
+                        measured={measured}
+                        onVoltageChange={isDriven ? undefined : (v: number) => handleBitVoltageChange(index, v)}
+                        onExport={(format: FigureFormat) => handleExportFigure(index, observable, format)}
+                      />
+                    </div>
+                  ))}
+                </div>
                 {/* Bit Status Badge */}
                 {/* Swapped Colors: Upper=Red, Lower=Blue */}
                 <div className={`absolute top-3 right-3 px-2 py-1 rounded text-xs font-bold border transition-colors duration-300 ${
-                    bitState.branch === 'upper' 
+                    radix > 2
+                    ? 'bg-slate-900/60 border-slate-600'
+                    : bitState.branch === 'upper' 
                     ? 'bg-red-500/10 text-red-400 border-red-500/30' 
                     : 'bg-blue-500/10 text-blue-400 border-blue-500/30'
-                }`}>
-                    VAL: {bitState.branch === 'upper' ? '1' : '0'}
+                }`} style={levelStyle(levelOf(bitState))}>
+                    VAL: {levelOf(bitState)}
                 </div>
+                {(disturbed || failed) && (
+                  <div className="absolute top-3 left-3 px-2 py-1 rounded text-xs font-bold border bg-amber-500/10 text-amber-300 border-amber-500/40">
+                    {disturbed ? 'DISTURBED' : 'WRITE FAILED'}
+                  </div>
+                )}
             </div>
 
             {/* Controls Area */}
-            <div className={`bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-3 transition-opacity ${isSweeping ? 'opacity-75 pointer-events-none' : ''}`}>
+            <div className={`bg-slate-900/50 rounded-lg ${compact ? 'p-2' : 'p-3'} border border-slate-700/50 flex flex-col gap-3 transition-opacity ${isDriven ? 'opacity-75 pointer-events-none' : ''}`}>
                 {/* Voltage Slider */}
                 <div className="flex items-center gap-3">
-                    <span className="text-xs font-mono text-slate-500 w-12 text-right">
+                    <span className={`text-xs font-mono text-slate-500 text-right ${compact ? 'w-10' : 'w-12'}`}>
                         {bitState.voltage.toFixed(2)}V
                     </span>
                     <input 
@@ -196,40 +588,80 @@ const App: React.FC = () => {
                         max={CONSTANTS.VOLTAGE_MAX} 
                         step="0.01" 
                         value={bitState.voltage} 
-                        disabled={isSweeping}
+                        disabled={isDriven}
                         onChange={(e) => handleBitVoltageChange(index, parseFloat(e.target.value))}
                         className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-slate-400 hover:accent-white disabled:accent-slate-600"
                     />
                 </div>
 
                 {/* Write Buttons */}
+                {radix > 2 ? (
+                <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${radix}, minmax(0, 1fr))` }}>
+                    {Array.from({ length: radix }, (_, level) => (
+                      <button
+                          key={level}
+                          onClick={() => pulseBit(index, level)}
+                          disabled={isDriven}
+                          style={{ color: levelColor(level, radix) }}
+                          className="flex items-center justify-center gap-1 py-2 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-colors text-xs font-bold uppercase disabled:opacity-50"
+                      >
+                          {compact ? level : `Write ${level}`}
+                      </button>
+                    ))}
+                </div>
+                ) : (
                 <div className="grid grid-cols-2 gap-2">
                     <button 
-                        onClick={() => pulseBit(index, '0')}
-                        disabled={isSweeping}
+                        onClick={() => pulseBit(index, 0)}
+                        disabled={isDriven}
                         // Swapped: Write 0 => Blue
                         className="flex items-center justify-center gap-2 py-2 rounded bg-slate-800 hover:bg-blue-900/20 border border-slate-700 hover:border-blue-500/50 text-slate-300 hover:text-blue-400 transition-colors text-xs font-bold uppercase disabled:opacity-50"
                     >
                         <ArrowDownFromLine size={14} />
-                        Write 0
+                        {compact ? '0' : 'Write 0'}
                     </button>
                     <button 
-                        onClick={() => pulseBit(index, '1')}
-                        disabled={isSweeping}
+                        onClick={() => pulseBit(index, 1)}
+                        disabled={isDriven}
                         // Swapped: Write 1 => Red
                         className="flex items-center justify-center gap-2 py-2 rounded bg-slate-800 hover:bg-red-900/20 border border-slate-700 hover:border-red-500/50 text-slate-300 hover:text-red-400 transition-colors text-xs font-bold uppercase disabled:opacity-50"
                     >
                         <ArrowUpFromLine size={14} />
-                        Write 1
+                        {compact ? '1' : 'Write 1'}
                     </button>
                 </div>
+                )}
             </div>
           </div>
-        ))}
+          );
+        })}
       </main>
 
       {/* Footer Info & Controls */}
       <section className="w-full max-w-4xl flex flex-col gap-4">
+
+        {/* Time Series */}
+        <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 shadow-md flex flex-col gap-2">
+            {bitCount > 1 && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span>Time series for</span>
+                    <select
+                        value={focusIndex}
+                        onChange={(e) => setFocusBit(parseInt(e.target.value, 10))}
+                        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+                    >
+                        {bits.map((_, i) => <option key={i} value={i}>Bit #{i}</option>)}
+                    </select>
+                </div>
+            )}
+            <StripChart
+                bitIndex={focusIndex}
+                samples={focusSamples}
+                windowSeconds={STRIP_WINDOW_SECONDS}
+                amplitudeDomain={yDomains.amplitude}
+                model={model}
+            />
+        </div>
         
         {/* Control Bar */}
         <div className="flex flex-col md:flex-row items-center justify-between gap-4 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
@@ -244,8 +676,8 @@ const App: React.FC = () => {
                     <span className="text-xs font-mono text-slate-500 w-8 text-right">{speed.toFixed(1)}x</span>
                     <input 
                         type="range" 
-                        min="0.1" 
-                        max="3.0" 
+                        min={SPEED_RANGE[0]} 
+                        max={SPEED_RANGE[1]} 
                         step="0.1" 
                         value={speed}
                         onChange={(e) => setSpeed(parseFloat(e.target.value))}
@@ -254,10 +686,40 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {/* Chart View (Fig 8a / 8b) */}
+            <div className="flex rounded-lg overflow-hidden border border-slate-700">
+                {CHART_VIEWS.map(view => (
+                    <button
+                        key={view.id}
+                        onClick={() => setChartView(view.id)}
+                        className={`px-3 py-2 text-xs font-bold transition-colors ${
+                        chartView === view.id
+                            ? 'bg-indigo-500/20 text-indigo-300'
+                            : 'bg-slate-800 text-slate-400 hover:text-white'
+                        }`}
+                    >
+                        {view.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Trajectory Trail Toggle */}
+            <button
+                onClick={() => setShowTrail(!showTrail)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors text-xs font-bold ${
+                showTrail
+                    ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50'
+                    : 'bg-slate-800 text-slate-400 hover:text-white border-slate-700'
+                }`}
+            >
+                <Spline size={14} />
+                Trail
+            </button>
+
             {/* Play/Reset Controls */}
             <div className="flex gap-3 w-full md:w-auto justify-end">
                 <button
-                    onClick={() => setIsSweeping(!isSweeping)}
+                    onClick={() => { stopReplay(); setIsSweeping(!isSweeping); }}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors font-medium ${
                     isSweeping 
                         ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50 hover:bg-indigo-500/30' 
@@ -275,19 +737,140 @@ const App: React.FC = () => {
                     <RotateCcw size={16} />
                     <span>Reset</span>
                 </button>
+
+                {/* Session Sharing */}
+                <button
+                    onClick={handleCopyLink}
+                    title="Copy a link that reopens this exact configuration"
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white border border-slate-700 transition-colors"
+                >
+                    {linkCopied ? <Check size={16} className="text-emerald-400" /> : <Link2 size={16} />}
+                    <span className="text-xs font-bold">{linkCopied ? 'Copied' : 'Link'}</span>
+                </button>
+                <button
+                    onClick={handleForgetSession}
+                    title="Forget the saved session and start over with the defaults"
+                    className="flex items-center px-3 py-2 rounded-lg bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white border border-slate-700 transition-colors"
+                >
+                    <Eraser size={16} />
+                </button>
             </div>
         </div>
 
+        {/* Simulation Clock */}
+        <ClockControls
+          time={sim.getTime()}
+          cursor={timeline.getCursor()}
+          length={timeline.getLength()}
+          startTime={timeline.getTime(0)}
+          endTime={timeline.getTime(timeline.getLength() - 1)}
+          lastEvent={clockEvent}
+          pauseAtEvent={pauseAtEvent}
+          disabled={replayRun !== null}
+          onPauseAtEventChange={setPauseAtEvent}
+          onStepBack={handleStepBack}
+          onStepForward={handleStepForward}
+          onRunToEvent={handleRunToEvent}
+          onSeek={handleSeek}
+        />
+
+        {/* Chart Axes */}
+        <ChartAxesPanel model={model} ranges={axisRanges} onRangesChange={setAxisRanges} />
+
+        {/* Publication Figures */}
+        <FigureExportPanel
+          options={figureOptions}
+          preview={figureFor(focusIndex, observables[0])}
+          exportError={figureError}
+          onOptionsChange={handleFigureOptionsChange}
+        />
+
+        {/* Switching Events */}
+        <EventLog events={sim.getEvents(EVENT_LOG_ROWS)} total={sim.getEventCount()} />
+
+        {/* Drive Waveform */}
+        <WaveformPanel waveform={waveform} errors={sim.getDrive().errors} onWaveformChange={handleWaveformChange} />
+
+        {/* Loop Figures of Merit */}
+        <LoopAnalysisPanel model={model} waveform={waveform} speed={speed} dynamics={dynamics} />
+
+        {/* Read Operation & Margin */}
+        <ReadoutPanel
+          model={model}
+          noise={noise}
+          config={readConfig}
+          lastRead={lastRead}
+          disabled={isDriven}
+          onConfigChange={setReadConfig}
+          onRead={handleReadWord}
+        />
+
+        {/* In-Memory Logic */}
+        <LogicGatePanel
+          model={model}
+          noise={noise}
+          dynamics={dynamics}
+          readConfig={readConfig}
+          bits={bits}
+          disabled={isDriven}
+          onStep={handleGateStep}
+        />
+
+        {/* Write Operating Window */}
+        <ShmooPanel model={model} noise={noise} dynamics={dynamics} />
+
+        {/* Run Export / Import */}
+        <RunFilesPanel
+          model={model}
+          replay={replayRun ? { time: replayTime, duration: runDuration(replayRun) } : null}
+          onExportRun={handleExportRun}
+          onImportRun={handleImportRun}
+          onStopReplay={stopReplay}
+        />
+
+        {/* Device Parameters */}
+        <DeviceModelPanel model={model} onModelChange={handleModelChange} />
+
+        {/* Physical Resonator Engine */}
+        <DuffingPanel model={model} onModelChange={handleModelChange} onMeasuredChange={setMeasured} />
+        <MultiLevelPanel model={model} onModelChange={handleModelChange} />
+
+        {/* Array Crosstalk */}
+        <CrosstalkPanel model={model} coupling={coupling} lastWrite={lastWrite} onCouplingChange={setCoupling} />
+
+        {/* Rate-Dependent Mode */}
+        <DynamicsPanel model={model} dynamics={dynamics} readConfig={readConfig} onDynamicsChange={setDynamics} />
+
+        {/* Retention & Aging */}
+        <AgingPanel
+          model={model}
+          aging={aging}
+          noise={noise}
+          readConfig={readConfig}
+          time={sim.getTime()}
+          cycles={sim.getCycles()}
+          lastStorage={lastStorage}
+          disabled={isDriven}
+          onAgingChange={handleAgingChange}
+          onStore={handleStore}
+        />
+
+        {/* Stochastic Mode */}
+        <NoisePanel model={model} noise={noise} onNoiseChange={setNoise} />
+
+        {/* Measured Data Overlay & Fit */}
+        <FitPanel model={model} measured={measured} onMeasuredChange={setMeasured} onModelChange={handleModelChange} />
+
         {/* Info Card */}
         <div className="bg-indigo-900/20 border border-indigo-500/20 rounded-lg p-4 flex items-start space-x-3">
             <Info className="text-indigo-400 shrink-0 mt-0.5" size={20} />
             <div className="text-sm text-slate-300">
                 <strong className="text-indigo-300 block mb-1">Encoding with Jumps</strong>
                 <p>
-                    Information is stored in the bistable amplitude response at 0V.
+                    Information is stored in the bistable amplitude response at 0V, one resonator per bit (MSB first).
                     <br/>
-                    To write a <strong>1</strong> (Red), the voltage is swept past {CONSTANTS.THRESHOLD_UP}V.
-                    To write a <strong>0</strong> (Blue), the voltage is swept past {CONSTANTS.THRESHOLD_DOWN}V.
+                    To write a <strong>1</strong> (Red), the voltage is swept past {model.THRESHOLD_UP}V.
+                    To write a <strong>0</strong> (Blue), the voltage is swept past {model.THRESHOLD_DOWN}V.
                 </p>
             </div>
         </div>
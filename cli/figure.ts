@@ -0,0 +1,152 @@
+/**
+ * Headless figure export: renders the same hysteresis figure as the UI's
+ * SVG/PNG export, from a saved run or from a device model alone.
+ *
+ *   npm run figure -- --run run.json --bit 0 --observable amplitude --out fig.svg
+ *   npm run figure -- --model duffing --title "Duffing resonator" --out duffing.svg
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { parseArgs } from 'node:util';
+import { Observable } from '../types';
+import { parseRunCSV, parseRunJSON } from '../services/runFiles';
+import {
+  DEFAULT_FIGURE_OPTIONS,
+  FigureOptions,
+  HysteresisFigure,
+  figureFromRun,
+  renderHysteresisSVG,
+  validateFigureOptions,
+} from '../services/figureExport';
+import { loadModel } from './models';
+
+const USAGE = `Usage: npm run figure -- [options]
+
+  --run <path>          Saved run (JSON or CSV); the figure shows its model and the bit's trajectory
+  --bit <n>             Bit of the run to plot (default 0 = MSB)
+  --model <name|path>   Curves only: built-in preset name, "duffing" or device model JSON file
+  --observable <name>   amplitude or frequency (default amplitude)
+  --y-min <value>       Y axis minimum (with --y-max; default: the chart's default range)
+  --y-max <value>       Y axis maximum
+  --width <px>          Figure width (default ${DEFAULT_FIGURE_OPTIONS.width})
+  --height <px>         Figure height (default ${DEFAULT_FIGURE_OPTIONS.height})
+  --font <family>       Font family (default "${DEFAULT_FIGURE_OPTIONS.fontFamily}")
+  --font-size <px>      Base font size (default ${DEFAULT_FIGURE_OPTIONS.fontSize})
+  --title <text>        Figure title
+  --x-label <text>      X axis label (default with units)
+  --y-label <text>      Y axis label (default with units)
+  --no-legend           Omit the branch legend
+  --no-thresholds       Omit the threshold and jump annotations
+  --no-trail            Omit the recorded trajectory
+  --format <svg|png>    Output format (default svg; png needs rsvg-convert on the PATH)
+  --scale <x>           PNG pixels per SVG px (default ${DEFAULT_FIGURE_OPTIONS.pngScale})
+  --out <path>          Output file (default stdout)
+  --help                Show this message`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`figure: ${message}\n`);
+  process.exit(1);
+};
+
+const parseNumber = (flag: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fail(`invalid --${flag} "${value}"`);
+};
+
+const loadFigure = (path: string, bit: number, observable: Observable): HysteresisFigure => {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch {
+    return fail(`cannot read run "${path}"`);
+  }
+  const { run, errors } = path.toLowerCase().endsWith('.csv') ? parseRunCSV(text) : parseRunJSON(text);
+  if (!run) return fail(errors.join(' '));
+  errors.forEach(err => process.stderr.write(`figure: ${err}\n`));
+  if (bit >= run.bits.length) fail(`--bit ${bit} is out of range (run has ${run.bits.length} bit(s))`);
+  return figureFromRun(run, bit, observable);
+};
+
+// The browser rasterizes through a canvas; headless PNG goes through librsvg
+const rasterize = (svg: string, scale: number): Buffer => {
+  const result = spawnSync('rsvg-convert', ['--format', 'png', '--zoom', String(scale)], { input: svg, maxBuffer: 1 << 28 });
+  if (result.error) return fail('PNG output needs rsvg-convert (librsvg) on the PATH; use --format svg instead');
+  if (result.status !== 0) return fail(`rsvg-convert failed: ${result.stderr.toString().trim()}`);
+  return result.stdout;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      run: { type: 'string' },
+      bit: { type: 'string' },
+      model: { type: 'string' },
+      observable: { type: 'string' },
+      'y-min': { type: 'string' },
+      'y-max': { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      font: { type: 'string' },
+      'font-size': { type: 'string' },
+      title: { type: 'string' },
+      'x-label': { type: 'string' },
+      'y-label': { type: 'string' },
+      'no-legend': { type: 'boolean' },
+      'no-thresholds': { type: 'boolean' },
+      'no-trail': { type: 'boolean' },
+      format: { type: 'string' },
+      scale: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const format = values.format ?? 'svg';
+  if (format !== 'svg' && format !== 'png') fail('--format must be svg or png');
+  const observable = values.observable ?? 'amplitude';
+  if (observable !== 'amplitude' && observable !== 'frequency') fail('--observable must be amplitude or frequency');
+  if (values.run !== undefined && values.model !== undefined) fail('use either --run or --model');
+
+  const bit = parseNumber('bit', values.bit) ?? 0;
+  if (!Number.isInteger(bit) || bit < 0) fail(`invalid --bit "${values.bit}"`);
+  const figure: HysteresisFigure = values.run !== undefined
+    ? loadFigure(values.run, bit, observable as Observable)
+    : { model: loadModel(values.model, fail), observable: observable as Observable };
+
+  const yMin = parseNumber('y-min', values['y-min']);
+  const yMax = parseNumber('y-max', values['y-max']);
+  if ((yMin === undefined) !== (yMax === undefined)) fail('--y-min and --y-max go together');
+  if (yMin !== undefined && yMax !== undefined) {
+    if (!(yMax > yMin)) fail('--y-max must exceed --y-min');
+    figure.yDomain = [yMin, yMax];
+  }
+
+  const options: FigureOptions = {
+    width: parseNumber('width', values.width) ?? DEFAULT_FIGURE_OPTIONS.width,
+    height: parseNumber('height', values.height) ?? DEFAULT_FIGURE_OPTIONS.height,
+    fontFamily: values.font ?? DEFAULT_FIGURE_OPTIONS.fontFamily,
+    fontSize: parseNumber('font-size', values['font-size']) ?? DEFAULT_FIGURE_OPTIONS.fontSize,
+    title: values.title ?? '',
+    xLabel: values['x-label'] ?? '',
+    yLabel: values['y-label'] ?? '',
+    legend: !values['no-legend'],
+    thresholds: !values['no-thresholds'],
+    trail: !values['no-trail'],
+    pngScale: parseNumber('scale', values.scale) ?? DEFAULT_FIGURE_OPTIONS.pngScale,
+  };
+  const errors = validateFigureOptions(options);
+  if (errors.length > 0) fail(errors.join(' '));
+
+  const svg = renderHysteresisSVG(figure, options);
+  const output = format === 'png' ? rasterize(svg, options.pngScale) : svg;
+  if (values.out) writeFileSync(values.out, output);
+  else process.stdout.write(output);
+};
+
+main();
@@ -0,0 +1,27 @@
+import { readFileSync } from 'node:fs';
+import { DEFAULT_DEVICE_MODEL, DeviceModel } from '../types';
+import { BUILTIN_PRESETS, validateDeviceModel } from '../services/deviceModel';
+import { DEFAULT_DUFFING_PARAMS } from '../services/duffingEngine';
+import { fitDuffingModel } from '../services/modelFit';
+
+/**
+ * Resolves a --model value shared by the command-line tools: a built-in preset
+ * name (prefix match), "duffing", or a device model JSON file.
+ */
+export const loadModel = (value: string | undefined, fail: (message: string) => never): DeviceModel => {
+  if (value === undefined) return DEFAULT_DEVICE_MODEL;
+  // Integrated resonator; its thresholds come from the dynamics
+  if (value.toLowerCase() === 'duffing') return fitDuffingModel(DEFAULT_DUFFING_PARAMS, DEFAULT_DEVICE_MODEL).model;
+  const preset = BUILTIN_PRESETS.find(p => p.name.toLowerCase().startsWith(value.toLowerCase()));
+  if (preset) return preset.model;
+
+  let model: DeviceModel;
+  try {
+    model = { ...DEFAULT_DEVICE_MODEL, ...JSON.parse(readFileSync(value, 'utf8')) };
+  } catch {
+    return fail(`--model "${value}" is neither a preset (${BUILTIN_PRESETS.map(p => p.name).join(', ')}) nor a readable JSON file`);
+  }
+  const errors = validateDeviceModel(model);
+  if (errors.length > 0) return fail(`invalid model: ${errors.join(' ')}`);
+  return model.duffing ? fitDuffingModel(model.duffing, model).model : model;
+};
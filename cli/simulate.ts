@@ -0,0 +1,137 @@
+/**
+ * Headless runner: simulates a named scenario or a drive script without the UI
+ * and writes the recorded run as CSV or JSON.
+ *
+ *   npm run simulate -- --scenario sweep --format csv --out sweep.csv
+ *   npm run simulate -- --script "ramp to 1.3 over 1s, hold 1s" --duration 3
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { CouplingConfig, DynamicsConfig, NoiseConfig } from '../types';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE } from '../services/physicsEngine';
+import { DEFAULT_WAVEFORM, compileWaveform } from '../services/waveforms';
+import { REGISTER_SIZES } from '../services/memoryRegister';
+import { DEFAULT_COUPLING, HALF_SELECT_SCHEMES } from '../services/crosstalk';
+import { DEFAULT_SAMPLE_DT, SCENARIOS, Scenario, findScenario, runScenario } from '../services/scenarios';
+import { runToCSV, runToJSON } from '../services/runFiles';
+import { loadModel } from './models';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --scenario <name>     Named scenario (see --list), default "sweep"
+  --script <text>       Drive script instead of a scenario (e.g. "ramp to 1.3 over 1s, hold 1s")
+  --script-file <path>  Drive script read from a file
+  --list                List the named scenarios and exit
+  --bits <n>            Register width (${REGISTER_SIZES.join(', ')})
+  --duration <s>        Simulated time
+  --dt <s>              Sample step (default ${DEFAULT_SAMPLE_DT.toFixed(4)})
+  --speed <x>           Drive speed multiplier (default 1)
+  --model <name|path>   Built-in preset name, "duffing" or device model JSON file
+  --noise               Enable the stochastic mode
+  --seed <n>            Random seed for the stochastic mode
+  --tau <s>             Enable the dynamic mode with this readout time constant
+  --dwell <s>           Enable the dynamic mode with this minimum dwell past threshold
+  --coupling <k>        Crosstalk between adjacent bits (0-1)
+  --scheme <name>       Unselected-bit bias during writes: ground, half, third
+  --format <csv|json>   Output format (default csv)
+  --out <path>          Output file (default stdout)
+  --help                Show this message`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`simulate: ${message}\n`);
+  process.exit(1);
+};
+
+const parseNumber = (flag: string, value: string | undefined, check: (n: number) => boolean): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && check(n) ? n : fail(`invalid --${flag} "${value}"`);
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      script: { type: 'string' },
+      'script-file': { type: 'string' },
+      list: { type: 'boolean' },
+      bits: { type: 'string' },
+      duration: { type: 'string' },
+      dt: { type: 'string' },
+      speed: { type: 'string' },
+      model: { type: 'string' },
+      noise: { type: 'boolean' },
+      seed: { type: 'string' },
+      tau: { type: 'string' },
+      dwell: { type: 'string' },
+      coupling: { type: 'string' },
+      scheme: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (values.list) {
+    SCENARIOS.forEach(s => process.stdout.write(`${s.name.padEnd(14)} ${s.description}\n`));
+    return;
+  }
+
+  const format = values.format ?? 'csv';
+  if (format !== 'csv' && format !== 'json') fail(`--format must be csv or json`);
+
+  const model = loadModel(values.model, fail);
+
+  const source = values['script-file'] !== undefined ? readFileSync(values['script-file'], 'utf8') : values.script;
+  let scenario: Scenario;
+  if (source !== undefined) {
+    const waveform = { ...DEFAULT_WAVEFORM, kind: 'script' as const, source };
+    const { errors, duration } = compileWaveform(waveform, model);
+    if (errors.length > 0) fail(`script errors:\n  ${errors.join('\n  ')}`);
+    scenario = { name: 'script', description: 'Command-line drive script', bitCount: 1, waveform, duration: duration ?? 10 };
+  } else {
+    const name = values.scenario ?? 'sweep';
+    scenario = findScenario(name) ?? fail(`unknown scenario "${name}" (try --list)`);
+  }
+
+  const bits = parseNumber('bits', values.bits, n => REGISTER_SIZES.includes(n));
+  const duration = parseNumber('duration', values.duration, n => n > 0);
+  const sampleDt = parseNumber('dt', values.dt, n => n > 0) ?? DEFAULT_SAMPLE_DT;
+  const speed = parseNumber('speed', values.speed, n => n > 0);
+  const seed = parseNumber('seed', values.seed, n => Number.isInteger(n) && n >= 0);
+  const noise: NoiseConfig = { ...DEFAULT_NOISE, enabled: values.noise ?? false, seed: seed ?? DEFAULT_NOISE.seed };
+
+  const tau = parseNumber('tau', values.tau, n => n >= 0);
+  const dwell = parseNumber('dwell', values.dwell, n => n >= 0);
+  const dynamics: DynamicsConfig = {
+    enabled: tau !== undefined || dwell !== undefined,
+    timeConstant: tau ?? DEFAULT_DYNAMICS.timeConstant,
+    minDwell: dwell ?? DEFAULT_DYNAMICS.minDwell,
+  };
+
+  const k = parseNumber('coupling', values.coupling, n => n >= 0 && n <= 1);
+  const scheme = HALF_SELECT_SCHEMES.find(s => s.scheme === (values.scheme ?? DEFAULT_COUPLING.scheme))?.scheme
+    ?? fail(`--scheme must be one of ${HALF_SELECT_SCHEMES.map(s => s.scheme).join(', ')}`);
+  const coupling: CouplingConfig = { enabled: k !== undefined, neighborCoupling: k ?? 0, scheme };
+
+  const run = runScenario(
+    { ...scenario, bitCount: bits ?? scenario.bitCount, duration: duration ?? scenario.duration },
+    { sampleDt, model, noise, dynamics, coupling, speed }
+  );
+
+  const text = format === 'json' ? runToJSON(run) : runToCSV(run);
+  if (values.out) writeFileSync(values.out, text);
+  else process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+
+  const events = run.events ?? [];
+  process.stderr.write(`${scenario.name}: ${run.bits.length} bit(s), ${events.length} switching event(s)\n`);
+  events.forEach(e =>
+    process.stderr.write(`  t=${e.time.toFixed(3)}s  bit #${e.bit}  ${e.toLevel === undefined ? `${e.from} -> ${e.to}` : `level ${e.fromLevel} -> ${e.toLevel}`}  @ ${e.voltage.toFixed(3)}V\n`)
+  );
+};
+
+main();
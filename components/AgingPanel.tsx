@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Hourglass, ChevronDown, ChevronUp, FastForward } from 'lucide-react';
+import { AgingConfig, DeviceModel, NoiseConfig } from '../types';
+import { ReadConfig } from '../services/readout';
+import { REFERENCE_TEMPERATURE, loopFactor, temperatureAt } from '../services/aging';
+import { STORAGE_DURATIONS, StorageReport, retentionFigures } from '../services/retention';
+
+interface AgingPanelProps {
+  model: DeviceModel;
+  aging: AgingConfig;
+  noise: NoiseConfig;
+  readConfig: ReadConfig;
+  time: number;     // Simulation clock (s)
+  cycles: number[]; // Switches of each bit so far
+  lastStorage: StorageReport | null;
+  disabled: boolean;
+  onAgingChange: (aging: AgingConfig) => void;
+  onStore: (duration: number) => void;
+}
+
+const AGING_FIELDS: { key: keyof Omit<AgingConfig, 'enabled'>; label: string; unit: string; step: number; min?: number }[] = [
+  { key: 'temperature', label: 'Temperature', unit: `K over ${REFERENCE_TEMPERATURE}K`, step: 5, min: -REFERENCE_TEMPERATURE + 1 },
+  { key: 'temperatureDrift', label: 'Temp. drift', unit: 'K/h', step: 0.1 },
+  { key: 'freqTempCoeff', label: 'Freq. coeff.', unit: 'kHz/K', step: 0.0005 },
+  { key: 'thresholdTempCoeff', label: 'Threshold coeff.', unit: 'V/K', step: 0.0005 },
+  { key: 'retentionTime', label: 'Retention', unit: `s at ${REFERENCE_TEMPERATURE}K`, step: 86400, min: 1 },
+  { key: 'activationEnergy', label: 'Activation', unit: 'eV', step: 0.05, min: 0 },
+  { key: 'fatigueRate', label: 'Fatigue', unit: '/decade', step: 0.01, min: 0 },
+];
+
+// Seconds in the largest unit that keeps the number readable
+const formatDuration = (s: number | null): string => {
+  if (s === null || !Number.isFinite(s)) return 'never';
+  if (s < 60) return `${s.toFixed(1)} s`;
+  if (s < 3600) return `${(s / 60).toFixed(1)} min`;
+  if (s < 86400) return `${(s / 3600).toFixed(1)} h`;
+  if (s < 3.156e7) return `${(s / 86400).toFixed(1)} days`;
+  return `${(s / 3.156e7).toPrecision(3)} years`;
+};
+
+const formatCycles = (n: number | null) => (n === null || !Number.isFinite(n) ? 'unlimited' : n < 1e4 ? n.toFixed(0) : n.toExponential(1));
+
+export const AgingPanel: React.FC<AgingPanelProps> = ({
+  model,
+  aging,
+  noise,
+  readConfig,
+  time,
+  cycles,
+  lastStorage,
+  disabled,
+  onAgingChange,
+  onStore,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [duration, setDuration] = useState(STORAGE_DURATIONS[1].seconds);
+
+  const handleFieldChange = (key: keyof AgingConfig, value: string, min?: number) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || (min !== undefined && parsed < min)) return;
+    onAgingChange({ ...aging, [key]: parsed });
+  };
+
+  const figures = retentionFigures(aging, readConfig, model, noise, time);
+  const temperature = temperatureAt(aging, time);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Hourglass size={18} />
+          <span className="text-sm font-medium">Retention, Drift &amp; Aging</span>
+          <span className={`text-xs font-mono ${aging.enabled ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({aging.enabled ? `${(REFERENCE_TEMPERATURE + temperature).toFixed(0)}K, retention ${formatDuration(figures.retentionTime)}` : 'off'})
+          </span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={aging.enabled}
+              onChange={(e) => onAgingChange({ ...aging, enabled: e.target.checked })}
+              className="accent-indigo-400"
+            />
+            Enable aging (temperature drift of the curves, stored levels relax, switching wears the loop)
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {AGING_FIELDS.map(f => (
+              <label key={f.key} className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-24">{f.label}</span>
+                <input
+                  type="number"
+                  min={f.min}
+                  step={f.step}
+                  value={aging[f.key]}
+                  onChange={(e) => handleFieldChange(f.key, e.target.value, f.min)}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="w-20 text-slate-600">{f.unit}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Figures of merit */}
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-2 text-xs">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 font-mono">
+              <div className="text-slate-400">Retention (mean): <span className="text-indigo-300">{formatDuration(figures.retentionTime)}</span></div>
+              <div className="text-slate-400">1% of levels lost: <span className="text-indigo-300">{formatDuration(figures.timeToOnePercent)}</span></div>
+              <div className="text-slate-400">Drift-limited read: <span className="text-indigo-300">{formatDuration(figures.driftLimit)}</span></div>
+              <div className="text-slate-400">Endurance: <span className="text-indigo-300">{formatCycles(figures.endurance)} cycles</span></div>
+            </div>
+            <p className="text-slate-500">
+              Stored levels relax one level down at random (level 0 holds), faster when warm. The drift limit is how long a
+              read calibrated now keeps deciding correctly while the {readConfig.observable} drifts with temperature; endurance is
+              the switching count at which fatigue has drawn the branches too close to read
+              {noise.enabled ? ` (3σ of the readout noise)` : ' (the loop closes)'}.
+            </p>
+            {aging.enabled && (
+              <div className="font-mono text-slate-500">
+                Wear: {cycles.map((n, i) => `#${i} ${n} (${(loopFactor(aging, n) * 100).toFixed(0)}%)`).join(', ')}
+              </div>
+            )}
+          </div>
+
+          {/* Accelerated storage */}
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <span className="text-xs text-slate-500 uppercase tracking-widest font-bold">Store for</span>
+            <select
+              value={duration}
+              onChange={(e) => setDuration(parseFloat(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+            >
+              {STORAGE_DURATIONS.map(d => <option key={d.label} value={d.seconds}>{d.label}</option>)}
+            </select>
+            <button
+              onClick={() => onStore(duration)}
+              disabled={disabled || !aging.enabled}
+              className="flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50"
+            >
+              <FastForward size={14} />
+              Fast-Forward
+            </button>
+            {disabled && <span className="text-slate-500">Stop the sweep to store.</span>}
+          </div>
+
+          {lastStorage && (
+            <div className="text-xs font-mono flex flex-col gap-1">
+              {lastStorage.losses.length === 0 ? (
+                <span className="text-emerald-400">
+                  All {lastStorage.stored.length} bit(s) held their value for {formatDuration(lastStorage.duration)}.
+                </span>
+              ) : (
+                lastStorage.losses.map(loss => (
+                  <span key={loss.bit} className="text-amber-300">
+                    Bit #{loss.bit} (stored {lastStorage.stored[loss.bit]}) lost after {formatDuration(loss.time)}:{' '}
+                    {loss.cause === 'relaxed' ? 'relaxed to a lower level' : 'reads wrong after drift'}
+                  </span>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
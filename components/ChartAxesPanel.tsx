@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Ruler, ChevronDown, ChevronUp } from 'lucide-react';
+import { AxisRange, DeviceModel, Observable } from '../types';
+import { OBSERVABLE_UNITS } from '../services/readout';
+import { DEFAULT_AXIS_RANGES, resolveAxis } from '../services/chartScale';
+
+interface ChartAxesPanelProps {
+  model: DeviceModel;
+  ranges: Record<Observable, AxisRange>;
+  onRangesChange: (ranges: Record<Observable, AxisRange>) => void;
+}
+
+const AXES: { observable: Observable; label: string }[] = [
+  { observable: 'amplitude', label: 'Amplitude' },
+  { observable: 'frequency', label: 'Frequency' },
+];
+
+export const ChartAxesPanel: React.FC<ChartAxesPanelProps> = ({ model, ranges, onRangesChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (observable: Observable, range: AxisRange) => onRangesChange({ ...ranges, [observable]: range });
+
+  // Switching to manual starts from whatever the chart currently shows
+  const handleAutoChange = (observable: Observable, auto: boolean) => {
+    const [min, max] = resolveAxis(ranges[observable], observable, model);
+    update(observable, auto ? { ...ranges[observable], auto } : { auto, min, max });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Ruler size={18} />
+          <span className="text-sm font-medium">Chart Axes</span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            {AXES.map(({ observable, label }) => {
+              const range = ranges[observable];
+              const invalid = !range.auto && !(range.max > range.min);
+              return (
+                <div key={observable} className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <span className="w-20">{label}</span>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={range.auto}
+                      onChange={(e) => handleAutoChange(observable, e.target.checked)}
+                      className="accent-indigo-400"
+                    />
+                    Auto
+                  </label>
+                  {(['min', 'max'] as const).map(bound => (
+                    <label key={bound} className="flex items-center gap-2">
+                      {bound}
+                      <input
+                        type="number"
+                        step="any"
+                        disabled={range.auto}
+                        value={Number.isFinite(range[bound]) ? range[bound] : ''}
+                        onChange={(e) => update(observable, { ...range, [bound]: parseFloat(e.target.value) })}
+                        className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200 disabled:opacity-50"
+                      />
+                    </label>
+                  ))}
+                  <span className="text-slate-600">{OBSERVABLE_UNITS[observable]}</span>
+                  {invalid && <span className="text-red-400">max must exceed min (showing auto)</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onRangesChange(DEFAULT_AXIS_RANGES)}
+              className="px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase"
+            >
+              Defaults
+            </button>
+            <p className="text-xs text-slate-500">
+              On the charts: scroll to zoom (shift for voltage only), drag to pan, double-click to reset the view,
+              drag the operating point to set a bit's voltage.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Clock, StepBack, StepForward, SkipForward } from 'lucide-react';
+import { SwitchingEvent } from '../types';
+import { SIM_DT } from '../services/timeline';
+
+interface ClockControlsProps {
+  time: number;      // Current clock time (s)
+  cursor: number;    // Recorded step the simulation is at
+  length: number;    // Recorded steps
+  startTime: number; // Clock time of the oldest recorded step
+  endTime: number;   // ... and of the newest
+  lastEvent: SwitchingEvent | null;
+  pauseAtEvent: boolean;
+  disabled: boolean; // While a saved run is replayed
+  onPauseAtEventChange: (pause: boolean) => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onRunToEvent: () => void;
+  onSeek: (index: number) => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold disabled:opacity-50';
+
+export const ClockControls: React.FC<ClockControlsProps> = ({
+  time,
+  cursor,
+  length,
+  startTime,
+  endTime,
+  lastEvent,
+  pauseAtEvent,
+  disabled,
+  onPauseAtEventChange,
+  onStepBack,
+  onStepForward,
+  onRunToEvent,
+  onSeek,
+}) => {
+  const rewound = cursor < length - 1;
+
+  return (
+    <div className={`bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 flex flex-col gap-3 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 text-slate-400">
+          <Clock size={18} />
+          <span className="text-sm font-medium">Clock</span>
+        </span>
+        <span className="text-xs font-mono text-slate-300">t = {time.toFixed(4)}s</span>
+        <span className="text-xs font-mono text-slate-500">(step Δt {(SIM_DT * 1000).toFixed(2)}ms)</span>
+
+        <div className="flex gap-2 ml-auto">
+          <button onClick={onStepBack} disabled={cursor === 0} className={buttonClass} title="Back one step">
+            <StepBack size={14} />
+          </button>
+          <button onClick={onStepForward} className={buttonClass} title="Forward one step">
+            <StepForward size={14} />
+          </button>
+          <button onClick={onRunToEvent} className={buttonClass} title="Run until the next switching event">
+            <SkipForward size={14} />
+            Next switch
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={pauseAtEvent}
+            onChange={(e) => onPauseAtEventChange(e.target.checked)}
+            className="accent-indigo-400"
+          />
+          Pause at switches
+        </label>
+      </div>
+
+      {/* Timeline Scrubber */}
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-mono text-slate-500 w-16 text-right">{startTime.toFixed(2)}s</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, length - 1)}
+          step={1}
+          value={cursor}
+          onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+          className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-400"
+        />
+        <span className="text-xs font-mono text-slate-500 w-16">{endTime.toFixed(2)}s</span>
+      </div>
+
+      {(lastEvent || rewound) && (
+        <div className="flex flex-wrap gap-4 text-xs font-mono">
+          {lastEvent && (
+            <span className={lastEvent.to === 'upper' ? 'text-red-400' : 'text-blue-400'}>
+              Switch: bit #{lastEvent.bit} {lastEvent.toLevel === undefined ? `${lastEvent.from} → ${lastEvent.to}` : `level ${lastEvent.fromLevel} → ${lastEvent.toLevel}`} at {lastEvent.voltage.toFixed(3)}V, t={lastEvent.time.toFixed(4)}s
+            </span>
+          )}
+          {rewound && (
+            <span className="text-amber-400">
+              Rewound {length - 1 - cursor} step(s): stepping replays them, running resimulates from here
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Network, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { CouplingConfig, DeviceModel } from '../types';
+import { HALF_SELECT_SCHEMES, criticalCoupling, criticalWordCoupling } from '../services/crosstalk';
+import { WRITE_PULSE_VOLTAGE } from '../services/memoryRegister';
+import { WriteReport } from '../services/simulationCore';
+
+interface CrosstalkPanelProps {
+  model: DeviceModel;
+  coupling: CouplingConfig;
+  lastWrite: WriteReport | null;
+  onCouplingChange: (coupling: CouplingConfig) => void;
+}
+
+const formatCoupling = (k: number | null) => (k === null ? 'none ≤ 1' : k.toFixed(3));
+
+export const CrosstalkPanel: React.FC<CrosstalkPanelProps> = ({ model, coupling, lastWrite, onCouplingChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const limits = useMemo(
+    () => ({
+      schemes: HALF_SELECT_SCHEMES.map(s => ({ ...s, critical: criticalCoupling(s.scheme, model) })),
+      word: criticalWordCoupling(model),
+    }),
+    [model]
+  );
+
+  const k = coupling.neighborCoupling;
+  const corrupted = lastWrite !== null && (lastWrite.flipped.length > 0 || lastWrite.failed.length > 0);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Network size={18} />
+          <span className="text-sm font-medium">Crosstalk &amp; Half-Select</span>
+          <span className={`text-xs font-mono ${coupling.enabled ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({coupling.enabled ? `k=${k}, ${HALF_SELECT_SCHEMES.find(s => s.scheme === coupling.scheme)?.label}` : 'off'})
+          </span>
+          {corrupted && <AlertTriangle size={14} className="text-amber-400" />}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={coupling.enabled}
+              onChange={(e) => onCouplingChange({ ...coupling, enabled: e.target.checked })}
+              className="accent-indigo-400"
+            />
+            Couple adjacent resonators (writes and manual voltages leak into neighbors)
+          </label>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-2">
+              Coupling k
+              <input
+                type="range"
+                min="0"
+                max="0.5"
+                step="0.005"
+                value={k}
+                onChange={(e) => onCouplingChange({ ...coupling, neighborCoupling: parseFloat(e.target.value) })}
+                className="w-32 accent-indigo-400"
+              />
+              <span className="font-mono text-slate-300 w-12">{k.toFixed(3)}</span>
+            </label>
+            <div className="flex items-center gap-2">
+              Unselected bits at
+              <div className="flex rounded overflow-hidden border border-slate-700">
+                {HALF_SELECT_SCHEMES.map(s => (
+                  <button
+                    key={s.scheme}
+                    onClick={() => onCouplingChange({ ...coupling, scheme: s.scheme })}
+                    className={`px-2 py-1 text-xs font-bold transition-colors ${
+                      coupling.scheme === s.scheme ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Scheme Comparison */}
+          <table className="text-xs font-mono text-slate-400">
+            <thead>
+              <tr className="text-slate-500 text-left">
+                <th className="font-normal pr-4">Scheme</th>
+                <th className="font-normal pr-4">Neighbor sees (k={k.toFixed(3)})</th>
+                <th className="font-normal pr-4">Selected sees</th>
+                <th className="font-normal">Critical k</th>
+              </tr>
+            </thead>
+            <tbody>
+              {limits.schemes.map(s => {
+                // Single write of +V next to two unselected bits at fraction*V
+                const bias = s.fraction * WRITE_PULSE_VOLTAGE;
+                const neighbor = bias + k * (WRITE_PULSE_VOLTAGE - bias);
+                const selected = WRITE_PULSE_VOLTAGE + 2 * k * (bias - WRITE_PULSE_VOLTAGE);
+                const unsafe = s.critical !== null && k >= s.critical;
+                return (
+                  <tr key={s.scheme} className={coupling.scheme === s.scheme ? 'text-slate-200' : ''}>
+                    <td className="pr-4">{s.label}</td>
+                    <td className="pr-4">±{neighbor.toFixed(3)}V</td>
+                    <td className="pr-4">±{selected.toFixed(3)}V</td>
+                    <td className={unsafe ? 'text-red-400' : 'text-emerald-400'}>{formatCoupling(s.critical)}</td>
+                  </tr>
+                );
+              })}
+              <tr>
+                <td className="pr-4">Word</td>
+                <td className="pr-4 text-slate-500" colSpan={2}>alternating bits, all selected</td>
+                <td className={limits.word !== null && k >= limits.word ? 'text-red-400' : 'text-emerald-400'}>{formatCoupling(limits.word)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-500">
+            Critical k is the smallest coupling at which a single-bit write flips a neighbor or fails to switch its own bit
+            (thresholds {model.THRESHOLD_DOWN}V / +{model.THRESHOLD_UP}V, pulses ±{WRITE_PULSE_VOLTAGE}V).
+          </p>
+
+          {lastWrite && (
+            <div className={`text-xs font-mono ${corrupted ? 'text-amber-300' : 'text-slate-500'}`}>
+              Last write: {lastWrite.flipped.length > 0 ? `disturbed bit ${lastWrite.flipped.map(i => `#${i}`).join(', ')}` : 'no neighbor flips'}
+              {lastWrite.failed.length > 0 && `; failed to write ${lastWrite.failed.map(i => `#${i}`).join(', ')}`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { DEFAULT_DEVICE_MODEL, DeviceModel, DevicePreset } from '../types';
+import {
+  BUILTIN_PRESETS,
+  DEVICE_PARAMS,
+  DeviceParamSpec,
+  loadUserPresets,
+  saveUserPresets,
+  validateDeviceModel,
+} from '../services/deviceModel';
+
+interface DeviceModelPanelProps {
+  model: DeviceModel;
+  onModelChange: (model: DeviceModel) => void;
+}
+
+type Draft = Record<DeviceParamSpec['key'], string>;
+
+const toDraft = (model: DeviceModel): Draft =>
+  Object.fromEntries(DEVICE_PARAMS.map(p => [p.key, String(model[p.key])])) as Draft;
+
+const fromDraft = (draft: Draft): DeviceModel => {
+  const model: DeviceModel = { ...DEFAULT_DEVICE_MODEL };
+  for (const { key } of DEVICE_PARAMS) model[key] = draft[key].trim() === '' ? NaN : Number(draft[key]);
+  return model;
+};
+
+export const DeviceModelPanel: React.FC<DeviceModelPanelProps> = ({ model, onModelChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(model));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [userPresets, setUserPresets] = useState<DevicePreset[]>(loadUserPresets);
+  const [selectedPreset, setSelectedPreset] = useState(BUILTIN_PRESETS[0].name);
+  const [presetName, setPresetName] = useState('');
+
+  const presets = [...BUILTIN_PRESETS, ...userPresets];
+
+  // Keep the form in sync when the model is changed from outside (e.g. preset/restore),
+  // but leave partially-typed values alone when the change came from this form
+  useEffect(() => {
+    setDraft(prev => {
+      const current = fromDraft(prev);
+      const same = DEVICE_PARAMS.every(p => current[p.key] === model[p.key]);
+      return same ? prev : toDraft(model);
+    });
+  }, [model]);
+
+  const handleFieldChange = (key: DeviceParamSpec['key'], value: string) => {
+    const nextDraft = { ...draft, [key]: value };
+    setDraft(nextDraft);
+
+    // Apply live only when the whole model is valid
+    const candidate = fromDraft(nextDraft);
+    const problems = validateDeviceModel(candidate);
+    setErrors(problems);
+    if (problems.length === 0) onModelChange(candidate);
+  };
+
+  const handleSelectPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setSelectedPreset(name);
+    setErrors([]);
+    onModelChange(preset.model);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || errors.length > 0 || BUILTIN_PRESETS.some(p => p.name === name)) return;
+    const next = [...userPresets.filter(p => p.name !== name), { name, model }];
+    setUserPresets(next);
+    saveUserPresets(next);
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    const next = userPresets.filter(p => p.name !== selectedPreset);
+    setUserPresets(next);
+    saveUserPresets(next);
+    setSelectedPreset(BUILTIN_PRESETS[0].name);
+  };
+
+  const groups = DEVICE_PARAMS.reduce<Record<string, DeviceParamSpec[]>>((acc, p) => {
+    (acc[p.group] = acc[p.group] || []).push(p);
+    return acc;
+  }, {});
+
+  const isUserPreset = userPresets.some(p => p.name === selectedPreset);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal size={18} />
+          <span className="text-sm font-medium">Device Model</span>
+          <span className="text-xs font-mono text-slate-500">({selectedPreset})</span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          {/* Presets */}
+          <div className="flex flex-col md:flex-row gap-2 md:items-center">
+            <select
+              value={selectedPreset}
+              onChange={(e) => handleSelectPreset(e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300"
+            >
+              {presets.map(p => (
+                <option key={p.name} value={p.name}>{p.name}{p.builtIn ? '' : ' (saved)'}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDeletePreset}
+              disabled={!isUserPreset}
+              className="flex items-center gap-1 px-2 py-1.5 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 transition-colors text-xs disabled:opacity-40"
+            >
+              <Trash2 size={12} />
+              Delete
+            </button>
+            <div className="flex gap-2 md:ml-auto">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300 placeholder:text-slate-600"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim() || errors.length > 0}
+                className="flex items-center gap-1 px-2 py-1.5 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-white transition-colors text-xs disabled:opacity-40"
+              >
+                <Save size={12} />
+                Save
+              </button>
+            </div>
+          </div>
+
+          {model.duffing && (
+            <p className="text-xs text-indigo-300">
+              Branches come from the integrated Duffing resonator; the values below are the curves fitted to it.
+              Editing a value switches back to these fitted curves.
+            </p>
+          )}
+          {model.levels && (
+            <p className="text-xs text-indigo-300">
+              This is a {model.levels.BRANCHES.length}-level model (see Multi-Level Storage); the values below are its
+              outermost branches. Editing a value switches back to a two-branch model.
+            </p>
+          )}
+
+          {/* Parameters */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {Object.entries(groups).map(([group, params]) => (
+              <div key={group} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-2">
+                <div className="text-xs text-slate-500 uppercase tracking-widest font-bold">{group}</div>
+                {params.map(p => (
+                  <label key={p.key} className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="w-20">{p.label}</span>
+                    <input
+                      type="number"
+                      step={p.step}
+                      value={draft[p.key]}
+                      onChange={(e) => handleFieldChange(p.key, e.target.value)}
+                      className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                    />
+                    <span className="w-12 text-slate-600">{p.unit}</span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
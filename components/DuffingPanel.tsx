@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Waves, ChevronDown, ChevronUp, Play, Check, ScatterChart } from 'lucide-react';
+import { DeviceModel, DuffingParams, MeasuredPoint, Observable } from '../types';
+import { DEFAULT_DUFFING_PARAMS, DUFFING_PARAMS, validateDuffingParams } from '../services/duffingEngine';
+import { DuffingFit, fitDuffingModel } from '../services/modelFit';
+
+interface DuffingPanelProps {
+  model: DeviceModel;
+  onModelChange: (model: DeviceModel) => void;
+  onMeasuredChange: (points: MeasuredPoint[]) => void;
+}
+
+type Draft = Record<keyof DuffingParams, string>;
+
+const toDraft = (params: DuffingParams): Draft =>
+  Object.fromEntries(DUFFING_PARAMS.map(p => [p.key, String(params[p.key])])) as Draft;
+
+const fromDraft = (draft: Draft): DuffingParams => {
+  const params: DuffingParams = { ...DEFAULT_DUFFING_PARAMS };
+  for (const { key } of DUFFING_PARAMS) params[key] = draft[key].trim() === '' ? NaN : Number(draft[key]);
+  return params;
+};
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const UNITS: Record<Observable, string> = { amplitude: 'mV', frequency: 'kHz' };
+
+export const DuffingPanel: React.FC<DuffingPanelProps> = ({ model, onModelChange, onMeasuredChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(model.duffing ?? DEFAULT_DUFFING_PARAMS));
+  const [result, setResult] = useState<DuffingFit | null>(null);
+
+  // A fit belongs to the parameters it was integrated from
+  const editDraft = (next: Draft) => {
+    setDraft(next);
+    setResult(null);
+  };
+
+  const params = fromDraft(draft);
+  const errors = validateDuffingParams(params);
+  const active = model.duffing !== undefined;
+
+  // Integrating both sweeps takes a few hundred ms, so this runs on demand only
+  const integrate = (): DuffingFit | null => {
+    if (errors.length > 0) return null;
+    const fit = fitDuffingModel(params, model);
+    setResult(fit);
+    return fit;
+  };
+
+  const handleUseDuffing = () => {
+    const fit = integrate();
+    if (fit && fit.bistable) onModelChange(fit.model);
+  };
+
+  const handleUseFitted = () => {
+    const fit = result ?? integrate();
+    if (!fit) return;
+    const { duffing: _, ...fitted } = fit.model;
+    onModelChange(fitted);
+  };
+
+  const handleOverlay = () => {
+    const fit = result ?? integrate();
+    if (fit) onMeasuredChange(fit.points);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Waves size={18} />
+          <span className="text-sm font-medium">Duffing Resonator</span>
+          <span className={`text-xs font-mono ${active ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({active ? 'integrated dynamics' : 'phenomenological curves'})
+          </span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-500">
+            x'' + x'/Q + k1(V)·x + k3(V)·x³ = F·cos(ωt), with k1 = 1 + a·V and k3 = k3₀(1 + b·V). The bias voltage
+            detunes the resonator; sweeping it up and down follows the stable steady state, and the thresholds are
+            wherever that state jumps.
+          </p>
+
+          {/* Parameters */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {DUFFING_PARAMS.map(p => (
+              <label key={p.key} className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-20">{p.label}</span>
+                <input
+                  type="number"
+                  step={p.step}
+                  value={draft[p.key]}
+                  onChange={(e) => editDraft({ ...draft, [p.key]: e.target.value })}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="w-14 text-slate-600">{p.unit}</span>
+              </label>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleUseDuffing} disabled={errors.length > 0} className={buttonClass}>
+              <Play size={14} />
+              Use Duffing Engine
+            </button>
+            <button onClick={handleUseFitted} disabled={errors.length > 0} className={buttonClass}>
+              <Check size={14} />
+              Use Fitted Curves
+            </button>
+            <button onClick={handleOverlay} disabled={errors.length > 0} className={buttonClass}>
+              <ScatterChart size={14} />
+              Overlay Branches
+            </button>
+            <button onClick={() => editDraft(toDraft(DEFAULT_DUFFING_PARAMS))} className={buttonClass}>
+              Defaults
+            </button>
+          </div>
+
+          {result && (
+            <div className="flex flex-col gap-3">
+              <div className="text-xs font-mono text-slate-300">
+                {result.bistable
+                  ? <>Thresholds from the dynamics: <span className="text-red-400">+{result.model.THRESHOLD_UP.toFixed(3)}V</span> up, <span className="text-blue-400">{result.model.THRESHOLD_DOWN.toFixed(3)}V</span> down</>
+                  : <span className="text-amber-400">No hysteresis within the voltage range; the Duffing engine needs a bistable parameter set.</span>}
+              </div>
+
+              {result.fit.warnings.length > 0 && (
+                <ul className="text-xs text-amber-400 list-disc pl-5">
+                  {result.fit.warnings.map(msg => <li key={msg}>{msg}</li>)}
+                </ul>
+              )}
+
+              {/* How well the phenomenological curves describe the dynamics */}
+              <table className="text-xs font-mono text-slate-300">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-normal">Fitted curve vs dynamics</th>
+                    <th className="text-right font-normal">N</th>
+                    <th className="text-right font-normal">RMSE</th>
+                    <th className="text-right font-normal">Max |r|</th>
+                    <th className="text-right font-normal">R²</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.fit.quality.map(q => (
+                    <tr key={`${q.observable}-${q.branch}`}>
+                      <td className={q.branch === 'upper' ? 'text-red-400' : 'text-blue-400'}>{q.observable} / {q.branch}</td>
+                      <td className="text-right">{q.count}</td>
+                      <td className="text-right">{q.rmse.toPrecision(3)} {UNITS[q.observable]}</td>
+                      <td className="text-right">{q.maxResidual.toPrecision(3)}</td>
+                      <td className="text-right">{q.rSquared.toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Timer, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { DeviceModel, DynamicsConfig } from '../types';
+import { ReadConfig } from '../services/readout';
+import { WRITE_PULSE_VOLTAGE, WRITE_PULSE_WIDTH } from '../services/memoryRegister';
+import { analyzeWriteTiming } from '../services/writeTiming';
+
+interface DynamicsPanelProps {
+  model: DeviceModel;
+  dynamics: DynamicsConfig;
+  readConfig: ReadConfig;
+  onDynamicsChange: (dynamics: DynamicsConfig) => void;
+}
+
+const DYNAMICS_FIELDS: { key: keyof Omit<DynamicsConfig, 'enabled'>; label: string; max: number; step: number }[] = [
+  { key: 'timeConstant', label: 'Time constant τ', max: 1, step: 0.005 },
+  { key: 'minDwell', label: 'Min. dwell', max: 0.5, step: 0.005 },
+];
+
+const formatTime = (s: number | null) => (s === null ? '—' : `${(s * 1000).toFixed(1)} ms`);
+
+const formatRate = (rate: number | null) => {
+  if (rate === null) return 'writes fail';
+  if (!Number.isFinite(rate)) return 'unlimited';
+  return `${rate.toFixed(2)} writes/s`;
+};
+
+export const DynamicsPanel: React.FC<DynamicsPanelProps> = ({ model, dynamics, readConfig, onDynamicsChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const timing = useMemo(
+    () => (open && dynamics.enabled ? analyzeWriteTiming(dynamics, model, readConfig) : null),
+    [open, dynamics, model, readConfig]
+  );
+  const pulseTooShort = timing !== null && (timing.minPulseWidth === null || timing.minPulseWidth > WRITE_PULSE_WIDTH);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Timer size={18} />
+          <span className="text-sm font-medium">Relaxation Dynamics</span>
+          <span className={`text-xs font-mono ${dynamics.enabled ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({dynamics.enabled ? `τ=${(dynamics.timeConstant * 1000).toFixed(0)}ms, dwell ${(dynamics.minDwell * 1000).toFixed(0)}ms` : 'off'})
+          </span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={dynamics.enabled}
+              onChange={(e) => onDynamicsChange({ ...dynamics, enabled: e.target.checked })}
+              className="accent-indigo-400"
+            />
+            Enable dynamic mode (readouts lag the branch curves, switching needs a dwell past threshold)
+          </label>
+
+          <div className="flex flex-wrap items-center gap-6 text-xs text-slate-400">
+            {DYNAMICS_FIELDS.map(f => (
+              <label key={f.key} className="flex items-center gap-2">
+                {f.label}
+                <input
+                  type="range"
+                  min="0"
+                  max={f.max}
+                  step={f.step}
+                  value={dynamics[f.key]}
+                  onChange={(e) => onDynamicsChange({ ...dynamics, [f.key]: parseFloat(e.target.value) })}
+                  className="w-32 accent-indigo-400"
+                />
+                <span className="font-mono text-slate-300 w-16">{formatTime(dynamics[f.key])}</span>
+              </label>
+            ))}
+          </div>
+
+          {timing ? (
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-2 text-xs">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 font-mono">
+                <div className="text-slate-400">Min. pulse: <span className="text-indigo-300">{formatTime(timing.minPulseWidth)}</span></div>
+                <div className="text-slate-400">Settle to read: <span className="text-indigo-300">{formatTime(timing.minSettleTime)}</span></div>
+                <div className="text-slate-400">Max. rate: <span className="text-indigo-300">{formatRate(timing.maxWriteRate)}</span></div>
+              </div>
+              <p className="text-slate-500">
+                Shortest ±{WRITE_PULSE_VOLTAGE}V pulse that writes both values from a settled bit, then the wait at 0V before a read at
+                {' '}{readConfig.voltage}V ({readConfig.observable}) returns the new value.
+              </p>
+              {pulseTooShort && (
+                <p className="flex items-center gap-2 text-amber-400">
+                  <AlertTriangle size={14} />
+                  Register writes use {formatTime(WRITE_PULSE_WIDTH)} pulses, too short for this dwell: writes will fail.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">
+              Without dynamics the model is rate-independent: any pulse writes and the readout settles instantly.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
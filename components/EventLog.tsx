@@ -0,0 +1,37 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { SwitchingEvent } from '../types';
+
+interface EventLogProps {
+  events: SwitchingEvent[]; // Oldest first
+  total: number;            // Events since the last reset (the list may be truncated)
+}
+
+export const EventLog: React.FC<EventLogProps> = ({ events, total }) => (
+  <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 flex flex-col gap-2">
+    <div className="flex items-center gap-2 text-slate-400">
+      <Zap size={18} />
+      <span className="text-sm font-medium">Switching Events</span>
+      <span className="text-xs font-mono text-slate-500">({total})</span>
+    </div>
+
+    {events.length === 0 ? (
+      <div className="text-xs text-slate-600">No branch switches yet.</div>
+    ) : (
+      <ul className="text-xs font-mono text-slate-400 flex flex-col gap-0.5 max-h-32 overflow-y-auto">
+        {[...events].reverse().map((e, i) => (
+          <li key={`${e.bit}-${e.time}-${i}`} className="flex gap-3">
+            <span className="w-20 text-right text-slate-500">t={e.time.toFixed(3)}s</span>
+            <span className="w-12">Bit #{e.bit}</span>
+            {/* Swapped Colors: Upper=Red, Lower=Blue */}
+            <span className={e.to === 'upper' ? 'text-red-400' : 'text-blue-400'}>
+              {e.toLevel === undefined ? `${e.from} → ${e.to}` : `level ${e.fromLevel} → ${e.toLevel}`}
+            </span>
+            <span className="text-slate-500">@ {e.voltage.toFixed(3)}V</span>
+            {e.relaxed && <span className="text-amber-400">relaxed</span>}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
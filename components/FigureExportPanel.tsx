@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { ImageDown, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { DEFAULT_FIGURE_OPTIONS, FigureOptions, HysteresisFigure, renderHysteresisSVG, validateFigureOptions } from '../services/figureExport';
+
+interface FigureExportPanelProps {
+  options: FigureOptions;
+  preview: HysteresisFigure; // Figure of the focused bit, shown with the current options
+  exportError: string | null; // Why the last chart export failed
+  onOptionsChange: (options: FigureOptions) => void;
+}
+
+const NUMBER_FIELDS: { key: 'width' | 'height' | 'fontSize' | 'pngScale'; label: string; unit: string; step: number }[] = [
+  { key: 'width', label: 'Width', unit: 'px', step: 10 },
+  { key: 'height', label: 'Height', unit: 'px', step: 10 },
+  { key: 'fontSize', label: 'Font size', unit: 'px', step: 1 },
+  { key: 'pngScale', label: 'PNG scale', unit: '×', step: 1 },
+];
+
+const TEXT_FIELDS: { key: 'fontFamily' | 'title' | 'xLabel' | 'yLabel'; label: string; placeholder: string }[] = [
+  { key: 'fontFamily', label: 'Font', placeholder: DEFAULT_FIGURE_OPTIONS.fontFamily },
+  { key: 'title', label: 'Title', placeholder: 'none' },
+  { key: 'xLabel', label: 'X label', placeholder: 'Bias voltage (V)' },
+  { key: 'yLabel', label: 'Y label', placeholder: 'observable with unit' },
+];
+
+const TOGGLES: { key: 'legend' | 'thresholds' | 'trail'; label: string }[] = [
+  { key: 'legend', label: 'Legend' },
+  { key: 'thresholds', label: 'Threshold annotations' },
+  { key: 'trail', label: 'Trajectory' },
+];
+
+export const FigureExportPanel: React.FC<FigureExportPanelProps> = ({ options, preview, exportError, onOptionsChange }) => {
+  const [open, setOpen] = useState(false);
+  const errors = validateFigureOptions(options);
+
+  const previewURL = useMemo(
+    () => (open && errors.length === 0 ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderHysteresisSVG(preview, options))}` : null),
+    [open, errors.length, preview, options]
+  );
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <ImageDown size={18} />
+          <span className="text-sm font-medium">Figure Export</span>
+          <span className="text-xs font-mono text-slate-500">
+            ({options.width}×{options.height}px, PNG ×{options.pngScale})
+          </span>
+          {exportError && <AlertTriangle size={14} className="text-amber-400" />}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {/* Shown collapsed too: the chart buttons that failed sit elsewhere */}
+      {exportError && <p className="px-4 pb-4 -mt-2 text-xs text-red-400">{exportError}</p>}
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-500">
+            Use the SVG / PNG buttons on each chart. Figures are drawn from the model and recorded trajectory, not
+            screenshotted, so <span className="font-mono">npm run figure</span> regenerates the same figure from a saved run.
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {NUMBER_FIELDS.map(f => (
+              <label key={f.key} className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-16">{f.label}</span>
+                <input
+                  type="number"
+                  step={f.step}
+                  value={Number.isFinite(options[f.key]) ? options[f.key] : ''}
+                  onChange={(e) => onOptionsChange({ ...options, [f.key]: parseFloat(e.target.value) })}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="text-slate-600">{f.unit}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {TEXT_FIELDS.map(f => (
+              <label key={f.key} className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-16">{f.label}</span>
+                <input
+                  type="text"
+                  value={options[f.key]}
+                  placeholder={f.placeholder}
+                  onChange={(e) => onOptionsChange({ ...options, [f.key]: e.target.value })}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 placeholder:text-slate-600"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-300">
+            {TOGGLES.map(t => (
+              <label key={t.key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options[t.key]}
+                  onChange={(e) => onOptionsChange({ ...options, [t.key]: e.target.checked })}
+                  className="accent-indigo-400"
+                />
+                {t.label}
+              </label>
+            ))}
+            <button
+              onClick={() => onOptionsChange(DEFAULT_FIGURE_OPTIONS)}
+              className="px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase"
+            >
+              Defaults
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+
+          {previewURL && (
+            <div className="bg-white rounded p-2 flex justify-center">
+              <img src={previewURL} alt="Figure preview" className="max-w-full h-auto" style={{ width: options.width }} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { FlaskConical, FileUp, ChevronDown, ChevronUp, Check, X } from 'lucide-react';
+import { CONSTANTS, DeviceModel, MeasuredPoint, Observable } from '../types';
+import { DEVICE_PARAMS } from '../services/deviceModel';
+import { FitResult, fitDeviceModel, parseMeasuredCSV } from '../services/modelFit';
+
+interface FitPanelProps {
+  model: DeviceModel;
+  measured: MeasuredPoint[];
+  onMeasuredChange: (points: MeasuredPoint[]) => void;
+  onModelChange: (model: DeviceModel) => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const UNITS: Record<Observable, string> = { amplitude: 'mV', frequency: 'kHz' };
+
+// Small residual-vs-voltage scatter for one observable
+const ResidualPlot: React.FC<{ result: FitResult; observable: Observable }> = ({ result, observable }) => {
+  const width = 300;
+  const height = 90;
+  const pad = 6;
+  const residuals = result.residuals.filter(r => r.observable === observable);
+  const limit = Math.max(1e-9, ...residuals.map(r => Math.abs(r.residual)));
+
+  const x = (v: number) => pad + ((v - CONSTANTS.VOLTAGE_MIN) / (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN)) * (width - 2 * pad);
+  const y = (r: number) => height / 2 - (r / limit) * (height / 2 - pad);
+
+  return (
+    <div className="bg-white rounded p-1">
+      <div className="text-[10px] font-bold text-slate-400 uppercase px-1">
+        {observable} residuals (±{limit.toPrecision(2)} {UNITS[observable]})
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        <line x1={pad} y1={height / 2} x2={width - pad} y2={height / 2} stroke="#cbd5e1" />
+        {residuals.map((r, i) => (
+          <circle key={i} cx={x(r.voltage)} cy={y(r.residual)} r="1.5" fill={r.branch === 'upper' ? '#ef4444' : '#3b82f6'} opacity="0.7" />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export const FitPanel: React.FC<FitPanelProps> = ({ model, measured, onMeasuredChange, onModelChange }) => {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<string[]>([]);
+  const [result, setResult] = useState<FitResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleLoad = async (file: File) => {
+    const { points, errors } = parseMeasuredCSV(await file.text());
+    setMessages(errors);
+    setResult(null);
+    if (points.length > 0) onMeasuredChange(points);
+  };
+
+  const handleFit = () => {
+    const fit = fitDeviceModel(measured, model);
+    setResult(fit);
+    setMessages(fit.warnings);
+    onMeasuredChange(fit.points);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onModelChange(result.model);
+  };
+
+  const handleClear = () => {
+    onMeasuredChange([]);
+    setResult(null);
+    setMessages([]);
+  };
+
+  const observables = (['amplitude', 'frequency'] as const).filter(o => measured.some(p => p[o] !== undefined));
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <FlaskConical size={18} />
+          <span className="text-sm font-medium">Measured Data &amp; Fit</span>
+          {measured.length > 0 && <span className="text-xs font-mono text-slate-500">({measured.length} points)</span>}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <FileUp size={14} />
+              Load CSV
+            </button>
+            <button onClick={handleFit} disabled={measured.length === 0} className={buttonClass}>
+              <FlaskConical size={14} />
+              Fit Model
+            </button>
+            <button onClick={handleApply} disabled={!result} className={buttonClass}>
+              <Check size={14} />
+              Apply Fit
+            </button>
+            <button onClick={handleClear} disabled={measured.length === 0} className={buttonClass}>
+              <X size={14} />
+              Clear
+            </button>
+            <span className="text-xs text-slate-500">
+              Columns: voltage, amplitude and/or frequency, optional branch (upper/lower).
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleLoad(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {messages.length > 0 && (
+            <ul className="text-xs text-amber-400 list-disc pl-5">
+              {messages.map(msg => <li key={msg}>{msg}</li>)}
+            </ul>
+          )}
+
+          {result && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Parameters: current vs fitted */}
+              <table className="text-xs font-mono text-slate-300">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-normal">Parameter</th>
+                    <th className="text-right font-normal">Current</th>
+                    <th className="text-right font-normal">Fitted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {DEVICE_PARAMS.map(p => (
+                    <tr key={p.key}>
+                      <td className="text-slate-500">{p.key}</td>
+                      <td className="text-right">{model[p.key].toFixed(4)}</td>
+                      <td className="text-right text-indigo-300">{result.model[p.key].toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex flex-col gap-3">
+                {/* Fit Quality */}
+                <table className="text-xs font-mono text-slate-300">
+                  <thead>
+                    <tr className="text-slate-500">
+                      <th className="text-left font-normal">Series</th>
+                      <th className="text-right font-normal">N</th>
+                      <th className="text-right font-normal">RMSE</th>
+                      <th className="text-right font-normal">Max |r|</th>
+                      <th className="text-right font-normal">R²</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.quality.map(q => (
+                      <tr key={`${q.observable}-${q.branch}`}>
+                        <td className={q.branch === 'upper' ? 'text-red-400' : 'text-blue-400'}>{q.observable} / {q.branch}</td>
+                        <td className="text-right">{q.count}</td>
+                        <td className="text-right">{q.rmse.toPrecision(3)} {UNITS[q.observable]}</td>
+                        <td className="text-right">{q.maxResidual.toPrecision(3)}</td>
+                        <td className="text-right">{q.rSquared.toFixed(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {observables.map(o => <ResidualPlot key={o} result={result} observable={o} />)}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
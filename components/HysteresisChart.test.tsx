@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { DEFAULT_DEVICE_MODEL, Observable } from '../types';
+import { calculateObservable, calculateObservableRange } from '../services/physicsEngine';
+import { HysteresisChart } from './HysteresisChart';
+
+const RED = '#ef4444';  // Upper branch, bit 1
+const BLUE = '#3b82f6'; // Lower branch, bit 0
+
+const renderChart = (branch: 'upper' | 'lower', observable: Observable = 'amplitude', extra: object = {}) =>
+  render(
+    <HysteresisChart
+      bitIndex={2}
+      currentVoltage={0.5}
+      currentValue={calculateObservable(0.5, branch, observable, DEFAULT_DEVICE_MODEL)}
+      currentBranch={branch}
+      currentDirection="increasing"
+      yDomain={calculateObservableRange(observable, DEFAULT_DEVICE_MODEL)}
+      model={DEFAULT_DEVICE_MODEL}
+      observable={observable}
+      {...extra}
+    />
+  );
+
+// The operating point and the highlighted branch curve
+const operatingPoint = (container: HTMLElement) => container.querySelector('circle[r="5"]')!;
+const activePath = (container: HTMLElement) => container.querySelector('path[stroke-width="3"]')!;
+
+afterEach(cleanup);
+
+describe('HysteresisChart', () => {
+  it('titles the chart with the bit and observable', () => {
+    renderChart('lower', 'frequency');
+    expect(screen.getByText('Bit #2 · Frequency')).toBeTruthy();
+    expect(screen.getByText('Frequency (kHz)')).toBeTruthy();
+  });
+
+  it('draws both branch curves and labels both thresholds', () => {
+    const { container } = renderChart('lower');
+    const ghosts = container.querySelectorAll('path[stroke="#e2e8f0"]');
+    expect(ghosts).toHaveLength(2);
+    ghosts.forEach(path => expect(path.getAttribute('d')).toMatch(/^M/));
+    expect(screen.getByText(`${DEFAULT_DEVICE_MODEL.THRESHOLD_UP.toFixed(2)}V`)).toBeTruthy();
+    expect(screen.getByText(`${DEFAULT_DEVICE_MODEL.THRESHOLD_DOWN.toFixed(2)}V`)).toBeTruthy();
+  });
+
+  it('colours a stored 1 (upper branch) red', () => {
+    const { container } = renderChart('upper');
+    expect(operatingPoint(container).getAttribute('fill')).toBe(RED);
+    expect(activePath(container).getAttribute('stroke')).toBe(RED);
+  });
+
+  it('colours a stored 0 (lower branch) blue', () => {
+    const { container } = renderChart('lower');
+    expect(operatingPoint(container).getAttribute('fill')).toBe(BLUE);
+    expect(activePath(container).getAttribute('stroke')).toBe(BLUE);
+  });
+
+  it('highlights the curve of the current branch', () => {
+    const upper = renderChart('upper');
+    const upperPath = activePath(upper.container).getAttribute('d');
+    const upperY = Number(operatingPoint(upper.container).getAttribute('cy'));
+    cleanup();
+    const lower = renderChart('lower');
+    const lowerPath = activePath(lower.container).getAttribute('d');
+    const lowerY = Number(operatingPoint(lower.container).getAttribute('cy'));
+
+    expect(upperPath).not.toBe(lowerPath);
+    // At positive voltages the upper amplitude branch sits higher (smaller SVG y)
+    expect(upperY).toBeLessThan(lowerY);
+  });
+
+  it('offers SVG and PNG export when asked', () => {
+    const onExport = vi.fn();
+    renderChart('upper', 'amplitude', { onExport });
+    fireEvent.click(screen.getByTitle('Export as PNG'));
+    expect(onExport).toHaveBeenCalledWith('png');
+  });
+});
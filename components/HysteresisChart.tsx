@@ -1,25 +1,77 @@
-
-import React, { useMemo } from 'react';
-import { CONSTANTS } from '../types';
-import { calculateAmplitude } from '../services/physicsEngine';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, MeasuredPoint, Observable, SimulationState } from '../types';
+import { calculateObservable } from '../services/physicsEngine';
+import { niceTicks, panDomain, tickDecimals, zoomDomain } from '../services/chartScale';
+import { FigureFormat } from '../services/figureExport';
+import { BranchRef, levelColor, levelCount, levelJumps } from '../services/multiLevel';
 
 interface HysteresisChartProps {
   bitIndex: number;
   currentVoltage: number;
   currentValue: number;
   currentBranch: 'upper' | 'lower';
+  currentLevel?: number; // Multi-level models; two-branch charts go by currentBranch
   currentDirection: 'increasing' | 'decreasing' | 'stationary';
-  yDomain: [number, number];
+  yDomain: [number, number]; // Unzoomed range; the chart zooms and pans within its own view
+  model?: DeviceModel;
+  observable?: Observable;
+  trail?: SimulationState[]; // Recent states, oldest first
+  measured?: MeasuredPoint[]; // Experimental data overlay
+  onVoltageChange?: (voltage: number) => void; // Dragging the operating point; omit to lock it
+  onExport?: (format: FigureFormat) => void;    // Publication export of this chart
 }
 
+// Trail is drawn as this many sub-paths with increasing opacity
+const TRAIL_CHUNKS = 12;
+
+// Samples per branch curve across the visible voltage range
+const CURVE_STEPS = 200;
+
+// Wheel delta to zoom factor (exp(deltaY * rate))
+const WHEEL_ZOOM_RATE = 0.0015;
+
+const FULL_VOLTAGE: [number, number] = [CONSTANTS.VOLTAGE_MIN, CONSTANTS.VOLTAGE_MAX];
+
+const OBSERVABLE_LABELS: Record<Observable, { title: string; axis: string; unit: string; decimals: number }> = {
+  amplitude: { title: 'Amplitude', axis: 'Amplitude (mV)', unit: 'mV', decimals: 2 },
+  frequency: { title: 'Frequency', axis: 'Frequency (kHz)', unit: 'kHz', decimals: 3 },
+};
+
+type View = { x: [number, number]; y: [number, number] };
+
 export const HysteresisChart: React.FC<HysteresisChartProps> = ({
   bitIndex,
   currentVoltage,
   currentValue,
   currentBranch,
+  currentLevel,
   currentDirection,
   yDomain,
+  model = DEFAULT_DEVICE_MODEL,
+  observable = 'amplitude' as Observable,
+  trail = [],
+  measured = [],
+  onVoltageChange,
+  onExport,
 }) => {
+  const labels = OBSERVABLE_LABELS[observable];
+  const valueAt = (v: number, branch: BranchRef) => calculateObservable(v, branch, observable, model);
+  const count = levelCount(model);
+  const level = Math.min(count - 1, currentLevel ?? (currentBranch === 'upper' ? count - 1 : 0));
+  const levels = Array.from({ length: count }, (_, k) => k);
+
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const clipId = useId();
+  const [view, setView] = useState<View | null>(null); // null = unzoomed
+  const [hover, setHover] = useState<number | null>(null); // Voltage under the pointer
+  const dragRef = useRef<{ mode: 'pan' | 'dot'; px: number; py: number } | null>(null);
+
+  // A new base range (axis settings, model) discards the zoom
+  useEffect(() => setView(null), [yDomain[0], yDomain[1]]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const xDomain = view?.x ?? FULL_VOLTAGE;
+  const yView = view?.y ?? yDomain;
+
   // Dimensions
   const width = 400;
   const height = 250; // Slightly shorter for grid
@@ -29,134 +81,299 @@ export const HysteresisChart: React.FC<HysteresisChartProps> = ({
   const innerHeight = height - padding.top - padding.bottom;
 
   // Scales
-  const xScale = (v: number) => {
-    const normalized = (v - CONSTANTS.VOLTAGE_MIN) / (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN);
-    return padding.left + normalized * innerWidth;
+  const xScale = (v: number) => padding.left + ((v - xDomain[0]) / (xDomain[1] - xDomain[0])) * innerWidth;
+  const yScale = (v: number) => height - padding.bottom - ((v - yView[0]) / (yView[1] - yView[0])) * innerHeight;
+
+  // Pointer position in viewBox units and in data units
+  const locate = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const px = ((clientX - rect.left) / rect.width) * width;
+    const py = ((clientY - rect.top) / rect.height) * height;
+    return {
+      px,
+      py,
+      voltage: xDomain[0] + ((px - padding.left) / innerWidth) * (xDomain[1] - xDomain[0]),
+      value: yView[0] + ((height - padding.bottom - py) / innerHeight) * (yView[1] - yView[0]),
+    };
   };
 
-  const yScale = (v: number) => {
-    const normalized = (v - yDomain[0]) / (yDomain[1] - yDomain[0]);
-    return height - padding.bottom - (normalized * innerHeight);
+  // The wheel listener is registered once (it must be non-passive to stop the
+  // page from scrolling), so it reads the current scales through a ref
+  const latest = useRef({ locate, xDomain, yView, yDomain });
+  latest.current = { locate, xDomain, yView, yDomain };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { locate: at, xDomain: x, yView: y, yDomain: baseY } = latest.current;
+      const { voltage, value } = at(e.clientX, e.clientY);
+      const factor = Math.exp(e.deltaY * WHEEL_ZOOM_RATE);
+      // Shift zooms the voltage axis only
+      setView({
+        x: zoomDomain(x, voltage, factor, FULL_VOLTAGE),
+        y: e.shiftKey ? y : zoomDomain(y, value, factor, baseY),
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent, mode: 'pan' | 'dot') => {
+    if (mode === 'dot' && !onVoltageChange) mode = 'pan';
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    const { px, py } = locate(e.clientX, e.clientY);
+    dragRef.current = { mode, px, py };
   };
 
-  // Pre-calculate static paths for the "Ghost" background curves
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = locate(e.clientX, e.clientY);
+    const drag = dragRef.current;
+    if (drag?.mode === 'dot' && onVoltageChange) {
+      const clamped = Math.min(CONSTANTS.VOLTAGE_MAX, Math.max(CONSTANTS.VOLTAGE_MIN, point.voltage));
+      onVoltageChange(Math.round(clamped * 100) / 100); // Slider resolution
+    } else if (drag?.mode === 'pan') {
+      const dx = -((point.px - drag.px) / innerWidth) * (xDomain[1] - xDomain[0]);
+      const dy = ((point.py - drag.py) / innerHeight) * (yView[1] - yView[0]);
+      setView({ x: panDomain(xDomain, dx), y: panDomain(yView, dy) });
+      dragRef.current = { ...drag, px: point.px, py: point.py };
+    }
+    const inside = point.px >= padding.left && point.px <= width - padding.right;
+    setHover(inside && point.voltage >= CONSTANTS.VOLTAGE_MIN && point.voltage <= CONSTANTS.VOLTAGE_MAX ? point.voltage : null);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Branch curves (one per level, lowest first) across the visible part of the voltage range
   const paths = useMemo(() => {
-    const steps = 100;
-    const stepSize = (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN) / steps;
-    
-    let pathUpper = "";
-    let pathLower = "";
-
-    for (let i = 0; i <= steps; i++) {
-      const v = CONSTANTS.VOLTAGE_MIN + i * stepSize;
-      // Always calculate Amplitude
-      const valUpper = calculateAmplitude(v, 'upper');
-      const valLower = calculateAmplitude(v, 'lower');
-      
-      const x = xScale(v);
-      const yUp = yScale(valUpper);
-      const yLow = yScale(valLower);
-
-      pathUpper += `${i === 0 ? 'M' : 'L'} ${x},${yUp} `;
-      pathLower += `${i === 0 ? 'M' : 'L'} ${x},${yLow} `;
+    const from = Math.max(CONSTANTS.VOLTAGE_MIN, xDomain[0]);
+    const to = Math.min(CONSTANTS.VOLTAGE_MAX, xDomain[1]);
+    if (to <= from) return levels.map(() => '');
+
+    return levels.map(k => {
+      let path = '';
+      for (let i = 0; i <= CURVE_STEPS; i++) {
+        const v = from + (i / CURVE_STEPS) * (to - from);
+        path += `${i === 0 ? 'M' : 'L'} ${xScale(v)},${yScale(valueAt(v, k))} `;
+      }
+      return path;
+    });
+  }, [xDomain[0], xDomain[1], yView[0], yView[1], model, observable]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Recorded trajectory split into chunks that fade with age.
+  // Consecutive samples are joined, so branch jumps show up as vertical strokes.
+  const trailChunks: { d: string; opacity: number }[] = [];
+  if (trail.length > 1) {
+    const chunkSize = Math.ceil((trail.length - 1) / TRAIL_CHUNKS);
+    for (let start = 0, k = 0; start < trail.length - 1; start += chunkSize, k++) {
+      const end = Math.min(trail.length - 1, start + chunkSize);
+      let d = '';
+      for (let i = start; i <= end; i++) {
+        const s = trail[i];
+        d += `${i === start ? 'M' : 'L'} ${xScale(s.voltage)},${yScale(s[observable])} `;
+      }
+      trailChunks.push({ d, opacity: 0.1 + 0.8 * ((k + 1) * chunkSize) / (trail.length - 1) });
     }
-    return { upper: pathUpper, lower: pathLower };
-  }, [yDomain]); // eslint-disable-line react-hooks/exhaustive-deps
+  }
+
+  const xTicks = niceTicks(xDomain[0], xDomain[1], 6);
+  const yTicks = niceTicks(yView[0], yView[1], 5);
+  const xDecimals = tickDecimals(xTicks);
+  const yDecimals = tickDecimals(yTicks);
+
+  // Jumps at the thresholds, labelled with their height
+  const jumps = levelJumps(model).map(j => ({ voltage: j.voltage, from: valueAt(j.voltage, j.from), to: valueAt(j.voltage, j.to) }));
 
   // Determine active color based on branch
-  // Swapped Colors: Upper Branch = Red, Lower Branch = Blue
-  const strokeColor = currentBranch === 'upper' ? '#ef4444' : '#3b82f6';
+  // Swapped Colors: Upper Branch = Red, Lower Branch = Blue (levels in between run through violet)
+  const strokeColor = levelColor(level, count);
+
+  const hoverValues = hover === null ? null : levels.map(k => valueAt(hover, k));
+  const readoutLeft = hover !== null && xScale(hover) > padding.left + innerWidth / 2;
 
   return (
     <div className="bg-white rounded-lg overflow-hidden">
        {/* Title overlay inside the component for cleaner grid */}
-       <div className="absolute top-2 left-4 z-10">
-         <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Bit #{bitIndex}</span>
+       <div className="absolute top-2 left-4 z-10 pointer-events-none">
+         <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Bit #{bitIndex} · {labels.title}</span>
        </div>
+       {onExport && (
+         <div className="absolute top-1 right-2 z-10 flex gap-1">
+           {(['svg', 'png'] as const).map(format => (
+             <button
+               key={format}
+               onClick={() => onExport(format)}
+               title={`Export as ${format.toUpperCase()}`}
+               className="px-1.5 py-0.5 rounded text-[10px] font-bold uppercase text-slate-400 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+             >
+               {format}
+             </button>
+           ))}
+         </div>
+       )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className={`w-full h-auto overflow-visible select-none touch-none ${view ? 'cursor-grab' : 'cursor-crosshair'}`}
+        onPointerDown={(e) => handlePointerDown(e, 'pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setHover(null)}
+        onDoubleClick={() => setView(null)}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={padding.left} y={padding.top} width={innerWidth} height={innerHeight} />
+          </clipPath>
+        </defs>
 
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto overflow-visible">
         {/* Grid Lines */}
-        <line x1={padding.left} y1={yScale(yDomain[0])} x2={width - padding.right} y2={yScale(yDomain[0])} stroke="#e2e8f0" />
-        <line x1={padding.left} y1={yScale(yDomain[1])} x2={width - padding.right} y2={yScale(yDomain[1])} stroke="#e2e8f0" />
-        <line x1={xScale(0)} y1={padding.top} x2={xScale(0)} y2={height - padding.bottom} stroke="#cbd5e1" strokeDasharray="4,4" />
+        {xTicks.map(t => (
+          <line key={`gx${t}`} x1={xScale(t)} y1={padding.top} x2={xScale(t)} y2={height - padding.bottom} stroke={t === 0 ? '#cbd5e1' : '#f1f5f9'} strokeDasharray={t === 0 ? '4,4' : undefined} />
+        ))}
+        {yTicks.map(t => (
+          <line key={`gy${t}`} x1={padding.left} y1={yScale(t)} x2={width - padding.right} y2={yScale(t)} stroke="#e2e8f0" />
+        ))}
 
         {/* Axes */}
         <line x1={padding.left} y1={height - padding.bottom} x2={width - padding.right} y2={height - padding.bottom} stroke="#475569" strokeWidth="2" />
         <line x1={padding.left} y1={padding.top} x2={padding.left} y2={height - padding.bottom} stroke="#475569" strokeWidth="2" />
 
-        {/* X Axis Labels */}
-        <text x={xScale(CONSTANTS.VOLTAGE_MIN)} y={height - 15} textAnchor="middle" fontSize="10" fill="#94a3b8">{CONSTANTS.VOLTAGE_MIN}</text>
-        <text x={xScale(0)} y={height - 15} textAnchor="middle" fontSize="10" fill="#94a3b8">0</text>
-        <text x={xScale(CONSTANTS.VOLTAGE_MAX)} y={height - 15} textAnchor="middle" fontSize="10" fill="#94a3b8">{CONSTANTS.VOLTAGE_MAX}</text>
-
-        {/* Y Axis Labels */}
-        <text x={padding.left - 10} y={yScale(yDomain[0])} textAnchor="end" fontSize="10" fill="#94a3b8">{yDomain[0]}</text>
-        <text x={padding.left - 10} y={yScale(yDomain[1])} textAnchor="end" fontSize="10" fill="#94a3b8">{yDomain[1]}</text>
+        {/* Tick Labels */}
+        {xTicks.map(t => (
+          <text key={`tx${t}`} x={xScale(t)} y={height - 15} textAnchor="middle" fontSize="10" fill="#94a3b8">{t.toFixed(xDecimals)}</text>
+        ))}
+        {yTicks.map(t => (
+          <text key={`ty${t}`} x={padding.left - 6} y={yScale(t) + 3} textAnchor="end" fontSize="10" fill="#94a3b8">{t.toFixed(yDecimals)}</text>
+        ))}
+        <text x={width - padding.right} y={height - 3} textAnchor="end" fontSize="10" fill="#94a3b8">V</text>
         
         {/* Y Label */}
         <text 
-          x={15} 
+          x={12} 
           y={height / 2} 
-          transform={`rotate(-90, 15, ${height / 2})`} 
+          transform={`rotate(-90, 12, ${height / 2})`} 
           textAnchor="middle" 
           fontSize="11" 
           fontWeight="bold" 
           fill="#64748b"
         >
-          Amplitude (mV)
+          {labels.axis}
         </text>
 
-        {/* Static Hysteresis Paths (Ghost) */}
-        <path d={paths.upper} fill="none" stroke="#e2e8f0" strokeWidth="2" />
-        <path d={paths.lower} fill="none" stroke="#e2e8f0" strokeWidth="2" />
-
-        {/* Active Path Highlight */}
-        <path 
-          d={currentBranch === 'upper' ? paths.upper : paths.lower} 
-          fill="none" 
-          stroke={strokeColor} 
-          strokeWidth="3"
-          className="transition-colors duration-300" 
-        />
-
-        {/* Jump Indicators (Thresholds) */}
-        <line 
-          x1={xScale(CONSTANTS.THRESHOLD_UP)} 
-          y1={yScale(calculateAmplitude(CONSTANTS.THRESHOLD_UP, 'lower'))}
-          x2={xScale(CONSTANTS.THRESHOLD_UP)} 
-          y2={yScale(calculateAmplitude(CONSTANTS.THRESHOLD_UP, 'upper'))}
-          stroke="#94a3b8" strokeWidth="1" strokeDasharray="3,3"
-        />
-        <line 
-          x1={xScale(CONSTANTS.THRESHOLD_DOWN)} 
-          y1={yScale(calculateAmplitude(CONSTANTS.THRESHOLD_DOWN, 'upper'))}
-          x2={xScale(CONSTANTS.THRESHOLD_DOWN)} 
-          y2={yScale(calculateAmplitude(CONSTANTS.THRESHOLD_DOWN, 'lower'))}
-          stroke="#94a3b8" strokeWidth="1" strokeDasharray="3,3"
-        />
-
-        {/* Current Value Dot */}
-        <circle 
-          cx={xScale(currentVoltage)} 
-          cy={yScale(currentValue)} 
-          r="5" 
-          fill={strokeColor} 
-          stroke="white" 
-          strokeWidth="2" 
-        />
-
-        {/* Direction Arrow */}
-        <g transform={`translate(${xScale(currentVoltage)}, ${yScale(currentValue) - 12})`}>
-             {currentDirection !== 'stationary' && (
-                <path 
-                    d="M -3 0 L 3 0 M 0 -3 L 3 0 L 0 3" 
-                    transform={currentDirection === 'decreasing' ? 'rotate(180)' : ''}
-                    stroke={strokeColor} 
-                    strokeWidth="2" 
-                    fill="none"
-                />
-             )}
+        <g clipPath={`url(#${clipId})`}>
+          {/* Static Hysteresis Paths (Ghost) */}
+          {[...paths].reverse().map((d, i) => (
+            <path key={i} d={d} fill="none" stroke="#e2e8f0" strokeWidth="2" />
+          ))}
+
+          {/* Active Path Highlight */}
+          <path 
+            d={paths[level]} 
+            fill="none" 
+            stroke={strokeColor} 
+            strokeWidth="3"
+            className="transition-colors duration-300" 
+          />
+
+          {/* Trajectory Trail */}
+          {trailChunks.map((chunk, i) => (
+            <path
+              key={i}
+              d={chunk.d}
+              fill="none"
+              stroke="#6366f1"
+              strokeWidth="1.5"
+              strokeLinejoin="round"
+              opacity={Math.min(0.9, chunk.opacity)}
+            />
+          ))}
+
+          {/* Measured Data Overlay (colored by branch once assigned) */}
+          {measured.map((p, i) => {
+            const value = p[observable];
+            if (value === undefined) return null;
+            const color = p.branch === 'upper' ? '#ef4444' : p.branch === 'lower' ? '#3b82f6' : '#64748b';
+            return (
+              <circle key={i} cx={xScale(p.voltage)} cy={yScale(value)} r="2" fill="none" stroke={color} strokeWidth="1" opacity="0.7" />
+            );
+          })}
+
+          {/* Jump Indicators (Thresholds) with their height */}
+          {jumps.map(j => (
+            <g key={j.voltage}>
+              <line x1={xScale(j.voltage)} y1={yScale(j.from)} x2={xScale(j.voltage)} y2={yScale(j.to)} stroke="#94a3b8" strokeWidth="1" strokeDasharray="3,3" />
+              <text x={xScale(j.voltage) + 4} y={(yScale(j.from) + yScale(j.to)) / 2 + 3} fontSize="9" fill="#64748b">
+                Δ{j.to - j.from >= 0 ? '+' : ''}{(j.to - j.from).toFixed(labels.decimals)} {labels.unit}
+              </text>
+            </g>
+          ))}
+
+          {/* Hover Crosshair: voltage and both branch values */}
+          {hover !== null && hoverValues && (
+            <g pointerEvents="none">
+              <line x1={xScale(hover)} y1={padding.top} x2={xScale(hover)} y2={height - padding.bottom} stroke="#94a3b8" strokeWidth="1" />
+              {hoverValues.map((value, k) => (
+                <circle key={k} cx={xScale(hover)} cy={yScale(value)} r="3" fill={levelColor(k, count)} />
+              ))}
+            </g>
+          )}
+
+          {/* Current Value Dot (drag to set the voltage) */}
+          <circle 
+            cx={xScale(currentVoltage)} 
+            cy={yScale(currentValue)} 
+            r="5" 
+            fill={strokeColor} 
+            stroke="white" 
+            strokeWidth="2" 
+            className={onVoltageChange ? 'cursor-ew-resize' : undefined}
+            onPointerDown={(e) => handlePointerDown(e, 'dot')}
+          />
+
+          {/* Direction Arrow */}
+          <g transform={`translate(${xScale(currentVoltage)}, ${yScale(currentValue) - 12})`}>
+               {currentDirection !== 'stationary' && (
+                  <path 
+                      d="M -3 0 L 3 0 M 0 -3 L 3 0 L 0 3" 
+                      transform={currentDirection === 'decreasing' ? 'rotate(180)' : ''}
+                      stroke={strokeColor} 
+                      strokeWidth="2" 
+                      fill="none"
+                  />
+               )}
+          </g>
         </g>
+
+        {/* Threshold Positions */}
+        {jumps.map(j => j.voltage >= xDomain[0] && j.voltage <= xDomain[1] && (
+          <text key={j.voltage} x={xScale(j.voltage)} y={height - padding.bottom + 12} textAnchor="middle" fontSize="9" fill="#6366f1">
+            {j.voltage.toFixed(2)}V
+          </text>
+        ))}
+
+        {/* Hover Readout */}
+        {hover !== null && hoverValues && (
+          <text
+            x={xScale(hover) + (readoutLeft ? -6 : 6)}
+            y={padding.top + 10}
+            textAnchor={readoutLeft ? 'end' : 'start'}
+            fontSize="9"
+            fontFamily="monospace"
+            fill="#334155"
+            pointerEvents="none"
+          >
+            <tspan>{hover.toFixed(3)}V</tspan>
+            {[...levels].reverse().map(k => (
+              <tspan key={k} fill={levelColor(k, count)}> {k}:{hoverValues[k].toFixed(labels.decimals)}</tspan>
+            ))}
+            <tspan> {labels.unit}</tspan>
+          </text>
+        )}
       </svg>
     </div>
   );
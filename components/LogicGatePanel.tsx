@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { Binary, ChevronDown, ChevronUp, Play, StepForward, RotateCcw, ListChecks } from 'lucide-react';
+import { DeviceModel, DynamicsConfig, LogicGate, NoiseConfig, SimulationState } from '../types';
+import { readBits } from '../services/memoryRegister';
+import { ReadConfig } from '../services/readout';
+import {
+  GateStep,
+  GateStepResult,
+  LOGIC_GATES,
+  TruthTableRow,
+  gateDefinition,
+  gateTruthTable,
+  stepMargin,
+  stepVoltage,
+  validateGate,
+  validateOperands,
+} from '../services/logicGates';
+
+interface LogicGatePanelProps {
+  model: DeviceModel;
+  noise: NoiseConfig;
+  dynamics: DynamicsConfig;
+  readConfig: ReadConfig; // How the gate senses its sources
+  bits: SimulationState[];
+  disabled: boolean;
+  onStep: (step: GateStep, operands: number[]) => GateStepResult;
+}
+
+// Pause between the steps of an animated gate
+const GATE_STEP_MS = 700;
+
+interface StepRecord {
+  voltage: number;
+  switched: boolean;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const bitClass = (value: 0 | 1) => (value === 1 ? 'text-red-400' : 'text-blue-400');
+
+export const LogicGatePanel: React.FC<LogicGatePanelProps> = ({ model, noise, dynamics, readConfig, bits, disabled, onStep }) => {
+  const [open, setOpen] = useState(false);
+  const [gate, setGate] = useState<LogicGate>('IMPLY');
+  const definition = gateDefinition(gate);
+  const [operands, setOperands] = useState<number[]>(() => definition.operands.map((_, i) => i));
+  const [records, setRecords] = useState<StepRecord[]>([]);
+  const [startValues, setStartValues] = useState<(0 | 1)[] | null>(null); // Operand values before the first step
+  const [playing, setPlaying] = useState(false);
+  const [table, setTable] = useState<TruthTableRow[] | null>(null);
+
+  const steps = definition.steps(model);
+  const stored = readBits(bits);
+  const values = operands.map(bit => stored[bit] ?? 0);
+  const errors = [...validateGate(definition, model), ...validateOperands(definition, operands, bits.length)];
+  const progress = records.length;
+  const done = progress === steps.length;
+  const margin = Math.min(...steps.map(step => stepMargin(step, model)));
+
+  // A new gate or register size starts over on the first bits
+  useEffect(() => {
+    setOperands(definition.operands.map((_, i) => i));
+    setRecords([]);
+    setStartValues(null);
+    setPlaying(false);
+  }, [gate, bits.length]);
+
+  useEffect(() => {
+    setTable(null);
+  }, [gate, model, noise, dynamics, readConfig]);
+
+  const runStep = (index: number, previous: StepRecord[]) => {
+    if (index === 0) setStartValues(values);
+    const { voltage, events } = onStep(steps[index], operands);
+    setRecords([...previous, { voltage, switched: events.some(e => e.bit === operands[steps[index].target]) }]);
+  };
+
+  // Animated run: one step per tick, each a pulse on the register
+  useEffect(() => {
+    if (!playing) return;
+    if (done || disabled || errors.length > 0) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => runStep(progress, records), GATE_STEP_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, progress, disabled]);
+
+  const restart = () => {
+    setRecords([]);
+    setStartValues(null);
+    setPlaying(false);
+  };
+
+  const handleRun = () => {
+    if (done) restart();
+    setPlaying(true);
+  };
+
+  const handleStep = () => {
+    setPlaying(false);
+    if (done) runStep(0, []);
+    else runStep(progress, records);
+  };
+
+  const setOperand = (index: number, bit: number) => {
+    setOperands(operands.map((b, i) => (i === index ? bit : b)));
+    restart();
+  };
+
+  const output = definition.operands.length - 1;
+  const expected = startValues ? definition.evaluate(startValues.slice(0, definition.inputs)) : null;
+  const failures = table?.filter(row => row.result !== row.expected || row.disturbed).length ?? 0;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Binary size={18} />
+          <span className="text-sm font-medium">In-Memory Logic</span>
+          <span className="text-xs font-mono text-slate-500">({definition.label})</span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-500">
+            The result is computed where it is stored. Source bits share the result bit's drive line, and each source
+            holding 1 shifts the pulse the result bit sees, so the pulse crosses the {model.THRESHOLD_UP}V threshold only
+            for some combinations of stored values. NAND is built from IMPLY alone; OR and majority use a single pulse
+            weighted by the sources. Before each pulse the controller reads the sources with the Read Operation settings
+            ({readConfig.observable} at {readConfig.voltage.toFixed(2)}V), so readout noise and read disturbs reach the
+            gate too.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <div className="flex rounded overflow-hidden border border-slate-700">
+              {LOGIC_GATES.map(g => (
+                <button
+                  key={g.gate}
+                  onClick={() => setGate(g.gate)}
+                  className={`px-3 py-1 text-xs font-bold transition-colors ${
+                    gate === g.gate ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {g.gate}
+                </button>
+              ))}
+            </div>
+
+            {/* Register bit of each operand, with what it holds now */}
+            {definition.operands.map((name, i) => (
+              <label key={name} className="flex items-center gap-1">
+                <span className={i === output ? 'text-indigo-300 font-bold' : ''}>{name}</span>
+                <select
+                  value={operands[i]}
+                  onChange={(e) => setOperand(i, parseInt(e.target.value, 10))}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-1 font-mono text-slate-300"
+                >
+                  {bits.map((_, bit) => <option key={bit} value={bit}>#{bit}</option>)}
+                </select>
+                <span className={`font-mono font-bold ${bitClass(values[i])}`}>{values[i]}</span>
+              </label>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+
+          {/* Steps: done ones show the pulse that was applied, the next one the pulse it would apply now */}
+          <ol className="text-xs font-mono flex flex-col gap-1">
+            {steps.map((step, k) => {
+              const record = records[k];
+              const next = k === progress;
+              return (
+                <li
+                  key={step.label}
+                  className={`flex items-center gap-3 px-2 py-1 rounded border ${
+                    next ? 'border-indigo-500/50 bg-indigo-500/10 text-indigo-200' : 'border-transparent text-slate-400'
+                  }`}
+                >
+                  <span className="w-4 text-slate-600">{k + 1}</span>
+                  <span className="flex-1">{step.label}</span>
+                  <span className="text-slate-500">
+                    {step.sources.length === 0
+                      ? `${step.bias.toFixed(2)}V`
+                      : `${step.bias.toFixed(2)}V ${step.weight < 0 ? '−' : '+'} ${Math.abs(step.weight).toFixed(3)}V × ${step.sources.map(i => definition.operands[i]).join('+')}`}
+                  </span>
+                  <span className="w-28 text-right">
+                    {record
+                      ? `${record.voltage.toFixed(2)}V, ${record.switched ? 'switched' : 'held'}`
+                      : next ? `→ ${stepVoltage(step, values).toFixed(2)}V` : ''}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleRun} disabled={disabled || playing || errors.length > 0} className={buttonClass}>
+              <Play size={14} />
+              Run
+            </button>
+            <button onClick={handleStep} disabled={disabled || playing || errors.length > 0} className={buttonClass}>
+              <StepForward size={14} />
+              Step
+            </button>
+            <button onClick={restart} disabled={progress === 0 && !playing} className={buttonClass}>
+              <RotateCcw size={14} />
+              Restart
+            </button>
+            {done && expected !== null && (
+              <span className={`text-xs font-mono ${values[output] === expected ? 'text-emerald-400' : 'text-red-400'}`}>
+                {definition.operands[output]} = {values[output]} (expected {expected})
+              </span>
+            )}
+            {disabled && <span className="text-xs text-slate-500">Stop the sweep to run gates on the register.</span>}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Smallest pulse margin: {margin.toFixed(3)}V from the deciding threshold. Drive noise comparable to this makes the
+            gate unreliable.
+          </p>
+
+          {/* Truth-table verification on a fresh register per row */}
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={() => setTable(gateTruthTable(definition, model, noise, dynamics, readConfig))}
+              disabled={validateGate(definition, model).length > 0}
+              className={`${buttonClass} self-start`}
+            >
+              <ListChecks size={14} />
+              Verify Truth Table
+            </button>
+            {table && (
+              <>
+                <table className="text-xs font-mono text-slate-400">
+                  <thead>
+                    <tr className="text-slate-500 text-left">
+                      {definition.operands.slice(0, definition.inputs).map(name => <th key={name} className="font-normal pr-3">{name}</th>)}
+                      <th className="font-normal pr-3">Expected {definition.operands[output]}</th>
+                      <th className="font-normal pr-3">Stored {definition.operands[output]}</th>
+                      <th className="font-normal pr-3">Pulses</th>
+                      <th className="font-normal"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.map(row => {
+                      const pass = row.result === row.expected && !row.disturbed;
+                      return (
+                        <tr key={row.inputs.join('')}>
+                          {row.inputs.map((v, i) => <td key={i} className={`pr-3 ${bitClass(v)}`}>{v}</td>)}
+                          <td className={`pr-3 ${bitClass(row.expected)}`}>{row.expected}</td>
+                          <td className={`pr-3 ${bitClass(row.result)}`}>{row.result}</td>
+                          <td className="pr-3 text-slate-500">{row.voltages.map(v => v.toFixed(2)).join(', ')}</td>
+                          <td className={pass ? 'text-emerald-400' : 'text-red-400'}>
+                            {pass ? 'pass' : row.disturbed ? 'input disturbed' : 'FAIL'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className={`text-xs ${failures > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                  {failures > 0 ? `${failures} of ${table.length} rows wrong` : `All ${table.length} rows correct`}
+                  {noise.enabled || dynamics.enabled ? ' with the current noise, dynamics and read settings.' : ' (deterministic model).'}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { Infinity as LoopIcon, ChevronDown, ChevronUp } from 'lucide-react';
+import { DeviceModel, DynamicsConfig, Observable, WaveformConfig } from '../types';
+import { DEFAULT_WAVEFORM } from '../services/waveforms';
+import { OBSERVABLE_UNITS } from '../services/readout';
+import { LOOP_SPEEDS, LOOP_WAVEFORM_KINDS, LoopAreaPoint, analyzeLoop, jumpHeights, loopAreaVsSpeed, traceLoop } from '../services/loopAnalysis';
+
+interface LoopAnalysisPanelProps {
+  model: DeviceModel;
+  waveform: WaveformConfig;
+  speed: number;
+  dynamics: DynamicsConfig;
+}
+
+// Loop area against drive frequency (log axis), current speed marked
+const AreaPlot: React.FC<{ points: LoopAreaPoint[]; current: LoopAreaPoint; unit: string }> = ({ points, current, unit }) => {
+  const width = 300;
+  const height = 110;
+  const pad = 8;
+  const all = [...points, current];
+  const fMin = Math.log10(Math.min(...all.map(p => p.frequency)));
+  const fMax = Math.log10(Math.max(...all.map(p => p.frequency)));
+  const aMax = Math.max(1e-9, ...all.map(p => p.area)) * 1.1;
+
+  const x = (f: number) => pad + (fMax > fMin ? (Math.log10(f) - fMin) / (fMax - fMin) : 0.5) * (width - 2 * pad);
+  const y = (a: number) => height - pad - (a / aMax) * (height - 2 * pad);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.frequency).toFixed(1)},${y(p.area).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-white rounded p-1">
+      <div className="text-[10px] font-bold text-slate-400 uppercase px-1">
+        Loop area vs drive frequency ({points[0].frequency.toPrecision(2)}–{points[points.length - 1].frequency.toPrecision(2)} Hz, log; max {aMax.toPrecision(3)} V·{unit})
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#cbd5e1" />
+        <path d={path} fill="none" stroke="#6366f1" strokeWidth="1.5" />
+        {points.map(p => <circle key={p.speed} cx={x(p.frequency)} cy={y(p.area)} r="2" fill="#6366f1" />)}
+        <circle cx={x(current.frequency)} cy={y(current.area)} r="3.5" fill="#f59e0b" />
+      </svg>
+    </div>
+  );
+};
+
+export const LoopAnalysisPanel: React.FC<LoopAnalysisPanelProps> = ({ model, waveform, speed, dynamics }) => {
+  const [open, setOpen] = useState(false);
+  const [observable, setObservable] = useState<Observable>('amplitude');
+
+  // Only periodic up-and-down sweeps trace a loop; anything else is analyzed as the default sine
+  const sweep = LOOP_WAVEFORM_KINDS.includes(waveform.kind) ? waveform : DEFAULT_WAVEFORM;
+  const unit = OBSERVABLE_UNITS[observable];
+
+  const results = useMemo(() => {
+    if (!open) return null;
+    const analysis = analyzeLoop(traceLoop(sweep, speed, model, dynamics), observable);
+    const current: LoopAreaPoint = { speed, frequency: speed / sweep.period, area: analysis.totalArea, lobes: analysis.lobes.length };
+    return { analysis, current, scan: loopAreaVsSpeed(sweep, observable, model, dynamics, LOOP_SPEEDS) };
+  }, [open, sweep, speed, model, dynamics, observable]);
+
+  const jumps = jumpHeights(model);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <LoopIcon size={18} />
+          <span className="text-sm font-medium">Pinched-Loop Analysis</span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && results && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <div className="flex rounded overflow-hidden border border-slate-700">
+              {(['amplitude', 'frequency'] as const).map(o => (
+                <button
+                  key={o}
+                  onClick={() => setObservable(o)}
+                  className={`px-2 py-1 text-xs font-bold transition-colors ${
+                    observable === o ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {o === 'amplitude' ? 'Amp' : 'Freq'}
+                </button>
+              ))}
+            </div>
+            <span>
+              Steady-state period of {sweep === waveform ? `the ${waveform.kind} drive` : 'the default sine (current drive is not a periodic sweep)'} at
+              {' '}{speed}x ({results.current.frequency.toPrecision(3)} Hz)
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-3 text-xs font-mono text-slate-300">
+              {results.analysis.lobes.length === 0 ? (
+                <p className="text-amber-400 font-sans">No loop: the sweep does not switch the bit both ways.</p>
+              ) : (
+                <>
+                  <div>
+                    {results.analysis.pinched
+                      ? results.analysis.pinchPoints.map(p => (
+                          <div key={p.voltage} className="text-emerald-400">
+                            Pinched at {p.voltage.toFixed(3)}V, {p.value.toFixed(3)} {unit}
+                          </div>
+                        ))
+                      : <div className="text-amber-400">Not pinched: the way out and the way back never cross.</div>}
+                    <div>Total area {results.analysis.totalArea.toFixed(4)} V·{unit}</div>
+                  </div>
+
+                  <table>
+                    <thead>
+                      <tr className="text-slate-500">
+                        <th className="text-left font-normal">Lobe</th>
+                        <th className="text-right font-normal">From</th>
+                        <th className="text-right font-normal">To</th>
+                        <th className="text-right font-normal">Area (V·{unit})</th>
+                        <th className="text-right font-normal">Sense</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.analysis.lobes.map((l, i) => (
+                        <tr key={l.from}>
+                          <td>#{i + 1}</td>
+                          <td className="text-right">{l.from.toFixed(3)}V</td>
+                          <td className="text-right">{l.to.toFixed(3)}V</td>
+                          <td className="text-right">{Math.abs(l.area).toFixed(4)}</td>
+                          <td className="text-right text-slate-500">{l.area > 0 ? 'CCW' : 'CW'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+
+              <table>
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-normal">Jump</th>
+                    <th className="text-right font-normal">At</th>
+                    <th className="text-right font-normal">Δ Amplitude</th>
+                    <th className="text-right font-normal">Δ Frequency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jumps.map(j => (
+                    <tr key={j.threshold} className={j.threshold === 'up' ? 'text-red-400' : 'text-blue-400'}>
+                      <td>{j.threshold === 'up' ? '0 → 1' : '1 → 0'}</td>
+                      <td className="text-right">{j.voltage.toFixed(3)}V</td>
+                      <td className="text-right">{j.amplitude >= 0 ? '+' : ''}{j.amplitude.toFixed(3)} mV</td>
+                      <td className="text-right">{j.frequency >= 0 ? '+' : ''}{j.frequency.toFixed(3)} kHz</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <AreaPlot points={results.scan} current={results.current} unit={unit} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
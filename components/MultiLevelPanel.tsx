@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, ChevronDown, ChevronUp, Check, Undo2 } from 'lucide-react';
+import { DeviceModel, LevelCurve, MultiLevelParams } from '../types';
+import { MAX_LEVELS, evenLevels, levelColor, multiLevelModel, validateMultiLevel } from '../services/multiLevel';
+
+interface MultiLevelPanelProps {
+  model: DeviceModel;
+  onModelChange: (model: DeviceModel) => void;
+}
+
+const CURVE_FIELDS: { key: keyof LevelCurve; label: string; step: number }[] = [
+  { key: 'FREQ_BASE', label: 'f base (kHz)', step: 0.01 },
+  { key: 'FREQ_SLOPE', label: 'f slope', step: 0.01 },
+  { key: 'AMP_QUAD', label: 'A quad', step: 0.1 },
+  { key: 'AMP_LIN', label: 'A lin', step: 0.1 },
+  { key: 'AMP_CONST', label: 'A const (mV)', step: 0.1 },
+];
+
+type Draft = { branches: Record<keyof LevelCurve, string>[]; up: string[]; down: string[] };
+
+const toDraft = (params: MultiLevelParams): Draft => ({
+  branches: params.BRANCHES.map(curve =>
+    Object.fromEntries(CURVE_FIELDS.map(f => [f.key, String(curve[f.key])])) as Record<keyof LevelCurve, string>),
+  up: params.THRESHOLDS_UP.map(String),
+  down: params.THRESHOLDS_DOWN.map(String),
+});
+
+const toNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+const fromDraft = (draft: Draft): MultiLevelParams => ({
+  BRANCHES: draft.branches.map((row): LevelCurve => ({
+    FREQ_BASE: toNumber(row.FREQ_BASE),
+    FREQ_SLOPE: toNumber(row.FREQ_SLOPE),
+    AMP_QUAD: toNumber(row.AMP_QUAD),
+    AMP_LIN: toNumber(row.AMP_LIN),
+    AMP_CONST: toNumber(row.AMP_CONST),
+  })),
+  THRESHOLDS_UP: draft.up.map(toNumber),
+  THRESHOLDS_DOWN: draft.down.map(toNumber),
+});
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const inputClass = 'w-full min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 font-mono text-slate-200';
+
+export const MultiLevelPanel: React.FC<MultiLevelPanelProps> = ({ model, onModelChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(model.levels ?? evenLevels(3)));
+
+  // A preset or restored session with levels replaces the form
+  useEffect(() => {
+    if (model.levels) setDraft(toDraft(model.levels));
+  }, [model.levels]);
+
+  const params = fromDraft(draft);
+  const errors = validateMultiLevel(params);
+  const active = model.levels !== undefined;
+  const count = draft.branches.length;
+
+  const setField = (level: number, key: keyof LevelCurve, value: string) =>
+    setDraft({ ...draft, branches: draft.branches.map((row, i) => (i === level ? { ...row, [key]: value } : row)) });
+
+  const setThreshold = (list: 'up' | 'down', k: number, value: string) =>
+    setDraft({ ...draft, [list]: draft[list].map((v, i) => (i === k ? value : v)) });
+
+  const handleUse = () => {
+    if (errors.length === 0) onModelChange(multiLevelModel(params, model));
+  };
+
+  // The two-branch fields already hold the outermost branches
+  const handleTwoBranches = () => {
+    const { levels: _, ...outer } = model;
+    onModelChange(outer);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Layers size={18} />
+          <span className="text-sm font-medium">Multi-Level Storage</span>
+          <span className={`text-xs font-mono ${active ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({active ? `${model.levels!.BRANCHES.length} levels per cell` : 'two branches'})
+          </span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-500">
+            Each cell stores one of N levels on its own branch curve. Rising past an up threshold climbs one level,
+            falling past a down threshold drops one. A write resets the cell with a negative pulse when it has to move
+            down, then climbs with a pulse that stops between the thresholds around the target level. Levels switch
+            exactly at their thresholds; noise and crosstalk apply to two-branch models only.
+          </p>
+
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Levels
+            <select
+              value={count}
+              onChange={(e) => setDraft(toDraft(evenLevels(parseInt(e.target.value, 10))))}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+            >
+              {Array.from({ length: MAX_LEVELS - 1 }, (_, i) => i + 2).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+            <span className="text-slate-600">(changing the count starts from evenly spread levels)</span>
+          </label>
+
+          {/* Branch curves, top level first like the chart */}
+          <table className="text-xs text-slate-400">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="text-left font-normal pr-2">Level</th>
+                {CURVE_FIELDS.map(f => <th key={f.key} className="text-left font-normal px-1">{f.label}</th>)}
+                <th className="text-left font-normal px-1">Up to next (V)</th>
+                <th className="text-left font-normal px-1">Down from next (V)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.branches.map((row, level) => (
+                <tr key={level}>
+                  <td className="pr-2 font-mono font-bold" style={{ color: levelColor(level, count) }}>{level}</td>
+                  {CURVE_FIELDS.map(f => (
+                    <td key={f.key} className="px-1 py-0.5">
+                      <input type="number" step={f.step} value={row[f.key]} onChange={(e) => setField(level, f.key, e.target.value)} className={inputClass} />
+                    </td>
+                  ))}
+                  {(['up', 'down'] as const).map(list => (
+                    <td key={list} className="px-1 py-0.5">
+                      {level < count - 1 && (
+                        <input type="number" step={0.05} value={draft[list][level]} onChange={(e) => setThreshold(list, level, e.target.value)} className={inputClass} />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              )).reverse()}
+            </tbody>
+          </table>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleUse} disabled={errors.length > 0} className={buttonClass}>
+              <Check size={14} />
+              Use Levels
+            </button>
+            <button onClick={handleTwoBranches} disabled={!active} className={buttonClass}>
+              <Undo2 size={14} />
+              Two Branches
+            </button>
+            <button onClick={() => setDraft(toDraft(evenLevels(count)))} className={buttonClass}>
+              Defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
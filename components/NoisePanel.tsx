@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Dices, ChevronDown, ChevronUp, Calculator } from 'lucide-react';
+import { DeviceModel, NoiseConfig } from '../types';
+import {
+  DEFAULT_ERROR_RATE_OPTIONS,
+  ErrorRateOptions,
+  ErrorRateResult,
+  estimateErrorRates,
+} from '../services/errorRates';
+
+interface NoisePanelProps {
+  model: DeviceModel;
+  noise: NoiseConfig;
+  onNoiseChange: (noise: NoiseConfig) => void;
+}
+
+const NOISE_FIELDS: { key: keyof Omit<NoiseConfig, 'enabled'>; label: string; unit: string; step: number }[] = [
+  { key: 'voltageNoise', label: 'Drive noise', unit: 'V rms', step: 0.005 },
+  { key: 'amplitudeNoise', label: 'Amp. readout', unit: 'mV rms', step: 0.05 },
+  { key: 'frequencyNoise', label: 'Freq. readout', unit: 'kHz rms', step: 0.001 },
+  { key: 'switchingWidth', label: 'Switch width', unit: 'V', step: 0.005 },
+  { key: 'attemptRate', label: 'Attempt rate', unit: '1/s', step: 5 },
+  { key: 'seed', label: 'Seed', unit: '', step: 1 },
+];
+
+const formatRate = (count: number, trials: number) =>
+  `${((count / trials) * 100).toFixed(2)}% (${count}/${trials})`;
+
+export const NoisePanel: React.FC<NoisePanelProps> = ({ model, noise, onNoiseChange }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ErrorRateOptions>(DEFAULT_ERROR_RATE_OPTIONS);
+  const [result, setResult] = useState<ErrorRateResult | null>(null);
+
+  const handleFieldChange = (key: keyof NoiseConfig, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    onNoiseChange({ ...noise, [key]: key === 'seed' ? Math.floor(parsed) : parsed });
+  };
+
+  const handleEstimate = () => {
+    setResult(estimateErrorRates(model, noise, options));
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Dices size={18} />
+          <span className="text-sm font-medium">Noise &amp; Stochastic Switching</span>
+          <span className={`text-xs font-mono ${noise.enabled ? 'text-indigo-300' : 'text-slate-500'}`}>
+            ({noise.enabled ? `on, seed ${noise.seed}` : 'off'})
+          </span>
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={noise.enabled}
+              onChange={(e) => onNoiseChange({ ...noise, enabled: e.target.checked })}
+              className="accent-indigo-400"
+            />
+            Enable stochastic mode (noisy drive &amp; readout, probabilistic switching near the thresholds)
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {NOISE_FIELDS.map(f => (
+              <label key={f.key} className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-24">{f.label}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step={f.step}
+                  value={noise[f.key]}
+                  onChange={(e) => handleFieldChange(f.key, e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="w-14 text-slate-600">{f.unit}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Monte Carlo Error Rates */}
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+              <span className="text-xs text-slate-500 uppercase tracking-widest font-bold">Error Rates</span>
+              <label className="flex items-center gap-1">
+                Trials
+                <input
+                  type="number"
+                  min="1"
+                  step="100"
+                  value={options.trials}
+                  onChange={(e) => setOptions({ ...options, trials: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                Hold
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={options.holdTime}
+                  onChange={(e) => setOptions({ ...options, holdTime: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                s
+              </label>
+              <label className="flex items-center gap-1">
+                Read at
+                <input
+                  type="number"
+                  step="0.1"
+                  value={options.readVoltage}
+                  onChange={(e) => setOptions({ ...options, readVoltage: parseFloat(e.target.value) || 0 })}
+                  className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                V
+              </label>
+              <button
+                onClick={handleEstimate}
+                className="flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase"
+              >
+                <Calculator size={14} />
+                Estimate
+              </button>
+            </div>
+
+            {result && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs font-mono">
+                <div className="text-slate-400">Write: <span className="text-indigo-300">{formatRate(result.writeErrors, result.trials)}</span></div>
+                <div className="text-slate-400">Disturb: <span className="text-indigo-300">{formatRate(result.disturbErrors, result.trials)}</span></div>
+                <div className="text-slate-400">Read: <span className="text-indigo-300">{formatRate(result.readErrors, result.trials)}</span></div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
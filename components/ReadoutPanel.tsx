@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { ScanLine, ChevronDown, ChevronUp, AlertTriangle, BookOpen } from 'lucide-react';
+import { CONSTANTS, DeviceModel, NoiseConfig, Observable } from '../types';
+import {
+  OBSERVABLE_UNITS,
+  ReadConfig,
+  ReadResult,
+  analyzeRead,
+  findBestReadBias,
+  marginCurve,
+  readMargin,
+} from '../services/readout';
+
+export interface ReadRecord {
+  stored: number[];      // Levels before the read (0/1 for two-branch cells)
+  results: ReadResult[];
+}
+
+interface ReadoutPanelProps {
+  model: DeviceModel;
+  noise: NoiseConfig;
+  config: ReadConfig;
+  lastRead: ReadRecord | null;
+  disabled: boolean;
+  onConfigChange: (config: ReadConfig) => void;
+  onRead: () => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const formatProbability = (p: number) => (p === 0 ? '0' : p < 1e-3 ? p.toExponential(1) : `${(p * 100).toFixed(2)}%`);
+
+// Branch separation vs voltage, with the disturbing regions shaded
+const MarginPlot: React.FC<{ model: DeviceModel; observable: Observable; readVoltage: number; bestVoltage: number | null }> = ({
+  model,
+  observable,
+  readVoltage,
+  bestVoltage,
+}) => {
+  const width = 300;
+  const height = 110;
+  const pad = 6;
+  const curve = useMemo(() => marginCurve(observable, model), [observable, model]);
+  const limit = Math.max(1e-9, ...curve.map(c => Math.abs(c.margin)));
+
+  const x = (v: number) => pad + ((v - CONSTANTS.VOLTAGE_MIN) / (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN)) * (width - 2 * pad);
+  const y = (m: number) => height / 2 - (m / limit) * (height / 2 - pad);
+  const path = curve.map((c, i) => `${i === 0 ? 'M' : 'L'}${x(c.voltage).toFixed(1)},${y(c.margin).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-white rounded p-1">
+      <div className="text-[10px] font-bold text-slate-400 uppercase px-1">
+        {observable} margin, upper − lower (±{limit.toPrecision(2)} {OBSERVABLE_UNITS[observable]})
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        {/* Reads here overwrite the stored bit */}
+        <rect x={pad} y={0} width={Math.max(0, x(model.THRESHOLD_DOWN) - pad)} height={height} fill="#fee2e2" />
+        <rect x={x(model.THRESHOLD_UP)} y={0} width={Math.max(0, width - pad - x(model.THRESHOLD_UP))} height={height} fill="#fee2e2" />
+        <line x1={pad} y1={height / 2} x2={width - pad} y2={height / 2} stroke="#cbd5e1" />
+        <line x1={x(0)} y1={pad} x2={x(0)} y2={height - pad} stroke="#e2e8f0" strokeDasharray="2 2" />
+        <path d={path} fill="none" stroke="#6366f1" strokeWidth="1.5" />
+        {bestVoltage !== null && (
+          <circle cx={x(bestVoltage)} cy={y(readMargin(bestVoltage, observable, model))} r="3" fill="#10b981" />
+        )}
+        <line x1={x(readVoltage)} y1={pad} x2={x(readVoltage)} y2={height - pad} stroke="#f59e0b" strokeWidth="1.5" />
+      </svg>
+    </div>
+  );
+};
+
+export const ReadoutPanel: React.FC<ReadoutPanelProps> = ({
+  model,
+  noise,
+  config,
+  lastRead,
+  disabled,
+  onConfigChange,
+  onRead,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const analysis = analyzeRead(config, model, noise);
+  const best = useMemo(() => findBestReadBias(config.observable, model, noise), [config.observable, model, noise]);
+  const unit = OBSERVABLE_UNITS[config.observable];
+  const misreads = lastRead ? lastRead.results.filter((r, i) => r.value !== lastRead.stored[i]).length : 0;
+  const disturbed = lastRead ? lastRead.results.filter(r => r.disturbed).length : 0;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <ScanLine size={18} />
+          <span className="text-sm font-medium">Read Operation</span>
+          <span className="text-xs font-mono text-slate-500">
+            ({config.observable} @ {config.voltage.toFixed(2)}V)
+          </span>
+          {analysis.warnings.length > 0 && <AlertTriangle size={14} className="text-amber-400" />}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <div className="flex rounded overflow-hidden border border-slate-700">
+              {(['frequency', 'amplitude'] as Observable[]).map(o => (
+                <button
+                  key={o}
+                  onClick={() => onConfigChange({ ...config, observable: o, threshold: null })}
+                  className={`px-2 py-1 text-xs font-bold uppercase transition-colors ${
+                    config.observable === o ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {o === 'frequency' ? 'Freq' : 'Amp'}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2">
+              Bias
+              <input
+                type="range"
+                min={CONSTANTS.VOLTAGE_MIN}
+                max={CONSTANTS.VOLTAGE_MAX}
+                step="0.01"
+                value={config.voltage}
+                onChange={(e) => onConfigChange({ ...config, voltage: parseFloat(e.target.value) })}
+                className="w-32 accent-amber-400"
+              />
+              <span className="font-mono text-slate-300 w-12">{config.voltage.toFixed(2)}V</span>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={config.threshold === null}
+                onChange={(e) => onConfigChange({ ...config, threshold: e.target.checked ? null : analysis.level })}
+                className="accent-indigo-400"
+              />
+              Auto level
+            </label>
+            <label className="flex items-center gap-1">
+              Level
+              <input
+                type="number"
+                step={config.observable === 'frequency' ? 0.001 : 0.1}
+                value={Number(analysis.level.toFixed(4))}
+                disabled={config.threshold === null}
+                onChange={(e) => {
+                  const level = parseFloat(e.target.value);
+                  if (Number.isFinite(level)) onConfigChange({ ...config, threshold: level });
+                }}
+                className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200 disabled:opacity-50"
+              />
+              {unit}
+            </label>
+            <button onClick={onRead} disabled={disabled} className={buttonClass}>
+              <BookOpen size={14} />
+              Read Register
+            </button>
+          </div>
+
+          {model.levels && (
+            <p className="text-xs text-indigo-300">
+              Multi-level cells read as the level whose curve lies closest to the sample; the decision level is not
+              used. The figures below compare the outermost levels (0 and {model.levels.BRANCHES.length - 1}).
+            </p>
+          )}
+
+          {/* Read Quality */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs font-mono text-slate-400">
+            <div>Upper: <span className="text-red-400">{analysis.upper.toFixed(3)}</span></div>
+            <div>Lower: <span className="text-blue-400">{analysis.lower.toFixed(3)}</span></div>
+            <div>Margin: <span className="text-indigo-300">{analysis.margin.toFixed(3)} {unit}</span></div>
+            <div>Level: <span className="text-slate-200">{analysis.level.toFixed(3)}</span></div>
+            <div>Noise σ: <span className="text-slate-200">{analysis.sigma > 0 ? `${analysis.sigma} ${unit}` : 'off'}</span></div>
+            <div>Misread: <span className="text-indigo-300">{formatProbability(analysis.errorProbability)}</span></div>
+            <div>Disturb: <span className="text-indigo-300">{formatProbability(analysis.disturbProbability)}</span></div>
+          </div>
+
+          {analysis.warnings.length > 0 && (
+            <ul className="text-xs text-amber-300 flex flex-col gap-1">
+              {analysis.warnings.map(w => (
+                <li key={w} className="flex items-start gap-2">
+                  <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                  {w}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <MarginPlot model={model} observable={config.observable} readVoltage={config.voltage} bestVoltage={best?.voltage ?? null} />
+
+          {/* Best Bias */}
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 flex flex-col gap-2 text-xs text-slate-400">
+            {best ? (
+              <>
+                <div className="flex items-center gap-3">
+                  <span className="text-emerald-400 font-bold">Best bias: {best.voltage.toFixed(2)}V</span>
+                  <span className="font-mono">({Math.abs(best.margin).toFixed(3)} {unit} apart)</span>
+                  <button onClick={() => onConfigChange({ ...config, voltage: Number(best.voltage.toFixed(2)) })} className={buttonClass}>
+                    Use
+                  </button>
+                </div>
+                <p>{best.explanation}</p>
+              </>
+            ) : (
+              <p>No read bias keeps clear of both thresholds for this device.</p>
+            )}
+          </div>
+
+          {lastRead && (
+            <div className="flex flex-col gap-1 text-xs font-mono text-slate-400">
+              <div>
+                Last read: {lastRead.results.map(r => r.value).join('')}
+                <span className={misreads > 0 ? 'text-red-400' : 'text-emerald-400'}> · {misreads} misread</span>
+                <span className={disturbed > 0 ? 'text-red-400' : 'text-slate-500'}> · {disturbed} disturbed</span>
+              </div>
+              <div className="flex flex-wrap gap-x-4">
+                {lastRead.results.map((r, i) => (
+                  <span key={i} className={r.value !== lastRead.stored[i] || r.disturbed ? 'text-red-400' : ''}>
+                    #{i}: {r.measured.toFixed(3)} → {r.value}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
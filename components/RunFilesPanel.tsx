@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { FileDown, FileUp, Square, ChevronDown, ChevronUp, HardDrive } from 'lucide-react';
+import { DeviceModel, SimulationRun } from '../types';
+import {
+  DEFAULT_VOLTAGE_GRID,
+  VoltageGrid,
+  curvesToCSV,
+  curvesToJSON,
+  downloadText,
+  parseRunCSV,
+  parseRunJSON,
+  validateVoltageGrid,
+} from '../services/runFiles';
+
+export type ExportFormat = 'csv' | 'json';
+
+interface RunFilesPanelProps {
+  model: DeviceModel;
+  replay: { time: number; duration: number } | null;
+  onExportRun: (format: ExportFormat) => void;
+  onImportRun: (run: SimulationRun) => void;
+  onStopReplay: () => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+export const RunFilesPanel: React.FC<RunFilesPanelProps> = ({
+  model,
+  replay,
+  onExportRun,
+  onImportRun,
+  onStopReplay,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [grid, setGrid] = useState<VoltageGrid>(DEFAULT_VOLTAGE_GRID);
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const gridErrors = validateVoltageGrid(grid);
+
+  const handleExportCurves = (format: ExportFormat) => {
+    if (gridErrors.length > 0) return;
+    if (format === 'csv') downloadText('branch-curves.csv', curvesToCSV(grid, model), 'text/csv');
+    else downloadText('branch-curves.json', curvesToJSON(grid, model), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      setMessages([`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`]);
+      return;
+    }
+    const { run, errors } = file.name.toLowerCase().endsWith('.csv') ? parseRunCSV(text) : parseRunJSON(text);
+    setMessages(errors);
+    if (run) onImportRun(run);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <HardDrive size={18} />
+          <span className="text-sm font-medium">Data Export / Import</span>
+          {replay && (
+            <span className="text-xs font-mono text-indigo-300">
+              (replaying {replay.time.toFixed(1)}s / {replay.duration.toFixed(1)}s)
+            </span>
+          )}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          {/* Recorded Run */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-500 uppercase tracking-widest font-bold w-28">Recorded Run</span>
+            <button onClick={() => onExportRun('csv')} className={buttonClass}>
+              <FileDown size={14} />
+              CSV
+            </button>
+            <button onClick={() => onExportRun('json')} className={buttonClass}>
+              <FileDown size={14} />
+              JSON
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <FileUp size={14} />
+              Import &amp; Replay
+            </button>
+            {replay && (
+              <button onClick={onStopReplay} className={buttonClass}>
+                <Square size={12} fill="currentColor" />
+                Stop Replay
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {/* Static Branch Curves */}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <span className="text-xs text-slate-500 uppercase tracking-widest font-bold w-28">Branch Curves</span>
+            {(['min', 'max', 'step'] as const).map(key => (
+              <label key={key} className="flex items-center gap-1">
+                <span className="capitalize">{key}</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={grid[key]}
+                  onChange={(e) => setGrid({ ...grid, [key]: parseFloat(e.target.value) })}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="text-slate-600">V</span>
+              </label>
+            ))}
+            <button onClick={() => handleExportCurves('csv')} disabled={gridErrors.length > 0} className={buttonClass}>
+              <FileDown size={14} />
+              CSV
+            </button>
+            <button onClick={() => handleExportCurves('json')} disabled={gridErrors.length > 0} className={buttonClass}>
+              <FileDown size={14} />
+              JSON
+            </button>
+          </div>
+
+          {[...gridErrors, ...messages].length > 0 && (
+            <ul className="text-xs text-amber-400 list-disc pl-5">
+              {[...gridErrors, ...messages].map(msg => <li key={msg}>{msg}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, ChevronDown, ChevronUp, Play, Square, Download } from 'lucide-react';
+import { DeviceModel, DynamicsConfig, HalfSelectScheme, NoiseConfig, Observable } from '../types';
+import { OBSERVABLE_UNITS } from '../services/readout';
+import { HALF_SELECT_SCHEMES } from '../services/crosstalk';
+import { downloadText } from '../services/runFiles';
+import {
+  DEFAULT_SHMOO_CONFIG,
+  MAX_SHMOO_STEPS,
+  SHMOO_AXES,
+  ShmooAxis,
+  ShmooConfig,
+  ShmooMessage,
+  ShmooMetric,
+  ShmooPoint,
+  ShmooRequest,
+  ShmooResult,
+  ShmooStart,
+  safestPoint,
+  shmooToCSV,
+  validateShmoo,
+  windowFraction,
+} from '../services/shmoo';
+
+interface ShmooPanelProps {
+  model: DeviceModel;
+  noise: NoiseConfig;
+  dynamics: DynamicsConfig;
+}
+
+const METRICS: { metric: ShmooMetric; label: string }[] = [
+  { metric: 'window', label: 'Window' },
+  { metric: 'write', label: 'Write' },
+  { metric: 'disturb', label: 'Disturb' },
+  { metric: 'margin', label: 'Margin' },
+];
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50';
+
+const inputClass = 'w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200';
+
+const axisInfo = (axis: ShmooAxis) => SHMOO_AXES.find(a => a.axis === axis)!;
+
+const formatValue = (axis: ShmooAxis, v: number) => (axis === 'width' ? `${(v * 1000).toFixed(0)}ms` : `${v.toFixed(2)}V`);
+
+// Red (0) to green (1)
+const scaleColor = (t: number) => `hsl(${(Math.max(0, Math.min(1, t)) * 120).toFixed(0)}, 70%, 45%)`;
+
+const cellColor = (point: ShmooPoint, metric: ShmooMetric, marginScale: number): string => {
+  switch (metric) {
+    case 'write':
+      return scaleColor(point.writeSuccess);
+    case 'disturb':
+      return scaleColor(1 - point.disturbRate);
+    case 'margin':
+      return scaleColor(0.5 + point.readMargin / (2 * marginScale));
+    default:
+      return point.pass ? '#10b981' : '#334155';
+  }
+};
+
+// Heat map of one metric over the grid, y increasing upwards
+const ShmooMap: React.FC<{ result: ShmooResult; metric: ShmooMetric; safest: ShmooPoint | null }> = ({ result, metric, safest }) => {
+  const { config, xValues, yValues, rows } = result;
+  const width = 300;
+  const height = 200;
+  const left = 44;
+  const bottom = 18;
+  const cellW = (width - left) / xValues.length;
+  const cellH = (height - bottom) / yValues.length;
+  const marginScale = Math.max(1e-9, ...rows.flat().map(p => Math.abs(p.readMargin)));
+  const ticks = (n: number) => [0, Math.floor((n - 1) / 2), n - 1];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto bg-white rounded">
+      {rows.map((row, j) =>
+        row.map((point, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={left + i * cellW}
+            y={height - bottom - (j + 1) * cellH}
+            width={cellW + 0.3}
+            height={cellH + 0.3}
+            fill={cellColor(point, metric, marginScale)}
+          >
+            <title>
+              {`${formatValue(config.x, xValues[i])}, ${formatValue(config.y, yValues[j])}: write ${(point.writeSuccess * 100).toFixed(0)}%, disturb ${(point.disturbRate * 100).toFixed(0)}%, margin ${point.readMargin.toFixed(3)}`}
+            </title>
+          </rect>
+        ))
+      )}
+      {safest && (
+        <circle
+          cx={left + (xValues.indexOf(safest[config.x]) + 0.5) * cellW}
+          cy={height - bottom - (yValues.indexOf(safest[config.y]) + 0.5) * cellH}
+          r={Math.min(cellW, cellH) / 3}
+          fill="none"
+          stroke="#f8fafc"
+          strokeWidth="1.5"
+        />
+      )}
+      {ticks(xValues.length).map(i => (
+        <text key={`x${i}`} x={left + (i + 0.5) * cellW} y={height - 5} fontSize="8" textAnchor="middle" fill="#64748b">
+          {formatValue(config.x, xValues[i])}
+        </text>
+      ))}
+      {ticks(yValues.length).map(j => (
+        <text key={`y${j}`} x={left - 3} y={height - bottom - (j + 0.5) * cellH + 3} fontSize="8" textAnchor="end" fill="#64748b">
+          {formatValue(config.y, yValues[j])}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+export const ShmooPanel: React.FC<ShmooPanelProps> = ({ model, noise, dynamics }) => {
+  const [open, setOpen] = useState(false);
+  const [config, setConfig] = useState<ShmooConfig>(DEFAULT_SHMOO_CONFIG);
+  const [metric, setMetric] = useState<ShmooMetric>('window');
+  const [result, setResult] = useState<ShmooResult | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const errors = validateShmoo(config, model);
+  const running = progress !== null;
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // A sweep describes the settings it ran with; drop it when they change
+  useEffect(() => {
+    stop();
+    setResult(null);
+    setRunError(null);
+  }, [model, noise, dynamics]);
+
+  useEffect(() => stop, []);
+
+  const handleRun = () => {
+    stop();
+    setRunError(null);
+    const worker = new Worker(new URL('../services/shmoo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ShmooMessage>) => {
+      if (e.data.type === 'progress') {
+        setProgress({ done: e.data.done, total: e.data.total });
+        return;
+      }
+      setResult(e.data.result);
+      stop();
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      setRunError(`Sweep failed: ${e.message || 'the worker stopped unexpectedly'}`);
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress({ done: 0, total: config.sweeps[config.y].steps });
+    const request: ShmooRequest = { config, model, noise, dynamics };
+    worker.postMessage(request);
+  };
+
+  const setSweep = (axis: ShmooAxis, key: 'min' | 'max' | 'steps', value: string) => {
+    const parsed = key === 'steps' ? parseInt(value, 10) : parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    setConfig({ ...config, sweeps: { ...config.sweeps, [axis]: { ...config.sweeps[axis], [key]: parsed } } });
+  };
+
+  const setFixed = (axis: ShmooAxis, value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) setConfig({ ...config, fixed: { ...config.fixed, [axis]: parsed } });
+  };
+
+  const setAxis = (which: 'x' | 'y', axis: ShmooAxis) => {
+    const other = which === 'x' ? 'y' : 'x';
+    // Picking the other axis's quantity swaps the two
+    setConfig({ ...config, [which]: axis, ...(config[other] === axis ? { [other]: config[which] } : {}) });
+  };
+
+  const safest = result ? safestPoint(result) : null;
+  const unit = OBSERVABLE_UNITS[config.observable];
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-slate-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Grid3x3 size={18} />
+          <span className="text-sm font-medium">Write Window (Shmoo Plot)</span>
+          {result && (
+            <span className="text-xs font-mono text-slate-500">({(windowFraction(result) * 100).toFixed(0)}% of grid passes)</span>
+          )}
+        </span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 flex flex-col gap-4">
+          <p className="text-xs text-slate-500">
+            Sweeps write pulses over a grid. At each point a pulse writes the bit (positive amplitudes write 1, negative
+            ones 0) and a half-selected neighbour holding the other value sees the scheme's fraction of it; then the bit
+            is read back. A point passes if every write lands, nothing is disturbed and the read margin clears
+            {noise.enabled ? ' 3σ of the readout noise' : ' zero'}. The sweep runs in the background with the current
+            noise and dynamics settings.
+          </p>
+
+          {/* Axes: two swept quantities, the third held fixed */}
+          <div className="flex flex-col gap-2 text-xs text-slate-400">
+            {SHMOO_AXES.map(({ axis, label, unit: axisUnit }) => {
+              const role = config.x === axis ? 'x' : config.y === axis ? 'y' : null;
+              const sweep = config.sweeps[axis];
+              return (
+                <div key={axis} className="flex flex-wrap items-center gap-2">
+                  <span className="w-28">{label}</span>
+                  <div className="flex rounded overflow-hidden border border-slate-700">
+                    {(['x', 'y'] as const).map(which => (
+                      <button
+                        key={which}
+                        onClick={() => setAxis(which, axis)}
+                        className={`px-2 py-1 text-xs font-bold uppercase transition-colors ${
+                          role === which ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                        }`}
+                      >
+                        {which}
+                      </button>
+                    ))}
+                  </div>
+                  {role ? (
+                    <>
+                      <input type="number" step="0.05" value={sweep.min} onChange={(e) => setSweep(axis, 'min', e.target.value)} className={inputClass} />
+                      to
+                      <input type="number" step="0.05" value={sweep.max} onChange={(e) => setSweep(axis, 'max', e.target.value)} className={inputClass} />
+                      {axisUnit},
+                      <input
+                        type="number"
+                        min="2"
+                        max={MAX_SHMOO_STEPS}
+                        value={sweep.steps}
+                        onChange={(e) => setSweep(axis, 'steps', e.target.value)}
+                        className={inputClass}
+                      />
+                      steps
+                    </>
+                  ) : (
+                    <>
+                      fixed at
+                      <input type="number" step="0.05" value={config.fixed[axis]} onChange={(e) => setFixed(axis, e.target.value)} className={inputClass} />
+                      {axisUnit}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-1">
+              Start from
+              <select
+                value={String(config.start)}
+                onChange={(e) => setConfig({ ...config, start: (e.target.value === 'either' ? 'either' : parseInt(e.target.value, 10)) as ShmooStart })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-1 font-mono text-slate-300"
+              >
+                <option value="either">either</option>
+                <option value="0">0</option>
+                <option value="1">1</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Half-select
+              <select
+                value={config.scheme}
+                onChange={(e) => setConfig({ ...config, scheme: e.target.value as HalfSelectScheme })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-1 font-mono text-slate-300"
+              >
+                {HALF_SELECT_SCHEMES.map(s => <option key={s.scheme} value={s.scheme}>{s.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Read
+              <select
+                value={config.observable}
+                onChange={(e) => setConfig({ ...config, observable: e.target.value as Observable })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-1 font-mono text-slate-300"
+              >
+                <option value="frequency">frequency</option>
+                <option value="amplitude">amplitude</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Trials
+              <input
+                type="number"
+                min="1"
+                step="10"
+                value={config.trials}
+                disabled={!noise.enabled}
+                onChange={(e) => setConfig({ ...config, trials: parseInt(e.target.value, 10) || 1 })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </label>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+          {runError && <p className="text-xs text-red-400">{runError}</p>}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {running ? (
+              <button onClick={stop} className={buttonClass}>
+                <Square size={14} />
+                Stop
+              </button>
+            ) : (
+              <button onClick={handleRun} disabled={errors.length > 0} className={buttonClass}>
+                <Play size={14} />
+                Sweep
+              </button>
+            )}
+            <button onClick={() => result && downloadText('shmoo.csv', shmooToCSV(result), 'text/csv')} disabled={!result} className={buttonClass}>
+              <Download size={14} />
+              CSV
+            </button>
+            {progress && (
+              <span className="text-xs font-mono text-slate-500">
+                Row {progress.done} of {progress.total}
+              </span>
+            )}
+          </div>
+
+          {result && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between text-xs text-slate-500">
+                <span>
+                  {axisInfo(result.config.x).label} → / {axisInfo(result.config.y).label} ↑
+                </span>
+                <div className="flex rounded overflow-hidden border border-slate-700">
+                  {METRICS.map(m => (
+                    <button
+                      key={m.metric}
+                      onClick={() => setMetric(m.metric)}
+                      className={`px-2 py-1 text-xs font-bold uppercase transition-colors ${
+                        metric === m.metric ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ShmooMap result={result} metric={metric} safest={safest} />
+              <p className="text-xs text-slate-500">
+                {metric === 'window' && 'Green: inside the operating window.'}
+                {metric === 'write' && 'Share of writes that landed on the target branch (green 100%, red 0%).'}
+                {metric === 'disturb' && 'Share of trials where the neighbour or the read flipped a bit (green 0%, red 100%).'}
+                {metric === 'margin' && `Readout distance from the decision level towards the written value, ${unit} (red: misread).`}
+              </p>
+              <p className="text-xs font-mono text-slate-400">
+                {safest
+                  ? `Safest point: ${formatValue('amplitude', safest.amplitude)} for ${formatValue('width', safest.width)}, read at ${formatValue('readVoltage', safest.readVoltage)} (margin ${safest.readMargin.toFixed(3)} ${unit})`
+                  : 'No grid point passes: widen the sweep or relax the settings.'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, HistorySample } from '../types';
+import { levelCount, levelOf } from '../services/multiLevel';
+
+interface StripChartProps {
+  bitIndex: number;
+  samples: HistorySample[]; // Oldest first
+  windowSeconds: number;
+  amplitudeDomain: [number, number];
+  model?: DeviceModel;
+}
+
+interface Lane {
+  label: string;
+  domain: [number, number];
+  color: string;
+  value: (s: HistorySample) => number;
+  step?: boolean; // Draw as a step function (discrete state)
+}
+
+export const StripChart: React.FC<StripChartProps> = ({
+  bitIndex,
+  samples,
+  windowSeconds,
+  amplitudeDomain,
+  model = DEFAULT_DEVICE_MODEL,
+}) => {
+  // Dimensions
+  const width = 800;
+  const laneHeight = 60;
+  const laneGap = 12;
+  const padding = { top: 10, right: 20, bottom: 25, left: 80 };
+
+  const top = levelCount(model) - 1;
+  const lanes: Lane[] = [
+    { label: 'Voltage (V)', domain: [CONSTANTS.VOLTAGE_MIN, CONSTANTS.VOLTAGE_MAX], color: '#6366f1', value: s => s.state.voltage },
+    { label: top > 1 ? `Level (0-${top})` : 'Branch (0/1)', domain: [-0.2 * top, 1.2 * top], color: '#475569', value: s => levelOf(s.state), step: true },
+    { label: 'Amplitude (mV)', domain: amplitudeDomain, color: '#10b981', value: s => s.state.amplitude },
+  ];
+
+  const height = padding.top + padding.bottom + lanes.length * laneHeight + (lanes.length - 1) * laneGap;
+  const innerWidth = width - padding.left - padding.right;
+
+  const tEnd = samples.length > 0 ? samples[samples.length - 1].time : 0;
+  const tStart = tEnd - windowSeconds;
+  const visible = samples.filter(s => s.time >= tStart);
+
+  const xScale = (t: number) => padding.left + ((t - tStart) / windowSeconds) * innerWidth;
+
+  const laneTop = (i: number) => padding.top + i * (laneHeight + laneGap);
+  const yScale = (lane: Lane, i: number, v: number) => {
+    const normalized = (v - lane.domain[0]) / (lane.domain[1] - lane.domain[0]);
+    const clamped = Math.min(1, Math.max(0, normalized));
+    return laneTop(i) + laneHeight - clamped * laneHeight;
+  };
+
+  const lanePath = (lane: Lane, i: number) => {
+    let d = '';
+    visible.forEach((s, j) => {
+      const x = xScale(s.time);
+      const y = yScale(lane, i, lane.value(s));
+      if (j === 0) d += `M ${x},${y} `;
+      else if (lane.step) d += `H ${x} V ${y} `;
+      else d += `L ${x},${y} `;
+    });
+    return d;
+  };
+
+  // Whole-second ticks across the window
+  const ticks: number[] = [];
+  const tickStep = windowSeconds > 30 ? 10 : windowSeconds > 10 ? 5 : 1;
+  for (let t = Math.ceil(tStart / tickStep) * tickStep; t <= tEnd; t += tickStep) {
+    if (t >= 0) ticks.push(t);
+  }
+
+  return (
+    <div className="bg-white rounded-lg overflow-hidden relative">
+      <div className="absolute top-2 left-4 z-10">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Bit #{bitIndex} · Time Series</span>
+      </div>
+
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        {/* Time Gridlines */}
+        {ticks.map(t => (
+          <g key={t}>
+            <line x1={xScale(t)} y1={padding.top} x2={xScale(t)} y2={height - padding.bottom} stroke="#f1f5f9" />
+            <text x={xScale(t)} y={height - 8} textAnchor="middle" fontSize="10" fill="#94a3b8">{t}s</text>
+          </g>
+        ))}
+
+        {lanes.map((lane, i) => (
+          <g key={lane.label}>
+            {/* Lane Frame */}
+            <line x1={padding.left} y1={laneTop(i) + laneHeight} x2={width - padding.right} y2={laneTop(i) + laneHeight} stroke="#cbd5e1" />
+            <line x1={padding.left} y1={laneTop(i)} x2={padding.left} y2={laneTop(i) + laneHeight} stroke="#475569" strokeWidth="2" />
+            <text x={padding.left - 8} y={laneTop(i) + laneHeight / 2} textAnchor="end" dominantBaseline="middle" fontSize="10" fontWeight="bold" fill="#64748b">
+              {lane.label}
+            </text>
+
+            {/* Threshold Levels on the voltage lane */}
+            {i === 0 && [model.THRESHOLD_UP, model.THRESHOLD_DOWN].map(v => (
+              <line
+                key={v}
+                x1={padding.left}
+                y1={yScale(lane, i, v)}
+                x2={width - padding.right}
+                y2={yScale(lane, i, v)}
+                stroke="#94a3b8"
+                strokeWidth="1"
+                strokeDasharray="3,3"
+              />
+            ))}
+
+            <path d={lanePath(lane, i)} fill="none" stroke={lane.color} strokeWidth="1.5" />
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { CONSTANTS, WaveformConfig, WaveformKind } from '../types';
+import { EXAMPLE_SCRIPTS, WAVEFORM_KINDS } from '../services/waveforms';
+
+interface WaveformPanelProps {
+  waveform: WaveformConfig;
+  errors: string[];
+  onWaveformChange: (waveform: WaveformConfig) => void;
+}
+
+const PLACEHOLDERS: Partial<Record<WaveformKind, string>> = {
+  piecewise: '0:0, 1:1.2, 3:1.2, 4:-0.5, 5:0, repeat',
+  script: 'ramp to 1.2 over 2s, hold 1s, ramp to -0.5',
+};
+
+export const WaveformPanel: React.FC<WaveformPanelProps> = ({ waveform, errors, onWaveformChange }) => {
+  const update = (patch: Partial<WaveformConfig>) => onWaveformChange({ ...waveform, ...patch });
+
+  const handleKindChange = (kind: WaveformKind) => {
+    // Minor loops start well below the thresholds; leaving one restores a full sweep
+    const amplitude = kind === 'minorLoop' ? 0.6 : waveform.kind === 'minorLoop' ? CONSTANTS.VOLTAGE_MAX : waveform.amplitude;
+    const source = kind === waveform.kind ? waveform.source : PLACEHOLDERS[kind] ?? '';
+    update({ kind, amplitude, source });
+  };
+
+  const isSequence = waveform.kind === 'piecewise' || waveform.kind === 'script';
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 flex flex-col gap-3">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-center gap-2 text-slate-400">
+          <Activity size={18} />
+          <span className="text-sm font-medium">Drive</span>
+        </div>
+
+        <div className="flex flex-wrap rounded-lg overflow-hidden border border-slate-700">
+          {WAVEFORM_KINDS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => handleKindChange(kind)}
+              className={`px-2 py-1.5 text-xs font-bold transition-colors ${
+                waveform.kind === kind ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-800 text-slate-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!isSequence && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs text-slate-400">
+          {waveform.kind !== 'dc' && (
+            <label className="flex items-center gap-2">
+              <span className="w-16">Amplitude</span>
+              <input
+                type="range"
+                min="0"
+                max={CONSTANTS.VOLTAGE_MAX}
+                step="0.05"
+                value={waveform.amplitude}
+                onChange={(e) => update({ amplitude: parseFloat(e.target.value) })}
+                className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-400"
+              />
+              <span className="font-mono w-10 text-right">{waveform.amplitude.toFixed(2)}V</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <span className="w-16">Offset</span>
+            <input
+              type="range"
+              min={CONSTANTS.VOLTAGE_MIN}
+              max={CONSTANTS.VOLTAGE_MAX}
+              step="0.05"
+              value={waveform.offset}
+              onChange={(e) => update({ offset: parseFloat(e.target.value) })}
+              className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-400"
+            />
+            <span className="font-mono w-10 text-right">{waveform.offset.toFixed(2)}V</span>
+          </label>
+          {waveform.kind !== 'dc' && (
+            <label className="flex items-center gap-2">
+              <span className="w-16">Period</span>
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={Number(waveform.period.toFixed(2))}
+                onChange={(e) => {
+                  const period = parseFloat(e.target.value);
+                  if (period > 0) update({ period });
+                }}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+              />
+              <span className="font-mono w-10 text-right">s</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {isSequence && (
+        <div className="flex flex-col gap-2">
+          {waveform.kind === 'script' && (
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLE_SCRIPTS.map(example => (
+                <button
+                  key={example.name}
+                  onClick={() => update({ source: example.source })}
+                  className="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                  {example.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <textarea
+            value={waveform.source}
+            onChange={(e) => update({ source: e.target.value })}
+            placeholder={PLACEHOLDERS[waveform.kind]}
+            rows={3}
+            spellCheck={false}
+            className={`w-full bg-slate-900 border rounded px-3 py-2 text-xs font-mono text-slate-200 placeholder:text-slate-600 ${
+              errors.length > 0 ? 'border-red-500/60' : 'border-slate-700'
+            }`}
+          />
+          <div className="text-xs text-slate-500">
+            {waveform.kind === 'script'
+              ? 'Commands: start at V, ramp to V over Ts, step to V, hold Ts, repeat.'
+              : 'Breakpoints as time:voltage (s:V), linearly interpolated. Add "repeat" to loop.'}
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 list-disc pl-5">
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Download, Upload, Binary } from 'lucide-react';
+import { REGISTER_SIZES, WordFormat, formatWord, maxWordValue, parseWord } from '../services/memoryRegister';
+
+interface WordControlsProps {
+  bitCount: number;
+  radix: number; // Levels per cell (2 for binary cells)
+  disabled: boolean;
+  onBitCountChange: (bitCount: number) => void;
+  onWriteWord: (value: number) => void;
+  onReadWord: () => number; // Performs a read operation, returns the word read
+}
+
+const FORMAT_LABELS: Record<WordFormat, string> = { bin: 'BIN', dec: 'DEC', hex: 'HEX' };
+
+// One digit per cell: binary for two-branch cells, base N for multi-level ones
+const formatLabel = (format: WordFormat, radix: number) =>
+  format === 'bin' && radix !== 2 ? `BASE ${radix}` : FORMAT_LABELS[format];
+
+export const WordControls: React.FC<WordControlsProps> = ({
+  bitCount,
+  radix,
+  disabled,
+  onBitCountChange,
+  onWriteWord,
+  onReadWord,
+}) => {
+  const [format, setFormat] = useState<WordFormat>('bin');
+  const [input, setInput] = useState('');
+  const [readout, setReadout] = useState<string | null>(null);
+
+  const parsed = input.trim() === '' ? null : parseWord(input, format, bitCount, radix);
+  const inputInvalid = input.trim() !== '' && parsed === null;
+
+  const handleWrite = () => {
+    if (parsed === null) return;
+    onWriteWord(parsed);
+    setReadout(null);
+  };
+
+  const handleRead = () => {
+    setReadout(formatWord(onReadWord(), format, bitCount, radix));
+  };
+
+  return (
+    <div className="w-full bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 flex flex-col gap-3">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        {/* Register Width */}
+        <div className="flex items-center gap-2 text-slate-400">
+          <Binary size={18} />
+          <span className="text-sm font-medium">Word</span>
+          <select
+            value={bitCount}
+            onChange={(e) => onBitCountChange(parseInt(e.target.value, 10))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-300"
+          >
+            {REGISTER_SIZES.map(size => (
+              <option key={size} value={size}>{size} {radix > 2 ? 'cell' : 'bit'}{size > 1 ? 's' : ''}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Format */}
+        <div className="flex rounded overflow-hidden border border-slate-700">
+          {(Object.keys(FORMAT_LABELS) as WordFormat[]).map(f => (
+            <button
+              key={f}
+              onClick={() => { setFormat(f); setReadout(null); }}
+              className={`px-2 py-1 text-xs font-bold transition-colors ${
+                format === f ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {formatLabel(f, radix)}
+            </button>
+          ))}
+        </div>
+
+        {/* Value Input */}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleWrite(); }}
+          placeholder={formatWord(maxWordValue(bitCount, radix), format, bitCount, radix)}
+          className={`flex-1 bg-slate-900 border rounded px-3 py-1.5 text-sm font-mono text-slate-200 placeholder:text-slate-600 ${
+            inputInvalid ? 'border-red-500/60' : 'border-slate-700'
+          }`}
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleWrite}
+            disabled={disabled || parsed === null}
+            className="flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase disabled:opacity-50"
+          >
+            <Upload size={14} />
+            Write Word
+          </button>
+          <button
+            onClick={handleRead}
+            className="flex items-center gap-2 px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 hover:text-white transition-colors text-xs font-bold uppercase"
+          >
+            <Download size={14} />
+            Read Word
+          </button>
+        </div>
+      </div>
+
+      {(inputInvalid || readout !== null) && (
+        <div className="text-xs font-mono">
+          {inputInvalid && (
+            <span className="text-red-400">
+              Enter a {formatLabel(format, radix)} value between 0 and {formatWord(maxWordValue(bitCount, radix), format, bitCount, radix)}.
+            </span>
+          )}
+          {!inputInvalid && readout !== null && (
+            <span className="text-slate-400">Read: <span className="text-indigo-300">{readout}</span></span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEVICE_MODEL } from '../types';
+import { DEFAULT_AGING, agedModel, loopFactor, retentionTimeAt } from './aging';
+import { DEFAULT_READ_CONFIG } from './readout';
+import { readBits } from './memoryRegister';
+import { retentionFigures, runStorage } from './retention';
+import { createSimulation } from './simulationCore';
+
+const model = DEFAULT_DEVICE_MODEL;
+const aging = { ...DEFAULT_AGING, enabled: true };
+
+describe('aged model', () => {
+  it('leaves the model alone when aging is off', () => {
+    expect(agedModel(model, DEFAULT_AGING, 1e6, 1e6)).toBe(model);
+    expect(agedModel(model, aging, 0, 0)).toMatchObject({ THRESHOLD_UP: model.THRESHOLD_UP, FREQ_UPPER_BASE: model.FREQ_UPPER_BASE });
+  });
+
+  it('narrows the loop as the switching count grows', () => {
+    const worn = agedModel(model, aging, 1e4, 0);
+    const factor = loopFactor(aging, 1e4);
+    expect(factor).toBeCloseTo(1 - 4 * aging.fatigueRate, 3);
+    expect(worn.THRESHOLD_UP).toBeCloseTo(model.THRESHOLD_UP * factor, 9);
+    expect(worn.THRESHOLD_DOWN).toBeCloseTo(model.THRESHOLD_DOWN * factor, 9);
+    expect(worn.FREQ_UPPER_BASE - worn.FREQ_LOWER_BASE).toBeCloseTo((model.FREQ_UPPER_BASE - model.FREQ_LOWER_BASE) * factor, 9);
+  });
+
+  it('shifts the frequencies and shortens retention when warm', () => {
+    const warm = { ...aging, temperature: 50 };
+    expect(agedModel(model, warm, 0, 0).FREQ_LOWER_BASE).toBeCloseTo(model.FREQ_LOWER_BASE + 50 * warm.freqTempCoeff, 9);
+    expect(retentionTimeAt(warm, 50)).toBeLessThan(retentionTimeAt(warm, 0));
+    expect(retentionTimeAt(warm, 0)).toBe(warm.retentionTime);
+  });
+});
+
+describe('storage', () => {
+  it('loses stored 1s but never 0s when held hot for long enough', () => {
+    const sim = createSimulation({ bitCount: 4, aging: { ...aging, temperature: 80 } });
+    sim.writeWord(0b1010);
+    const report = runStorage(sim, 3.156e7, DEFAULT_READ_CONFIG);
+    expect(report.stored).toEqual([1, 0, 1, 0]);
+    expect(report.losses.map(l => l.bit).sort()).toEqual([0, 2]);
+    report.losses.forEach(loss => expect(loss.cause).toBe('relaxed'));
+    expect(readBits(sim.getBits())).toEqual([0, 0, 0, 0]);
+    // Losing a level is not a write cycle
+    expect(sim.getCycles()).toEqual([1, 0, 1, 0]);
+    expect(sim.getEvents().filter(e => e.relaxed).map(e => e.bit).sort()).toEqual([0, 2]);
+  });
+
+  it('reports a misread once the frequency has drifted past the decision level', () => {
+    const drifting = { ...aging, retentionTime: 1e30, temperatureDrift: 1 };
+    const sim = createSimulation({ bitCount: 1, aging: drifting });
+    sim.writeBit(0, 1);
+    const { driftLimit } = retentionFigures(drifting, DEFAULT_READ_CONFIG, model);
+    const report = runStorage(sim, 2 * driftLimit!, DEFAULT_READ_CONFIG);
+    expect(report.losses).toHaveLength(1);
+    expect(report.losses[0].cause).toBe('misread');
+    // The figure is for a fresh device; the write already wore the loop a little
+    expect(report.losses[0].time).toBeLessThanOrEqual(driftLimit!);
+    expect(report.losses[0].time).toBeGreaterThan(0.95 * driftLimit!);
+  });
+
+  it('counts switches per bit and rewinds them with the snapshot', () => {
+    const sim = createSimulation({ bitCount: 2, aging });
+    const before = sim.snapshot();
+    sim.writeBit(1, 1);
+    sim.writeBit(1, 0);
+    expect(sim.getCycles()).toEqual([0, 2]);
+    sim.restoreSnapshot(before);
+    expect(sim.getCycles()).toEqual([0, 0]);
+  });
+});
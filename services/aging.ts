@@ -0,0 +1,147 @@
+import { AgingConfig, DEFAULT_DEVICE_MODEL, DeviceModel, LevelCurve, MultiLevelParams, SimulationState } from '../types';
+import { Rng } from './random';
+import { calculateAmplitude, calculateFrequency } from './physicsEngine';
+import { branchName, levelOf } from './multiLevel';
+
+export const DEFAULT_AGING: AgingConfig = {
+  enabled: false,
+  temperature: 0,
+  temperatureDrift: 0,
+  freqTempCoeff: -0.002,    // About -20 ppm/K of the ~103kHz resonance
+  thresholdTempCoeff: 0.002,
+  retentionTime: 3.156e7,   // One year
+  activationEnergy: 1,
+  fatigueRate: 0.08,        // Loop closes after ~10^12.5 cycles
+};
+
+// Temperature the device model and retention time refer to (K)
+export const REFERENCE_TEMPERATURE = 300;
+
+const BOLTZMANN = 8.617e-5; // eV/K
+export const SECONDS_PER_HOUR = 3600;
+
+// Temperature offset (K above the reference) at simulation time `time` (s)
+export const temperatureAt = (aging: AgingConfig, time: number): number =>
+  aging.temperature + (aging.temperatureDrift * time) / SECONDS_PER_HOUR;
+
+/**
+ * Fraction of the fresh loop left after `cycles` switches: 1 when new, 0 once
+ * the branches have merged and the device no longer stores anything.
+ */
+export const loopFactor = (aging: AgingConfig, cycles: number): number =>
+  Math.max(0, 1 - aging.fatigueRate * Math.log10(1 + cycles));
+
+/**
+ * Mean time a stored level holds at a temperature offset (Arrhenius scaling
+ * of the retention time at the reference temperature).
+ */
+export const retentionTimeAt = (aging: AgingConfig, temperature: number): number => {
+  const kelvin = Math.max(1, REFERENCE_TEMPERATURE + temperature);
+  return aging.retentionTime * Math.exp((aging.activationEnergy / BOLTZMANN) * (1 / kelvin - 1 / REFERENCE_TEMPERATURE));
+};
+
+// Pulls values towards their mean: factor 1 leaves them, 0 merges them
+const converge = (values: number[], factor: number): number[] => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.map(v => mean + (v - mean) * factor);
+};
+
+/**
+ * Device model of a bit that has switched `cycles` times, at simulation time
+ * `time`. Warming shifts every branch frequency and moves both thresholds
+ * towards 0V; fatigue narrows the loop, drawing the thresholds in and the
+ * branches together. Aging acts on the fitted curves, so a Duffing model
+ * falls back to its phenomenological fit.
+ */
+export const agedModel = (
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  aging: AgingConfig,
+  cycles: number,
+  time: number
+): DeviceModel => {
+  if (!aging.enabled) return model;
+  const dT = temperatureAt(aging, time);
+  const factor = loopFactor(aging, cycles);
+  const shift = aging.freqTempCoeff * dT;
+  const up = (v: number) => Math.max(0, (v - aging.thresholdTempCoeff * dT) * factor);
+  const down = (v: number) => Math.min(0, (v + aging.thresholdTempCoeff * dT) * factor);
+
+  const [freqLower, freqUpper] = converge([model.FREQ_LOWER_BASE, model.FREQ_UPPER_BASE], factor);
+  const [quadLower, quadUpper] = converge([model.AMP_LOWER_QUAD, model.AMP_UPPER_QUAD], factor);
+  const [linLower, linUpper] = converge([model.AMP_LOWER_LIN, model.AMP_UPPER_LIN], factor);
+  const [constLower, constUpper] = converge([model.AMP_LOWER_CONST, model.AMP_UPPER_CONST], factor);
+
+  const agedLevels = (levels: MultiLevelParams): MultiLevelParams => {
+    const column = (key: keyof LevelCurve) => converge(levels.BRANCHES.map(curve => curve[key]), factor);
+    const freqBase = column('FREQ_BASE');
+    const freqSlope = column('FREQ_SLOPE');
+    const quad = column('AMP_QUAD');
+    const lin = column('AMP_LIN');
+    const constant = column('AMP_CONST');
+    return {
+      BRANCHES: levels.BRANCHES.map((_, level): LevelCurve => ({
+        FREQ_BASE: freqBase[level] + shift,
+        FREQ_SLOPE: freqSlope[level],
+        AMP_QUAD: quad[level],
+        AMP_LIN: lin[level],
+        AMP_CONST: constant[level],
+      })),
+      THRESHOLDS_UP: levels.THRESHOLDS_UP.map(up),
+      THRESHOLDS_DOWN: levels.THRESHOLDS_DOWN.map(down),
+    };
+  };
+
+  return {
+    ...model,
+    THRESHOLD_UP: up(model.THRESHOLD_UP),
+    THRESHOLD_DOWN: down(model.THRESHOLD_DOWN),
+    FREQ_LOWER_BASE: freqLower + shift,
+    FREQ_UPPER_BASE: freqUpper + shift,
+    AMP_LOWER_QUAD: quadLower,
+    AMP_LOWER_LIN: linLower,
+    AMP_LOWER_CONST: constLower,
+    AMP_UPPER_QUAD: quadUpper,
+    AMP_UPPER_LIN: linUpper,
+    AMP_UPPER_CONST: constUpper,
+    duffing: undefined,
+    ...(model.levels && { levels: agedLevels(model.levels) }),
+  };
+};
+
+/**
+ * Spontaneous relaxation over dt: a stored level drops one level (upper to
+ * lower) with probability 1 - exp(-dt / retention). Level 0 is the ground
+ * state and holds indefinitely.
+ */
+export const relaxStored = (
+  state: SimulationState,
+  dt: number,
+  retention: number,
+  model: DeviceModel,
+  rng: Rng
+): SimulationState => {
+  const level = levelOf(state);
+  if (level === 0 || dt <= 0 || rng.next() >= 1 - Math.exp(-dt / retention)) return state;
+  const branch = model.levels ? level - 1 : 'lower';
+  return {
+    ...state,
+    frequency: calculateFrequency(state.voltage, branch, model),
+    amplitude: calculateAmplitude(state.voltage, branch, model),
+    branch: branchName(level - 1),
+    ...(model.levels ? { level: level - 1 } : {}),
+  };
+};
+
+/**
+ * Checks an aging configuration. Returns human-readable problems (empty if valid).
+ */
+export const validateAging = (aging: AgingConfig): string[] => {
+  const errors: string[] = [];
+  if (!Number.isFinite(aging.retentionTime) || aging.retentionTime <= 0) errors.push('Retention time must be positive.');
+  if (!Number.isFinite(aging.activationEnergy) || aging.activationEnergy < 0) errors.push('Activation energy cannot be negative.');
+  if (!Number.isFinite(aging.fatigueRate) || aging.fatigueRate < 0) errors.push('Fatigue rate cannot be negative.');
+  if (!Number.isFinite(aging.temperature) || REFERENCE_TEMPERATURE + aging.temperature <= 0) {
+    errors.push('Temperature must stay above absolute zero.');
+  }
+  return errors;
+};
@@ -0,0 +1,71 @@
+import { AxisRange, DEFAULT_DEVICE_MODEL, DeviceModel, Observable } from '../types';
+import { calculateObservableRange } from './physicsEngine';
+
+// Amplitude keeps the paper's fixed axis; frequency is fitted to the model
+export const DEFAULT_AXIS_RANGES: Record<Observable, AxisRange> = {
+  amplitude: { auto: false, min: 0, max: 25 },
+  frequency: { auto: true, min: 102, max: 106 },
+};
+
+// Headroom added around auto-fitted ranges (fraction of the span)
+const AUTO_HEADROOM = 0.1;
+
+// Zoom limits relative to the unzoomed span
+const MIN_ZOOM_SPAN = 1e-3;
+const MAX_ZOOM_SPAN = 10;
+
+/**
+ * Resolves an axis setting to a [min, max] domain. Auto fits both branches
+ * over the full voltage range; an invalid manual range falls back to auto.
+ */
+export const resolveAxis = (
+  range: AxisRange,
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): [number, number] => {
+  if (!range.auto && Number.isFinite(range.min) && Number.isFinite(range.max) && range.max > range.min) {
+    return [range.min, range.max];
+  }
+  const [min, max] = calculateObservableRange(observable, model);
+  const pad = (max - min) * AUTO_HEADROOM || 0.01;
+  return [min - pad, max + pad];
+};
+
+/**
+ * Round tick values (1, 2 or 5 times a power of ten) covering [min, max],
+ * about `count` of them.
+ */
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  if (!(max > min)) return [min];
+  const rough = (max - min) / Math.max(1, count);
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= rough) ?? 10 * power;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) {
+    // Snap away float noise such as 0.30000000000000004
+    ticks.push(Number(t.toPrecision(12)));
+  }
+  return ticks;
+};
+
+// Decimals needed to tell adjacent ticks apart
+export const tickDecimals = (ticks: number[]): number =>
+  ticks.length < 2 ? 0 : Math.max(0, -Math.floor(Math.log10(ticks[1] - ticks[0]) + 1e-9));
+
+/**
+ * Scales a domain by `factor` (< 1 zooms in) keeping `anchor` in place.
+ * The span stays within limits relative to `base`, the unzoomed domain.
+ */
+export const zoomDomain = (
+  domain: [number, number],
+  anchor: number,
+  factor: number,
+  base: [number, number]
+): [number, number] => {
+  const baseSpan = base[1] - base[0];
+  const span = Math.min(MAX_ZOOM_SPAN * baseSpan, Math.max(MIN_ZOOM_SPAN * baseSpan, (domain[1] - domain[0]) * factor));
+  const f = (anchor - domain[0]) / (domain[1] - domain[0]);
+  return [anchor - f * span, anchor + (1 - f) * span];
+};
+
+export const panDomain = (domain: [number, number], delta: number): [number, number] => [domain[0] + delta, domain[1] + delta];
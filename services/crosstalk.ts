@@ -0,0 +1,153 @@
+import { CouplingConfig, DEFAULT_DEVICE_MODEL, DeviceModel, HalfSelectScheme, SimulationState } from '../types';
+import { stepSimulation, StepOptions } from './physicsEngine';
+import { WRITE_PULSE_VOLTAGE, WRITE_PULSE_WIDTH, WRITE_SETTLE_TIME, createRegister } from './memoryRegister';
+
+export const DEFAULT_COUPLING: CouplingConfig = {
+  enabled: false,
+  neighborCoupling: 0.1,
+  scheme: 'ground',
+};
+
+export const HALF_SELECT_SCHEMES: { scheme: HalfSelectScheme; label: string; fraction: number }[] = [
+  { scheme: 'ground', label: '0V', fraction: 0 },
+  { scheme: 'half', label: 'V/2', fraction: 1 / 2 },
+  { scheme: 'third', label: 'V/3', fraction: 1 / 3 },
+];
+
+export const halfSelectFraction = (scheme: HalfSelectScheme): number =>
+  HALF_SELECT_SCHEMES.find(s => s.scheme === scheme)?.fraction ?? 0;
+
+/**
+ * Voltage each resonator actually sees given the voltages applied to the
+ * register's electrodes. Adjacent bits couple capacitively: a fraction k of
+ * the difference to each neighbor leaks in, v_i + k * sum(v_j - v_i).
+ * A drive shared by all bits therefore passes through unchanged.
+ */
+export const effectiveVoltages = (applied: number[], coupling: CouplingConfig): number[] => {
+  if (!coupling.enabled) return applied;
+  const k = coupling.neighborCoupling;
+  return applied.map((v, i) => {
+    const left = i > 0 ? applied[i - 1] - v : 0;
+    const right = i < applied.length - 1 ? applied[i + 1] - v : 0;
+    return v + k * (left + right);
+  });
+};
+
+/**
+ * Electrode voltages during a write pulse: selected bits get their full
+ * pulse, unselected bits the half-select bias (a fraction of the mean pulse).
+ */
+export const writePulseVoltages = (targets: (0 | 1 | null)[], scheme: HalfSelectScheme): number[] => {
+  const pulses = targets.map(t => (t === null || t === undefined ? null : t === 1 ? WRITE_PULSE_VOLTAGE : -WRITE_PULSE_VOLTAGE));
+  const selected = pulses.filter((p): p is number => p !== null);
+  const mean = selected.length > 0 ? selected.reduce((a, b) => a + b, 0) / selected.length : 0;
+  return pulses.map(p => p ?? halfSelectFraction(scheme) * mean);
+};
+
+export interface CoupledWrite {
+  traces: SimulationState[][]; // Per bit: [peak, settled]
+  applied: number[];           // Electrode voltages after the write
+  flipped: number[];           // Unselected bits whose branch changed
+  failed: number[];            // Selected bits that did not end on their target
+}
+
+/**
+ * Write with crosstalk: every bit is stepped at its effective voltage during
+ * the pulse, then the selected bits return to 0V and the others to `rest`.
+ */
+export const coupledWriteTraces = (
+  bits: SimulationState[],
+  targets: (0 | 1 | null)[],
+  rest: number[],
+  coupling: CouplingConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {}
+): CoupledWrite => {
+  const pulse = effectiveVoltages(writePulseVoltages(targets, coupling.scheme), coupling);
+  const applied = rest.map((v, i) => (targets[i] === null || targets[i] === undefined ? v : 0));
+  const settle = effectiveVoltages(applied, coupling);
+
+  const traces = bits.map((bit, i) => {
+    const peak = stepSimulation(pulse[i], bit, model, { ...options, dt: WRITE_PULSE_WIDTH });
+    return [peak, stepSimulation(settle[i], peak, model, { ...options, dt: WRITE_SETTLE_TIME })];
+  });
+
+  const flipped: number[] = [];
+  const failed: number[] = [];
+  traces.forEach((trace, i) => {
+    const final = trace[trace.length - 1];
+    const target = targets[i];
+    if (target === null || target === undefined) {
+      if (final.branch !== bits[i].branch) flipped.push(i);
+    } else if (final.branch !== (target === 1 ? 'upper' : 'lower')) {
+      failed.push(i);
+    }
+  });
+
+  return { traces, applied, flipped, failed };
+};
+
+type TestWrite = { word: (0 | 1)[]; targets: (0 | 1 | null)[] };
+
+// Single-bit writes next to the opposite value: catches half-select disturbs
+const DISTURB_CASES: TestWrite[] = [
+  { word: [0, 0, 0], targets: [null, 1, null] },
+  { word: [1, 1, 1], targets: [null, 0, null] },
+];
+
+// Whole-word writes of alternating bits: neighbors pull each pulse toward the opposite polarity
+const WORD_CASES: TestWrite[] = [
+  { word: [0, 1, 0], targets: [1, 0, 1] },
+  { word: [1, 0, 1], targets: [0, 1, 0] },
+];
+
+// Smallest k in [0, 1] at which any test write corrupts data (bisection), or null if none does
+const bisectCoupling = (
+  cases: TestWrite[],
+  scheme: HalfSelectScheme,
+  model: DeviceModel,
+  tolerance: number
+): number | null => {
+  const stored = (word: (0 | 1)[]) =>
+    createRegister(word.length, model).map((bit, i) =>
+      word[i] === 1 ? stepSimulation(0, { ...bit, branch: 'upper' }, model) : bit
+    );
+
+  const corrupts = (k: number) => {
+    const coupling: CouplingConfig = { enabled: true, neighborCoupling: k, scheme };
+    return cases.some(({ word, targets }) => {
+      const { flipped, failed } = coupledWriteTraces(stored(word), targets, word.map(() => 0), coupling, model);
+      return flipped.length > 0 || failed.length > 0;
+    });
+  };
+
+  if (corrupts(0)) return 0;
+  if (!corrupts(1)) return null;
+  let lo = 0;
+  let hi = 1;
+  while (hi - lo > tolerance) {
+    const mid = (lo + hi) / 2;
+    if (corrupts(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+};
+
+/**
+ * Smallest neighbor coupling at which a single-bit write under `scheme`
+ * flips an unselected neighbor or fails itself. Null if even k = 1 is safe.
+ */
+export const criticalCoupling = (
+  scheme: HalfSelectScheme,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  tolerance = 1e-3
+): number | null => bisectCoupling(DISTURB_CASES, scheme, model, tolerance);
+
+/**
+ * Smallest neighbor coupling at which writing a whole alternating word fails
+ * (no bit is unselected, so the scheme does not matter).
+ */
+export const criticalWordCoupling = (
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  tolerance = 1e-3
+): number | null => bisectCoupling(WORD_CASES, 'ground', model, tolerance);
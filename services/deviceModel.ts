@@ -0,0 +1,128 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, DevicePreset } from '../types';
+import { validateDuffingParams } from './duffingEngine';
+import { evenLevels, multiLevelModel, validateMultiLevel } from './multiLevel';
+
+const PRESET_STORAGE_KEY = 'hysteresis.devicePresets';
+
+export interface DeviceParamSpec {
+  key: Exclude<keyof DeviceModel, 'duffing' | 'levels'>;
+  label: string;
+  unit: string;
+  step: number;
+  group: 'Thresholds' | 'Frequency' | 'Amplitude (Lower)' | 'Amplitude (Upper)';
+}
+
+// Editable parameters in display order
+export const DEVICE_PARAMS: DeviceParamSpec[] = [
+  { key: 'THRESHOLD_UP', label: 'Up', unit: 'V', step: 0.05, group: 'Thresholds' },
+  { key: 'THRESHOLD_DOWN', label: 'Down', unit: 'V', step: 0.05, group: 'Thresholds' },
+  { key: 'FREQ_LOWER_BASE', label: 'Lower Base', unit: 'kHz', step: 0.01, group: 'Frequency' },
+  { key: 'FREQ_UPPER_BASE', label: 'Upper Base', unit: 'kHz', step: 0.01, group: 'Frequency' },
+  { key: 'FREQ_SLOPE', label: 'Slope', unit: 'kHz/V', step: 0.01, group: 'Frequency' },
+  { key: 'AMP_LOWER_QUAD', label: 'Quad', unit: 'mV/V²', step: 0.1, group: 'Amplitude (Lower)' },
+  { key: 'AMP_LOWER_LIN', label: 'Lin', unit: 'mV/V', step: 0.1, group: 'Amplitude (Lower)' },
+  { key: 'AMP_LOWER_CONST', label: 'Const', unit: 'mV', step: 0.1, group: 'Amplitude (Lower)' },
+  { key: 'AMP_UPPER_QUAD', label: 'Quad', unit: 'mV/V²', step: 0.1, group: 'Amplitude (Upper)' },
+  { key: 'AMP_UPPER_LIN', label: 'Lin', unit: 'mV/V', step: 0.1, group: 'Amplitude (Upper)' },
+  { key: 'AMP_UPPER_CONST', label: 'Const', unit: 'mV', step: 0.1, group: 'Amplitude (Upper)' },
+];
+
+export const BUILTIN_PRESETS: DevicePreset[] = [
+  { name: 'Default (Fig 8)', model: DEFAULT_DEVICE_MODEL, builtIn: true },
+  {
+    name: 'Narrow Loop',
+    builtIn: true,
+    model: {
+      ...DEFAULT_DEVICE_MODEL,
+      THRESHOLD_UP: 0.6,
+      THRESHOLD_DOWN: -0.5,
+      AMP_LOWER_LIN: -3.0,
+      AMP_UPPER_LIN: 3.0,
+    },
+  },
+  {
+    name: 'Asymmetric',
+    builtIn: true,
+    model: {
+      ...DEFAULT_DEVICE_MODEL,
+      THRESHOLD_UP: 1.3,
+      THRESHOLD_DOWN: -0.4,
+      FREQ_UPPER_BASE: 103.45,
+      AMP_UPPER_CONST: 15.0,
+    },
+  },
+  { name: 'Ternary (3 levels)', builtIn: true, model: multiLevelModel(evenLevels(3)) },
+  { name: '2 bits/cell (4 levels)', builtIn: true, model: multiLevelModel(evenLevels(4)) },
+];
+
+/**
+ * Checks a model for physically meaningful values.
+ * Returns a list of human-readable problems (empty if valid).
+ */
+export const validateDeviceModel = (model: DeviceModel): string[] => {
+  const errors: string[] = [];
+
+  for (const { key } of DEVICE_PARAMS) {
+    if (!Number.isFinite(model[key])) errors.push(`${key} must be a number.`);
+  }
+  if (errors.length > 0) return errors;
+
+  if (model.THRESHOLD_DOWN >= model.THRESHOLD_UP) {
+    errors.push('THRESHOLD_DOWN must be below THRESHOLD_UP.');
+  }
+  const inRange = (v: number) => v >= CONSTANTS.VOLTAGE_MIN && v <= CONSTANTS.VOLTAGE_MAX;
+  if (!inRange(model.THRESHOLD_UP) || !inRange(model.THRESHOLD_DOWN)) {
+    errors.push(`Thresholds must lie within ${CONSTANTS.VOLTAGE_MIN}V..${CONSTANTS.VOLTAGE_MAX}V.`);
+  }
+  if (model.FREQ_LOWER_BASE <= 0 || model.FREQ_UPPER_BASE <= 0) {
+    errors.push('Frequency bases must be positive.');
+  }
+  if (model.duffing) errors.push(...validateDuffingParams(model.duffing));
+  if (model.levels) errors.push(...validateMultiLevel(model.levels));
+  return errors;
+};
+
+/**
+ * Device model from saved data: the known parameters over the defaults.
+ * Unknown keys are dropped; the values still need validateDeviceModel.
+ */
+export const knownModel = (saved: unknown): DeviceModel => {
+  if (!saved || typeof saved !== 'object') return DEFAULT_DEVICE_MODEL;
+  const source = saved as Partial<DeviceModel>;
+  const model: DeviceModel = { ...DEFAULT_DEVICE_MODEL };
+  for (const { key } of DEVICE_PARAMS) {
+    if (key in source) model[key] = source[key] as number;
+  }
+  if (source.duffing) model.duffing = source.duffing;
+  if (source.levels) model.levels = source.levels;
+  return model;
+};
+
+/**
+ * Loads user-saved presets from localStorage. Invalid entries are dropped.
+ */
+export const loadUserPresets = (): DevicePreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESET_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as DevicePreset[];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(p => typeof p?.name === 'string' && p.model)
+      .map(p => ({ name: p.name, model: { ...DEFAULT_DEVICE_MODEL, ...p.model } }))
+      .filter(p => validateDeviceModel(p.model).length === 0);
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: DevicePreset[]): void => {
+  try {
+    localStorage.setItem(
+      PRESET_STORAGE_KEY,
+      JSON.stringify(presets.filter(p => !p.builtIn).map(({ name, model }) => ({ name, model })))
+    );
+  } catch {
+    // Storage unavailable (private mode / quota); presets stay in memory only
+  }
+};
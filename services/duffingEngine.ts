@@ -0,0 +1,243 @@
+import { CONSTANTS, DuffingParams, Observable } from '../types';
+
+export const DEFAULT_DUFFING_PARAMS: DuffingParams = {
+  NATURAL_FREQ: 103.3,
+  QUALITY: 100,
+  DRIVE_DETUNING: 0.031,
+  DRIVE_FORCE: 0.0035,
+  CUBIC: 1,
+  LINEAR_TUNING: 0.023,
+  CUBIC_TUNING: 0.05,
+  AMP_SCALE: 57,
+};
+
+export interface DuffingParamSpec {
+  key: keyof DuffingParams;
+  label: string;
+  unit: string;
+  step: number;
+}
+
+export const DUFFING_PARAMS: DuffingParamSpec[] = [
+  { key: 'NATURAL_FREQ', label: 'f0', unit: 'kHz', step: 0.1 },
+  { key: 'QUALITY', label: 'Q', unit: '', step: 10 },
+  { key: 'DRIVE_DETUNING', label: 'Detuning', unit: 'rel.', step: 0.001 },
+  { key: 'DRIVE_FORCE', label: 'Force', unit: 'norm.', step: 0.0005 },
+  { key: 'CUBIC', label: 'Cubic k3', unit: 'norm.', step: 0.1 },
+  { key: 'LINEAR_TUNING', label: 'k1 tuning', unit: '1/V', step: 0.001 },
+  { key: 'CUBIC_TUNING', label: 'k3 tuning', unit: '1/V', step: 0.01 },
+  { key: 'AMP_SCALE', label: 'Readout', unit: 'mV/unit', step: 1 },
+];
+
+// Integration settings: RK4 steps per drive cycle, cycles per convergence check
+const STEPS_PER_CYCLE = 40;
+const CYCLES_PER_BLOCK = 10;
+const MAX_BLOCKS = 300;
+const CONVERGENCE = 1e-5; // Amplitude change per block (normalized) counted as settled
+
+// Voltage grid of the branch tables, and bisection passes to locate each jump
+const GRID_STEPS = 120;
+const JUMP_BISECTIONS = 10;
+
+const CACHE_LIMIT = 8;
+
+interface Phase {
+  x: number;
+  v: number; // dx/dt
+}
+
+interface BranchPoint {
+  voltage: number;
+  amplitude: number; // mV
+  frequency: number; // kHz
+}
+
+export interface DuffingBranches {
+  lower: BranchPoint[];  // Followed while sweeping up (the branch that jumps at thresholdUp)
+  upper: BranchPoint[];  // Followed while sweeping down
+  thresholdUp: number;   // V where the up-sweep jumps
+  thresholdDown: number; // V where the down-sweep jumps
+  bistable: boolean;     // False if the sweeps never jump (no hysteresis for these parameters)
+}
+
+const stiffness = (voltage: number, p: DuffingParams) => ({
+  k1: 1 + p.LINEAR_TUNING * voltage,
+  k3: p.CUBIC * (1 + p.CUBIC_TUNING * voltage),
+});
+
+/**
+ * Integrates the driven Duffing equation at a fixed bias until the response
+ * amplitude settles, starting from `start` at drive phase 0. Returns the
+ * displacement amplitude (normalized) and the phase-0 state to continue from.
+ */
+export const settleDuffing = (voltage: number, p: DuffingParams, start: Phase = { x: 0, v: 0 }): { amplitude: number; end: Phase } => {
+  const { k1, k3 } = stiffness(voltage, p);
+  const w = 1 + p.DRIVE_DETUNING;
+  const h = (2 * Math.PI) / w / STEPS_PER_CYCLE;
+  const gamma = 1 / p.QUALITY;
+  const accel = (t: number, x: number, v: number) => -gamma * v - k1 * x - k3 * x * x * x + p.DRIVE_FORCE * Math.cos(w * t);
+
+  let { x, v } = start;
+  let previous = Infinity;
+  let amplitude = 0;
+
+  for (let block = 0; block < MAX_BLOCKS; block++) {
+    for (let cycle = 0; cycle < CYCLES_PER_BLOCK; cycle++) {
+      amplitude = 0;
+      for (let i = 0; i < STEPS_PER_CYCLE; i++) {
+        const t = i * h;
+        const a1 = accel(t, x, v);
+        const a2 = accel(t + h / 2, x + (h / 2) * v, v + (h / 2) * a1);
+        const a3 = accel(t + h / 2, x + (h / 2) * (v + (h / 2) * a1), v + (h / 2) * a2);
+        const a4 = accel(t + h, x + h * (v + (h / 2) * a2), v + h * a3);
+        x += h * (v + (h / 6) * (a1 + a2 + a3));
+        v += (h / 6) * (a1 + 2 * a2 + 2 * a3 + a4);
+        amplitude = Math.max(amplitude, Math.abs(x));
+      }
+    }
+    if (Math.abs(amplitude - previous) < CONVERGENCE) break;
+    previous = amplitude;
+  }
+
+  return { amplitude, end: { x, v } };
+};
+
+// Readouts from a settled amplitude: the amplitude itself, and the resonance
+// frequency on the backbone curve at that amplitude (sqrt(k1 + 3/4 k3 A²))
+const branchPoint = (voltage: number, amplitude: number, p: DuffingParams): BranchPoint => {
+  const { k1, k3 } = stiffness(voltage, p);
+  return {
+    voltage,
+    amplitude: p.AMP_SCALE * amplitude,
+    frequency: p.NATURAL_FREQ * Math.sqrt(Math.max(0, k1 + 0.75 * k3 * amplitude * amplitude)),
+  };
+};
+
+/**
+ * Follows the steady state across the voltage range in one direction
+ * (continuation: each point starts from the previous one), then refines the
+ * largest jump by bisection. The points either side of the jump are added to
+ * the table so interpolation keeps the discontinuity sharp.
+ */
+const sweep = (p: DuffingParams, voltages: number[]): { points: BranchPoint[]; jump: number | null } => {
+  const states: { amplitude: number; end: Phase }[] = [];
+  let phase: Phase = { x: 0, v: 0 };
+  for (const voltage of voltages) {
+    const settled = settleDuffing(voltage, p, phase);
+    states.push(settled);
+    phase = settled.end;
+  }
+
+  const amplitudes = states.map(s => s.amplitude);
+  const span = Math.max(...amplitudes) - Math.min(...amplitudes);
+  let jumpAt = -1;
+  let largest = 0;
+  for (let i = 0; i + 1 < amplitudes.length; i++) {
+    const step = Math.abs(amplitudes[i + 1] - amplitudes[i]);
+    if (step > largest) {
+      largest = step;
+      jumpAt = i;
+    }
+  }
+
+  const points = voltages.map((voltage, i) => branchPoint(voltage, amplitudes[i], p));
+  // A jump is a step much larger than the smooth change between neighbors
+  const typical = span / voltages.length;
+  if (jumpAt < 0 || largest < 0.2 * span || largest < 5 * typical) return { points, jump: null };
+
+  let lo = voltages[jumpAt];
+  let hi = voltages[jumpAt + 1];
+  let before = states[jumpAt];
+  let after = states[jumpAt + 1];
+  for (let i = 0; i < JUMP_BISECTIONS; i++) {
+    const mid = (lo + hi) / 2;
+    const trial = settleDuffing(mid, p, before.end);
+    if (Math.abs(trial.amplitude - before.amplitude) < largest / 2) {
+      lo = mid;
+      before = trial;
+    } else {
+      hi = mid;
+      after = trial;
+    }
+  }
+
+  points.splice(jumpAt + 1, 0, branchPoint(lo, before.amplitude, p), branchPoint(hi, after.amplitude, p));
+  return { points, jump: hi };
+};
+
+const cache = new Map<string, DuffingBranches>();
+
+/**
+ * Branch tables for a parameter set, from an up-sweep and a down-sweep of the
+ * integrated resonator. Cached, since each table takes a few hundred ms.
+ */
+export const computeDuffingBranches = (p: DuffingParams): DuffingBranches => {
+  const key = JSON.stringify(p);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const up = Array.from({ length: GRID_STEPS + 1 }, (_, i) =>
+    CONSTANTS.VOLTAGE_MIN + (i / GRID_STEPS) * (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN)
+  );
+  const rising = sweep(p, up);
+  const falling = sweep(p, [...up].reverse());
+
+  const bistable = rising.jump !== null && falling.jump !== null && falling.jump < rising.jump;
+  const branches: DuffingBranches = {
+    lower: rising.points,
+    upper: falling.points.reverse(),
+    thresholdUp: bistable ? rising.jump! : CONSTANTS.VOLTAGE_MAX,
+    thresholdDown: bistable ? falling.jump! : CONSTANTS.VOLTAGE_MIN,
+    bistable,
+  };
+
+  if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  cache.set(key, branches);
+  return branches;
+};
+
+/**
+ * Steady-state observable on a branch, interpolated from the branch table.
+ */
+export const duffingObservable = (
+  voltage: number,
+  branch: 'upper' | 'lower',
+  observable: Observable,
+  p: DuffingParams
+): number => {
+  const points = computeDuffingBranches(p)[branch];
+  if (voltage <= points[0].voltage) return points[0][observable];
+  const last = points[points.length - 1];
+  if (voltage >= last.voltage) return last[observable];
+
+  // Tables run in increasing voltage; binary search the enclosing segment
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].voltage <= voltage) lo = mid;
+    else hi = mid;
+  }
+  const a = points[lo];
+  const b = points[hi];
+  const f = b.voltage > a.voltage ? (voltage - a.voltage) / (b.voltage - a.voltage) : 0;
+  return a[observable] + f * (b[observable] - a[observable]);
+};
+
+/**
+ * Checks Duffing parameters. Returns human-readable problems (empty if valid).
+ */
+export const validateDuffingParams = (p: DuffingParams): string[] => {
+  const errors: string[] = [];
+  for (const { key } of DUFFING_PARAMS) {
+    if (!Number.isFinite(p[key])) errors.push(`${key} must be a number.`);
+  }
+  if (errors.length > 0) return errors;
+  if (p.NATURAL_FREQ <= 0) errors.push('NATURAL_FREQ must be positive.');
+  if (p.QUALITY < 5 || p.QUALITY > 2000) errors.push('QUALITY must lie between 5 and 2000.');
+  if (p.DRIVE_FORCE <= 0) errors.push('DRIVE_FORCE must be positive.');
+  if (p.AMP_SCALE <= 0) errors.push('AMP_SCALE must be positive.');
+  const minK1 = Math.min(1 + p.LINEAR_TUNING * CONSTANTS.VOLTAGE_MIN, 1 + p.LINEAR_TUNING * CONSTANTS.VOLTAGE_MAX);
+  if (minK1 <= 0) errors.push('LINEAR_TUNING makes the linear stiffness negative within the voltage range.');
+  return errors;
+};
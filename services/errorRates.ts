@@ -0,0 +1,82 @@
+import { DeviceModel, NoiseConfig } from '../types';
+import { calculateFrequency, createInitialState, stepSimulation } from './physicsEngine';
+import { writeBit } from './memoryRegister';
+import { createRng } from './random';
+
+export interface ErrorRateOptions {
+  trials: number;
+  holdTime: number;    // s stored at 0V between write and read
+  readVoltage: number; // V bias during the read
+}
+
+export interface ErrorRateResult {
+  trials: number;
+  writeErrors: number;   // Branch wrong right after the write pulse
+  disturbErrors: number; // Correct write lost while holding at 0V
+  readErrors: number;    // Stored branch misread from the noisy readout
+  writeErrorRate: number;
+  disturbErrorRate: number;
+  readErrorRate: number;
+}
+
+export const DEFAULT_ERROR_RATE_OPTIONS: ErrorRateOptions = {
+  trials: 2000,
+  holdTime: 1,
+  readVoltage: 0,
+};
+
+// Step used while holding between write and read
+const HOLD_STEP = 0.05;
+
+/**
+ * Monte Carlo estimate of write, disturb and read error rates under the
+ * stochastic model. Each trial writes a random bit from a random starting
+ * branch, holds it, then reads it back from the frequency readout using the
+ * midpoint between the two branches as decision level. Seeded from the noise
+ * config, so the same settings always give the same numbers.
+ */
+export const estimateErrorRates = (
+  model: DeviceModel,
+  noise: NoiseConfig,
+  options: ErrorRateOptions = DEFAULT_ERROR_RATE_OPTIONS
+): ErrorRateResult => {
+  const rng = createRng(noise.seed);
+  const stepOptions = { noise: { ...noise, enabled: true }, rng };
+  const decisionLevel = (calculateFrequency(options.readVoltage, 'upper', model) + calculateFrequency(options.readVoltage, 'lower', model)) / 2;
+  const upperIsHigher = calculateFrequency(options.readVoltage, 'upper', model) > decisionLevel;
+
+  let writeErrors = 0;
+  let disturbErrors = 0;
+  let readErrors = 0;
+
+  for (let i = 0; i < options.trials; i++) {
+    const start = rng.next() < 0.5 ? 1 : 0;
+    const target = rng.next() < 0.5 ? 1 : 0;
+
+    let state = createInitialState(model);
+    if (start === 1) state = { ...state, branch: 'upper' };
+
+    state = writeBit(state, target, model, stepOptions);
+    const written = state.branch === (target === 1 ? 'upper' : 'lower');
+    if (!written) writeErrors++;
+
+    for (let t = 0; t < options.holdTime; t += HOLD_STEP) {
+      state = stepSimulation(0, state, model, { ...stepOptions, dt: HOLD_STEP });
+    }
+    if (written && state.branch !== (target === 1 ? 'upper' : 'lower')) disturbErrors++;
+
+    state = stepSimulation(options.readVoltage, state, model, { ...stepOptions, dt: HOLD_STEP });
+    const readUpper = (state.frequency > decisionLevel) === upperIsHigher;
+    if (readUpper !== (state.branch === 'upper')) readErrors++;
+  }
+
+  return {
+    trials: options.trials,
+    writeErrors,
+    disturbErrors,
+    readErrors,
+    writeErrorRate: writeErrors / options.trials,
+    disturbErrorRate: disturbErrors / options.trials,
+    readErrorRate: readErrors / options.trials,
+  };
+};
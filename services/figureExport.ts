@@ -0,0 +1,264 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, MeasuredPoint, Observable, SimulationRun, SimulationState } from '../types';
+import { calculateObservable } from './physicsEngine';
+import { OBSERVABLE_UNITS } from './readout';
+import { DEFAULT_AXIS_RANGES, niceTicks, resolveAxis, tickDecimals } from './chartScale';
+
+export type FigureFormat = 'svg' | 'png';
+
+// Layout and styling of an exported figure; sizes are SVG px (= pt at 72 dpi)
+export interface FigureOptions {
+  width: number;
+  height: number;
+  fontFamily: string;
+  fontSize: number;
+  title: string;      // Empty = no title
+  xLabel: string;     // Empty = default label with units
+  yLabel: string;
+  legend: boolean;
+  thresholds: boolean; // Annotate the switching voltages and jump heights
+  trail: boolean;      // Include the recorded trajectory, if any
+  pngScale: number;    // PNG pixels per SVG px (3 ≈ 216 dpi)
+}
+
+export const DEFAULT_FIGURE_OPTIONS: FigureOptions = {
+  width: 480,
+  height: 360,
+  fontFamily: 'Helvetica, Arial, sans-serif',
+  fontSize: 12,
+  title: '',
+  xLabel: '',
+  yLabel: '',
+  legend: true,
+  thresholds: true,
+  trail: true,
+  pngScale: 3,
+};
+
+export const FIGURE_LIMITS = {
+  size: [120, 4000],
+  fontSize: [4, 72],
+  pngScale: [1, 8],
+} as const;
+
+// What a hysteresis figure shows; the same definition drives the UI export and the CLI
+export interface HysteresisFigure {
+  model: DeviceModel;
+  observable: Observable;
+  yDomain?: [number, number]; // Defaults to the chart's default axis range
+  trail?: SimulationState[];
+  measured?: MeasuredPoint[];
+}
+
+const CURVE_STEPS = 400;
+
+const COLORS = {
+  upper: '#dc2626',
+  lower: '#2563eb',
+  trail: '#4f46e5',
+  measured: '#475569',
+  axis: '#0f172a',
+  grid: '#e2e8f0',
+  annotation: '#64748b',
+};
+
+const OBSERVABLE_NAMES: Record<Observable, string> = { amplitude: 'Amplitude', frequency: 'Frequency' };
+
+export const validateFigureOptions = (options: FigureOptions): string[] => {
+  const errors: string[] = [];
+  const inRange = (value: number, [min, max]: readonly [number, number]) => Number.isFinite(value) && value >= min && value <= max;
+  if (!inRange(options.width, FIGURE_LIMITS.size) || !inRange(options.height, FIGURE_LIMITS.size)) {
+    errors.push(`Width and height must be between ${FIGURE_LIMITS.size[0]} and ${FIGURE_LIMITS.size[1]} px.`);
+  }
+  if (!inRange(options.fontSize, FIGURE_LIMITS.fontSize)) {
+    errors.push(`Font size must be between ${FIGURE_LIMITS.fontSize[0]} and ${FIGURE_LIMITS.fontSize[1]} px.`);
+  }
+  if (!inRange(options.pngScale, FIGURE_LIMITS.pngScale)) {
+    errors.push(`PNG scale must be between ${FIGURE_LIMITS.pngScale[0]} and ${FIGURE_LIMITS.pngScale[1]}.`);
+  }
+  if (options.fontFamily.trim() === '') errors.push('Font family is required.');
+  return errors;
+};
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const num = (n: number) => Number(n.toFixed(2));
+
+/**
+ * Hysteresis figure for one bit of a saved run: the run's model and the
+ * recorded trajectory of that bit.
+ */
+export const figureFromRun = (run: SimulationRun, bit: number, observable: Observable): HysteresisFigure => ({
+  model: run.model,
+  observable,
+  trail: (run.bits[bit] ?? []).map(s => s.state),
+});
+
+/**
+ * Renders a hysteresis figure as a standalone SVG document: both branches,
+ * optional trajectory and measured data, labelled axes with units, legend and
+ * threshold annotations. Pure string building, so it runs in the browser and
+ * in Node alike.
+ */
+export const renderHysteresisSVG = (
+  figure: HysteresisFigure,
+  options: FigureOptions = DEFAULT_FIGURE_OPTIONS
+): string => {
+  const { model = DEFAULT_DEVICE_MODEL, observable } = figure;
+  const { width, height, fontSize } = options;
+  const unit = OBSERVABLE_UNITS[observable];
+  const yDomain = figure.yDomain ?? resolveAxis(DEFAULT_AXIS_RANGES[observable], observable, model);
+  const xDomain: [number, number] = [CONSTANTS.VOLTAGE_MIN, CONSTANTS.VOLTAGE_MAX];
+  const valueAt = (v: number, branch: 'upper' | 'lower') => calculateObservable(v, branch, observable, model);
+
+  // Margins grow with the font so labels never overlap the plot
+  const pad = {
+    top: options.title ? fontSize * 2.4 : fontSize,
+    right: fontSize * 1.5,
+    bottom: fontSize * 3.4,
+    left: fontSize * 4.6,
+  };
+  const innerWidth = width - pad.left - pad.right;
+  const innerHeight = height - pad.top - pad.bottom;
+  const x = (v: number) => num(pad.left + ((v - xDomain[0]) / (xDomain[1] - xDomain[0])) * innerWidth);
+  const y = (v: number) => num(pad.top + innerHeight - ((v - yDomain[0]) / (yDomain[1] - yDomain[0])) * innerHeight);
+  const small = num(fontSize * 0.85);
+
+  const text = (tx: number, ty: number, content: string, attrs = '') =>
+    `<text x="${num(tx)}" y="${num(ty)}"${attrs}>${escapeXML(content)}</text>`;
+  const polyline = (points: [number, number][]) =>
+    points.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${px},${py}`).join(' ');
+
+  const curve = (branch: 'upper' | 'lower') =>
+    polyline(Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+      const v = xDomain[0] + (i / CURVE_STEPS) * (xDomain[1] - xDomain[0]);
+      return [x(v), y(valueAt(v, branch))];
+    }));
+
+  const xTicks = niceTicks(xDomain[0], xDomain[1], 6);
+  const yTicks = niceTicks(yDomain[0], yDomain[1], 5);
+  const xDecimals = tickDecimals(xTicks);
+  const yDecimals = tickDecimals(yTicks);
+  const bottom = pad.top + innerHeight;
+  const tick = fontSize * 0.4;
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+  parts.push(`<clipPath id="plot"><rect x="${num(pad.left)}" y="${num(pad.top)}" width="${num(innerWidth)}" height="${num(innerHeight)}"/></clipPath>`);
+
+  // Grid and ticks
+  parts.push(`<g stroke="${COLORS.grid}" stroke-width="0.75">`);
+  xTicks.forEach(t => parts.push(`<line x1="${x(t)}" y1="${num(pad.top)}" x2="${x(t)}" y2="${num(bottom)}"/>`));
+  yTicks.forEach(t => parts.push(`<line x1="${num(pad.left)}" y1="${y(t)}" x2="${num(pad.left + innerWidth)}" y2="${y(t)}"/>`));
+  parts.push('</g>');
+  parts.push(`<g stroke="${COLORS.axis}" stroke-width="1">`);
+  xTicks.forEach(t => parts.push(`<line x1="${x(t)}" y1="${num(bottom)}" x2="${x(t)}" y2="${num(bottom + tick)}"/>`));
+  yTicks.forEach(t => parts.push(`<line x1="${num(pad.left - tick)}" y1="${y(t)}" x2="${num(pad.left)}" y2="${y(t)}"/>`));
+  parts.push(`<rect x="${num(pad.left)}" y="${num(pad.top)}" width="${num(innerWidth)}" height="${num(innerHeight)}" fill="none"/>`);
+  parts.push('</g>');
+
+  // Tick labels and axis titles
+  parts.push(`<g fill="${COLORS.axis}">`);
+  xTicks.forEach(t => parts.push(text(x(t), bottom + tick + fontSize, t.toFixed(xDecimals), ' text-anchor="middle"')));
+  yTicks.forEach(t => parts.push(text(pad.left - tick - 3, y(t) + fontSize * 0.35, t.toFixed(yDecimals), ' text-anchor="end"')));
+  parts.push(text(pad.left + innerWidth / 2, height - fontSize * 0.6, options.xLabel || 'Bias voltage (V)', ' text-anchor="middle"'));
+  const yLabelX = fontSize * 1.1;
+  const yLabelY = pad.top + innerHeight / 2;
+  parts.push(text(yLabelX, yLabelY, options.yLabel || `${OBSERVABLE_NAMES[observable]} (${unit})`,
+    ` text-anchor="middle" transform="rotate(-90 ${num(yLabelX)} ${num(yLabelY)})"`));
+  if (options.title) {
+    parts.push(text(pad.left + innerWidth / 2, fontSize * 1.5, options.title, ` text-anchor="middle" font-weight="bold" font-size="${num(fontSize * 1.15)}"`));
+  }
+  parts.push('</g>');
+
+  // Data
+  parts.push('<g clip-path="url(#plot)" fill="none" stroke-linejoin="round">');
+  parts.push(`<path d="${curve('upper')}" stroke="${COLORS.upper}" stroke-width="2"/>`);
+  parts.push(`<path d="${curve('lower')}" stroke="${COLORS.lower}" stroke-width="2"/>`);
+  const trail = options.trail ? figure.trail ?? [] : [];
+  if (trail.length > 1) {
+    parts.push(`<path d="${polyline(trail.map(s => [x(s.voltage), y(s[observable])]))}" stroke="${COLORS.trail}" stroke-width="1" opacity="0.8"/>`);
+  }
+  const measured = (figure.measured ?? []).filter(p => p[observable] !== undefined);
+  measured.forEach(p => {
+    const color = p.branch === 'upper' ? COLORS.upper : p.branch === 'lower' ? COLORS.lower : COLORS.measured;
+    parts.push(`<circle cx="${x(p.voltage)}" cy="${y(p[observable]!)}" r="2.5" stroke="${color}" stroke-width="1"/>`);
+  });
+  parts.push('</g>');
+
+  if (options.thresholds) {
+    const jumps = [
+      { voltage: model.THRESHOLD_UP, from: valueAt(model.THRESHOLD_UP, 'lower'), to: valueAt(model.THRESHOLD_UP, 'upper') },
+      { voltage: model.THRESHOLD_DOWN, from: valueAt(model.THRESHOLD_DOWN, 'upper'), to: valueAt(model.THRESHOLD_DOWN, 'lower') },
+    ];
+    parts.push(`<g fill="${COLORS.annotation}" font-size="${small}">`);
+    jumps.forEach(j => {
+      const delta = j.to - j.from;
+      parts.push(`<line x1="${x(j.voltage)}" y1="${y(j.from)}" x2="${x(j.voltage)}" y2="${y(j.to)}" stroke="${COLORS.annotation}" stroke-width="1" stroke-dasharray="4 3"/>`);
+      // Label on the outer side of the jump so it stays clear of the loop interior
+      const outside = j.voltage > 0;
+      parts.push(text(x(j.voltage) + (outside ? 4 : -4), (y(j.from) + y(j.to)) / 2,
+        `${j.voltage.toFixed(2)} V`, ` text-anchor="${outside ? 'start' : 'end'}"`));
+      parts.push(text(x(j.voltage) + (outside ? 4 : -4), (y(j.from) + y(j.to)) / 2 + small * 1.2,
+        `Δ ${delta >= 0 ? '+' : ''}${delta.toFixed(observable === 'frequency' ? 3 : 2)} ${unit}`, ` text-anchor="${outside ? 'start' : 'end'}"`));
+    });
+    parts.push('</g>');
+  }
+
+  if (options.legend) {
+    const entries = [
+      { label: 'Upper branch (1)', color: COLORS.upper, marker: false },
+      { label: 'Lower branch (0)', color: COLORS.lower, marker: false },
+      ...(trail.length > 1 ? [{ label: 'Trajectory', color: COLORS.trail, marker: false }] : []),
+      ...(measured.length > 0 ? [{ label: 'Measured', color: COLORS.measured, marker: true }] : []),
+    ];
+    const row = small * 1.4;
+    const swatch = small * 1.8;
+    const boxWidth = swatch + small * 0.6 * Math.max(...entries.map(e => e.label.length)) + small * 1.2;
+    const lx = pad.left + 6;
+    const ly = pad.top + 6;
+    parts.push(`<g font-size="${small}">`);
+    parts.push(`<rect x="${num(lx)}" y="${num(ly)}" width="${num(boxWidth)}" height="${num(row * entries.length + small * 0.6)}" fill="#ffffff" fill-opacity="0.85" stroke="${COLORS.grid}"/>`);
+    entries.forEach((e, i) => {
+      const cy = ly + small * 0.3 + row * (i + 0.5);
+      parts.push(e.marker
+        ? `<circle cx="${num(lx + small * 0.4 + swatch / 2)}" cy="${num(cy)}" r="2.5" fill="none" stroke="${e.color}"/>`
+        : `<line x1="${num(lx + small * 0.4)}" y1="${num(cy)}" x2="${num(lx + small * 0.4 + swatch)}" y2="${num(cy)}" stroke="${e.color}" stroke-width="2"/>`);
+      parts.push(text(lx + small * 0.8 + swatch, cy + small * 0.35, e.label, ` fill="${COLORS.axis}"`));
+    });
+    parts.push('</g>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXML(options.fontFamily)}" font-size="${fontSize}">`,
+    ...parts,
+    '</svg>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Rasterizes an exported SVG in the browser at `scale` times its size.
+ */
+export const svgToPNG = (svg: string, width: number, height: number, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) return reject(new Error('Canvas is not available'));
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the SVG'));
+    };
+    image.src = url;
+  });
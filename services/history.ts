@@ -0,0 +1,120 @@
+import { HistorySample, SimulationState } from '../types';
+
+// ~60s of samples at the app's 120 Hz clock per bit
+export const HISTORY_CAPACITY = 7200;
+
+/**
+ * Fixed-size FIFO. Mutated in place so the animation loop can append every
+ * frame without copying; readers take a snapshot with toArray().
+ */
+export interface RingBuffer<T> {
+  items: (T | undefined)[];
+  start: number;
+  size: number;
+}
+
+export const createRingBuffer = <T>(capacity: number): RingBuffer<T> => ({
+  items: new Array(capacity),
+  start: 0,
+  size: 0,
+});
+
+export const pushRingBuffer = <T>(buffer: RingBuffer<T>, item: T): void => {
+  const capacity = buffer.items.length;
+  if (buffer.size < capacity) {
+    buffer.items[(buffer.start + buffer.size) % capacity] = item;
+    buffer.size++;
+  } else {
+    // Full: overwrite the oldest entry
+    buffer.items[buffer.start] = item;
+    buffer.start = (buffer.start + 1) % capacity;
+  }
+};
+
+export const clearRingBuffer = <T>(buffer: RingBuffer<T>): void => {
+  buffer.items.fill(undefined);
+  buffer.start = 0;
+  buffer.size = 0;
+};
+
+/**
+ * Removes the newest `count` entries (rewinding).
+ */
+export const dropNewest = <T>(buffer: RingBuffer<T>, count: number): void => {
+  const n = Math.max(0, Math.min(count, buffer.size));
+  for (let i = buffer.size - n; i < buffer.size; i++) {
+    buffer.items[(buffer.start + i) % buffer.items.length] = undefined;
+  }
+  buffer.size -= n;
+};
+
+/**
+ * Entry `index` counted from the oldest.
+ */
+export const itemAt = <T>(buffer: RingBuffer<T>, index: number): T | undefined =>
+  index >= 0 && index < buffer.size ? buffer.items[(buffer.start + index) % buffer.items.length] : undefined;
+
+/**
+ * Returns the newest `count` entries (all if omitted), oldest first.
+ */
+export const toArray = <T>(buffer: RingBuffer<T>, count = buffer.size): T[] => {
+  const capacity = buffer.items.length;
+  const n = Math.min(count, buffer.size);
+  const result: T[] = [];
+  for (let i = buffer.size - n; i < buffer.size; i++) {
+    result.push(buffer.items[(buffer.start + i) % capacity] as T);
+  }
+  return result;
+};
+
+/**
+ * Newest `count` states of one bit, oldest first (for chart trails).
+ */
+export const recentStates = (buffer: RingBuffer<HistorySample>, count: number): SimulationState[] =>
+  toArray(buffer, count).map(sample => sample.state);
+
+export type RegisterHistory = RingBuffer<HistorySample>[];
+
+export const createRegisterHistory = (bitCount: number, capacity = HISTORY_CAPACITY): RegisterHistory =>
+  Array(bitCount).fill(null).map(() => createRingBuffer<HistorySample>(capacity));
+
+/**
+ * Appends one sample per bit. Consecutive identical states are skipped so a
+ * paused register does not flood the buffer.
+ */
+export const recordRegister = (history: RegisterHistory, time: number, bits: SimulationState[]): void => {
+  bits.forEach((state, i) => {
+    const buffer = history[i];
+    if (!buffer) return;
+    const [last] = toArray(buffer, 1);
+    if (last && last.state === state) return;
+    pushRingBuffer(buffer, { time, state });
+  });
+};
+
+/**
+ * Keeps the newest bits' histories aligned with resizeRegister (index 0 = MSB).
+ */
+export const resizeRegisterHistory = (history: RegisterHistory, bitCount: number): RegisterHistory => {
+  if (bitCount <= history.length) return history.slice(history.length - bitCount);
+  return [...createRegisterHistory(bitCount - history.length), ...history];
+};
+
+/**
+ * Latest sample at or before time t (binary search over a time-sorted list).
+ */
+export const sampleAt = (samples: HistorySample[], t: number): HistorySample | undefined => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found: HistorySample | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].time <= t) {
+      found = samples[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEVICE_MODEL } from '../types';
+import { readBits } from './memoryRegister';
+import { LOGIC_GATES, gateDefinition, gateTruthTable, runGateStep, stepVoltage, validateGate, validateOperands } from './logicGates';
+import { evenLevels, multiLevelModel } from './multiLevel';
+import { createSimulation } from './simulationCore';
+
+const model = DEFAULT_DEVICE_MODEL;
+
+describe('logic gates', () => {
+  it.each(LOGIC_GATES.map(g => [g.gate, g] as const))('%s matches its truth table without touching the inputs', (_, definition) => {
+    const table = gateTruthTable(definition, model);
+    expect(table).toHaveLength(Math.pow(2, definition.inputs));
+    table.forEach(row => {
+      expect(row.result).toBe(row.expected);
+      expect(row.disturbed).toBe(false);
+    });
+  });
+
+  it('puts the conditional pulses either side of the up threshold', () => {
+    const [imply] = gateDefinition('IMPLY').steps(model);
+    expect(stepVoltage(imply, [0, 0])).toBeGreaterThan(model.THRESHOLD_UP);
+    expect(stepVoltage(imply, [1, 0])).toBeLessThan(model.THRESHOLD_UP);
+    expect(stepVoltage(imply, [1, 0])).toBeGreaterThan(model.THRESHOLD_DOWN);
+
+    const [, majority] = gateDefinition('MAJ').steps(model);
+    expect(stepVoltage(majority, [1, 0, 0, 0])).toBeLessThan(model.THRESHOLD_UP);
+    expect(stepVoltage(majority, [1, 1, 0, 0])).toBeGreaterThan(model.THRESHOLD_UP);
+  });
+
+  it('runs on any bits of a register and logs the switch of the result bit', () => {
+    const sim = createSimulation({ bitCount: 4 });
+    sim.writeBit(3, 0); // p = 0 on bit #3, q = 0 on bit #1
+    const { events } = runGateStep(sim, gateDefinition('IMPLY').steps(model)[0], [3, 1]);
+    expect(readBits(sim.getBits())).toEqual([0, 1, 0, 0]);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ bit: 1, from: 'lower', to: 'upper' });
+  });
+
+  it('senses the sources through the readout', () => {
+    const [imply] = gateDefinition('IMPLY').steps(model);
+    // A decision level below both branches reads the stored 0 of p as 1
+    const misread = { voltage: 0, observable: 'frequency' as const, threshold: 100 };
+    const sim = createSimulation({ bitCount: 2 });
+    const { sensed } = runGateStep(sim, imply, [0, 1], misread);
+    expect(sensed).toEqual([1, 0]);
+    expect(readBits(sim.getBits())).toEqual([0, 0]);
+    expect(gateTruthTable(gateDefinition('IMPLY'), model, undefined, undefined, misread).some(row => row.result !== row.expected)).toBe(true);
+  });
+
+  it('needs a two-branch model and one distinct bit per operand', () => {
+    const nand = gateDefinition('NAND');
+    expect(validateGate(nand, model)).toEqual([]);
+    expect(validateGate(nand, multiLevelModel(evenLevels(3)))).toHaveLength(1);
+    expect(validateOperands(nand, [0, 1, 2], 4)).toEqual([]);
+    expect(validateOperands(nand, [0, 1, 1], 4)).toHaveLength(1);
+    expect(validateOperands(nand, [0], 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, DynamicsConfig, LogicGate, NoiseConfig, SwitchingEvent } from '../types';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE } from './physicsEngine';
+import { WRITE_PULSE_VOLTAGE, readBits, wordToBits } from './memoryRegister';
+import { DEFAULT_READ_CONFIG, ReadConfig } from './readout';
+import { Simulation, createSimulation } from './simulationCore';
+
+/**
+ * One pulse of a gate. The sources share the target's drive line and a source
+ * storing 1 (upper branch) shifts the drive the target sees, as in memristive
+ * stateful logic: the target gets bias + weight * (sources at 1) and switches
+ * only if that passes its threshold.
+ */
+export interface GateStep {
+  label: string;
+  target: number;    // Operand index
+  sources: number[]; // Operand indices
+  bias: number;      // V with every source at 0
+  weight: number;    // V per source at 1 (negative: a 1 holds the target back)
+}
+
+export interface GateDefinition {
+  gate: LogicGate;
+  label: string;
+  operands: string[]; // Bit names; the last one holds the result
+  inputs: number;     // Leading operands that are inputs (IMPLY also reads its result bit)
+  evaluate: (inputs: (0 | 1)[]) => 0 | 1;
+  steps: (model: DeviceModel) => GateStep[];
+}
+
+// Unconditional reset of the result bit (a full negative write pulse)
+const falseStep = (target: number, name: string): GateStep => ({
+  label: `${name} ← 0`,
+  target,
+  sources: [],
+  bias: -WRITE_PULSE_VOLTAGE,
+  weight: 0,
+});
+
+// Room above the up threshold that the conditional pulses are spread over
+const headroom = (model: DeviceModel) => CONSTANTS.VOLTAGE_MAX - model.THRESHOLD_UP;
+
+/**
+ * Sets the target iff at least `count` sources store 1. The pulses sit half a
+ * weight either side of the up threshold, the largest at VOLTAGE_MAX.
+ */
+const atLeastStep = (label: string, target: number, sources: number[], count: number, model: DeviceModel): GateStep => {
+  const weight = headroom(model) / (sources.length - count + 0.5);
+  return { label, target, sources, bias: model.THRESHOLD_UP - (count - 0.5) * weight, weight };
+};
+
+// Sets the target unless the source stores 1: target ← source IMPLY target
+const implyStep = (label: string, target: number, source: number, model: DeviceModel): GateStep => ({
+  label,
+  target,
+  sources: [source],
+  bias: CONSTANTS.VOLTAGE_MAX,
+  weight: -2 * headroom(model),
+});
+
+const ones = (values: (0 | 1)[]) => values.filter(v => v === 1).length;
+
+export const LOGIC_GATES: GateDefinition[] = [
+  {
+    gate: 'IMPLY',
+    label: 'p IMPLY q',
+    operands: ['p', 'q'],
+    inputs: 2,
+    evaluate: ([p, q]) => (p === 1 && q === 0 ? 0 : 1),
+    steps: model => [implyStep('q ← p IMPLY q', 1, 0, model)],
+  },
+  {
+    // Built from IMPLY alone, which makes IMPLY plus FALSE a complete logic
+    gate: 'NAND',
+    label: 'a NAND b',
+    operands: ['a', 'b', 's'],
+    inputs: 2,
+    evaluate: ([a, b]) => (a === 1 && b === 1 ? 0 : 1),
+    steps: model => [falseStep(2, 's'), implyStep('s ← a IMPLY s', 2, 0, model), implyStep('s ← b IMPLY s', 2, 1, model)],
+  },
+  {
+    gate: 'OR',
+    label: 'a OR b',
+    operands: ['a', 'b', 's'],
+    inputs: 2,
+    evaluate: inputs => (ones(inputs) >= 1 ? 1 : 0),
+    steps: model => [falseStep(2, 's'), atLeastStep('s ← a OR b', 2, [0, 1], 1, model)],
+  },
+  {
+    gate: 'MAJ',
+    label: 'MAJ(a, b, c)',
+    operands: ['a', 'b', 'c', 's'],
+    inputs: 3,
+    evaluate: inputs => (ones(inputs) >= 2 ? 1 : 0),
+    steps: model => [falseStep(3, 's'), atLeastStep('s ← MAJ(a, b, c)', 3, [0, 1, 2], 2, model)],
+  },
+];
+
+export const gateDefinition = (gate: LogicGate): GateDefinition =>
+  LOGIC_GATES.find(g => g.gate === gate) ?? LOGIC_GATES[0];
+
+// Pulse height of a step given the stored value of every operand
+export const stepVoltage = (step: GateStep, values: (0 | 1)[]): number =>
+  step.bias + step.weight * ones(step.sources.map(i => values[i]));
+
+/**
+ * Smallest distance (V) between any pulse of the step and the threshold that
+ * decides it; noise larger than this can give a wrong result.
+ */
+export const stepMargin = (step: GateStep, model: DeviceModel = DEFAULT_DEVICE_MODEL): number =>
+  step.sources.length === 0 ? model.THRESHOLD_DOWN - step.bias : Math.abs(step.weight) / 2;
+
+/**
+ * Checks that the model can run the gate. Returns human-readable problems (empty if valid).
+ */
+export const validateGate = (definition: GateDefinition, model: DeviceModel = DEFAULT_DEVICE_MODEL): string[] => {
+  if (model.levels) return ['Logic gates need a two-branch model (each bit holds 0 or 1).'];
+  if (headroom(model) <= 0) return [`The up threshold must lie below ${CONSTANTS.VOLTAGE_MAX}V to leave room for the conditional pulses.`];
+  const errors: string[] = [];
+  definition.steps(model).forEach(step => {
+    // The lowest conditional pulse must not reset a result bit that already holds 1
+    const lowest = step.bias + Math.min(0, step.weight * step.sources.length);
+    if (step.sources.length > 0 && lowest <= model.THRESHOLD_DOWN) {
+      errors.push(`Step "${step.label}" would pulse to ${lowest.toFixed(2)}V, past the down threshold.`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Checks the register bits assigned to the operands: one distinct bit each.
+ */
+export const validateOperands = (definition: GateDefinition, bits: number[], bitCount: number): string[] => {
+  if (bitCount < definition.operands.length) {
+    return [`${definition.gate} needs a register of at least ${definition.operands.length} bits.`];
+  }
+  if (bits.length !== definition.operands.length || bits.some(b => !Number.isInteger(b) || b < 0 || b >= bitCount)) {
+    return ['Assign a register bit to every operand.'];
+  }
+  return new Set(bits).size === bits.length ? [] : ['Each operand needs its own bit.'];
+};
+
+export interface GateStepResult {
+  voltage: number;
+  sensed: (0 | 1)[];         // Operand values the sources were read as (0 for operands not read)
+  events: SwitchingEvent[];  // Switches of the read and the pulse
+}
+
+/**
+ * Runs one step on the register: reads the register at the read bias, then
+ * pulses the target with the drive the sensed sources set. The read goes
+ * through the readout, so readout noise and read disturbs reach the gate.
+ * `bits` maps each operand to its register bit.
+ */
+export const runGateStep = (
+  sim: Simulation,
+  step: GateStep,
+  bits: number[],
+  readConfig: ReadConfig = DEFAULT_READ_CONFIG
+): GateStepResult => {
+  const before = sim.getEventCount();
+  const reads = step.sources.length > 0 ? sim.read(readConfig) : [];
+  const sensed = bits.map((bit, i) => (step.sources.includes(i) && reads[bit]?.value === 1 ? 1 : 0));
+  const voltage = stepVoltage(step, sensed);
+  sim.pulse(bits[step.target], voltage);
+  return { voltage, sensed, events: sim.getEvents(sim.getEventCount() - before) };
+};
+
+export interface TruthTableRow {
+  inputs: (0 | 1)[];
+  expected: 0 | 1;
+  result: 0 | 1;
+  voltages: number[]; // Pulse of each step
+  disturbed: boolean; // An input bit changed
+}
+
+/**
+ * Runs the gate on a fresh register for every input combination, with the
+ * given noise, dynamics and read settings, and records what the result bit
+ * ends up holding.
+ */
+export const gateTruthTable = (
+  definition: GateDefinition,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise: NoiseConfig = DEFAULT_NOISE,
+  dynamics: DynamicsConfig = DEFAULT_DYNAMICS,
+  readConfig: ReadConfig = DEFAULT_READ_CONFIG
+): TruthTableRow[] => {
+  const steps = definition.steps(model);
+  const bits = definition.operands.map((_, i) => i);
+  const output = bits.length - 1;
+
+  return Array.from({ length: Math.pow(2, definition.inputs) }, (_, row) => {
+    const inputs = wordToBits(row, definition.inputs);
+    const sim = createSimulation({ bitCount: bits.length, model, noise, dynamics });
+    // A stale 1 in a result bit that is not an input, so clearing it is part of the test
+    bits.forEach(i => sim.writeBit(i, i < inputs.length ? inputs[i] : 1));
+
+    const voltages = steps.map(step => runGateStep(sim, step, bits, readConfig).voltage);
+    const stored = readBits(sim.getBits());
+    return {
+      inputs,
+      expected: definition.evaluate(inputs),
+      result: stored[output],
+      voltages,
+      disturbed: inputs.some((value, i) => i !== output && stored[i] !== value),
+    };
+  });
+};
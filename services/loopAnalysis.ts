@@ -0,0 +1,209 @@
+import { DEFAULT_DEVICE_MODEL, DeviceModel, DynamicsConfig, Observable, SimulationState, WaveformConfig, WaveformKind } from '../types';
+import { DEFAULT_DYNAMICS, calculateAmplitude, calculateFrequency } from './physicsEngine';
+import { createSimulation } from './simulationCore';
+
+// Samples recorded over the analyzed period, and the common voltage grid the
+// rising and falling halves are compared on
+const SAMPLES_PER_PERIOD = 720;
+const GRID_STEPS = 400;
+
+// Differences below this fraction of the largest one count as "branches coincide"
+const COINCIDENT = 1e-6;
+
+// Drive speeds of the area-vs-frequency scan (multiples of the waveform's own rate)
+export const LOOP_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+// Shapes that sweep the voltage up and back down once per period
+export const LOOP_WAVEFORM_KINDS: WaveformKind[] = ['sine', 'triangle'];
+
+export interface LoopLobe {
+  from: number; // V
+  to: number;   // V
+  area: number; // V·mV or V·kHz; positive = counter-clockwise (returns above the way out)
+}
+
+export interface LoopAnalysis {
+  observable: Observable;
+  lobes: LoopLobe[];
+  totalArea: number;                                  // Sum of |lobe area|
+  pinchPoints: { voltage: number; value: number }[];  // Where the way out and the way back cross
+  pinched: boolean;
+}
+
+export interface JumpHeight {
+  threshold: 'up' | 'down';
+  voltage: number;
+  amplitude: number; // mV, new branch − old branch
+  frequency: number; // kHz
+}
+
+export interface LoopAreaPoint {
+  speed: number;
+  frequency: number; // Drive frequency (Hz of clock time)
+  area: number;
+  lobes: number;
+}
+
+type TracePoint = { voltage: number; value: number };
+
+/**
+ * One period of the steady-state loop for a periodic drive at the given speed,
+ * after one period of warm-up so the start-up transient is not included.
+ */
+export const traceLoop = (
+  waveform: WaveformConfig,
+  speed: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  dynamics: DynamicsConfig = DEFAULT_DYNAMICS
+): SimulationState[] => {
+  const sim = createSimulation({ bitCount: 1, model, dynamics, waveform, speed, historyCapacity: 2 });
+  const dt = waveform.period / speed / SAMPLES_PER_PERIOD;
+  for (let i = 0; i < SAMPLES_PER_PERIOD; i++) sim.advance(dt);
+
+  const states = [sim.getBits()[0]];
+  for (let i = 0; i < SAMPLES_PER_PERIOD; i++) {
+    sim.advance(dt);
+    states.push(sim.getBits()[0]);
+  }
+  return states;
+};
+
+// Piecewise-linear y(V) through points sorted by voltage
+const interpolate = (points: TracePoint[], voltage: number): number => {
+  let i = 1;
+  while (i < points.length - 1 && points[i].voltage < voltage) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  const f = b.voltage > a.voltage ? (voltage - a.voltage) / (b.voltage - a.voltage) : 1;
+  return a.value + Math.min(1, Math.max(0, f)) * (b.value - a.value);
+};
+
+/**
+ * Splits a loop into its way out (voltage rising) and way back (falling) and
+ * integrates the difference between them over their common voltage range.
+ * Sign changes of the difference are pinch points; the stretches between
+ * them are the lobes.
+ */
+export const analyzeLoop = (trace: SimulationState[], observable: Observable): LoopAnalysis => {
+  const rising: TracePoint[] = [];
+  const falling: TracePoint[] = [];
+  for (let i = 0; i + 1 < trace.length; i++) {
+    const a = trace[i];
+    const b = trace[i + 1];
+    if (b.voltage === a.voltage) continue;
+    const half = b.voltage > a.voltage ? rising : falling;
+    half.push({ voltage: a.voltage, value: a[observable] }, { voltage: b.voltage, value: b[observable] });
+  }
+
+  const empty: LoopAnalysis = { observable, lobes: [], totalArea: 0, pinchPoints: [], pinched: false };
+  if (rising.length === 0 || falling.length === 0) return empty;
+  // Stable sort keeps the pre-jump sample ahead of the post-jump one at equal voltages
+  rising.sort((a, b) => a.voltage - b.voltage);
+  falling.sort((a, b) => a.voltage - b.voltage);
+
+  const lo = Math.max(rising[0].voltage, falling[0].voltage);
+  const hi = Math.min(rising[rising.length - 1].voltage, falling[falling.length - 1].voltage);
+  if (hi <= lo) return empty;
+
+  const grid = Array.from({ length: GRID_STEPS + 1 }, (_, i) => {
+    const voltage = lo + (i / GRID_STEPS) * (hi - lo);
+    const out = interpolate(rising, voltage);
+    return { voltage, out, diff: interpolate(falling, voltage) - out };
+  });
+  const tolerance = COINCIDENT * Math.max(...grid.map(g => Math.abs(g.diff)));
+  const signOf = (diff: number) => (Math.abs(diff) > tolerance ? Math.sign(diff) : 0);
+
+  const lobes: LoopLobe[] = [];
+  const pinchPoints: LoopAnalysis['pinchPoints'] = [];
+  let lobe: LoopLobe | null = null;
+  let sign = 0; // Of the open lobe
+
+  const close = () => {
+    if (lobe) lobes.push(lobe);
+    lobe = null;
+    sign = 0;
+  };
+
+  for (let i = 0; i + 1 < grid.length; i++) {
+    const a = grid[i];
+    const b = grid[i + 1];
+    const width = b.voltage - a.voltage;
+    const sa = signOf(a.diff);
+    const sb = signOf(b.diff);
+
+    if (sa !== 0 && sb !== 0 && sa !== sb) {
+      // The halves cross inside this step: close the lobe at the crossing
+      const f = a.diff / (a.diff - b.diff);
+      const voltage = a.voltage + f * width;
+      if (lobe) {
+        lobe.area += (a.diff * f * width) / 2;
+        lobe.to = voltage;
+      }
+      close();
+      pinchPoints.push({ voltage, value: a.out + f * (b.out - a.out) });
+      lobe = { from: voltage, to: b.voltage, area: (b.diff * (1 - f) * width) / 2 };
+      sign = sb;
+      continue;
+    }
+
+    if (sa === 0 && sb === 0) {
+      close();
+      continue;
+    }
+    // The halves meet exactly on a grid point and part the other way
+    if (sa === 0 && lobe && sign !== sb) {
+      close();
+      pinchPoints.push({ voltage: a.voltage, value: a.out });
+    }
+    if (!lobe) {
+      lobe = { from: a.voltage, to: b.voltage, area: 0 };
+      sign = sa || sb;
+    }
+    lobe.area += ((a.diff + b.diff) / 2) * width;
+    lobe.to = b.voltage;
+  }
+  close();
+
+  const significant = lobes.filter(l => Math.abs(l.area) > 0);
+  return {
+    observable,
+    lobes: significant,
+    totalArea: significant.reduce((sum, l) => sum + Math.abs(l.area), 0),
+    pinchPoints,
+    pinched: pinchPoints.length > 0,
+  };
+};
+
+/**
+ * Height of the branch jump at each threshold (new branch − old branch).
+ */
+export const jumpHeights = (model: DeviceModel = DEFAULT_DEVICE_MODEL): JumpHeight[] => [
+  {
+    threshold: 'up',
+    voltage: model.THRESHOLD_UP,
+    amplitude: calculateAmplitude(model.THRESHOLD_UP, 'upper', model) - calculateAmplitude(model.THRESHOLD_UP, 'lower', model),
+    frequency: calculateFrequency(model.THRESHOLD_UP, 'upper', model) - calculateFrequency(model.THRESHOLD_UP, 'lower', model),
+  },
+  {
+    threshold: 'down',
+    voltage: model.THRESHOLD_DOWN,
+    amplitude: calculateAmplitude(model.THRESHOLD_DOWN, 'lower', model) - calculateAmplitude(model.THRESHOLD_DOWN, 'upper', model),
+    frequency: calculateFrequency(model.THRESHOLD_DOWN, 'lower', model) - calculateFrequency(model.THRESHOLD_DOWN, 'upper', model),
+  },
+];
+
+/**
+ * Total loop area at each drive speed, for the area-vs-frequency plot. Flat
+ * unless dynamics are enabled: the threshold model is rate-independent.
+ */
+export const loopAreaVsSpeed = (
+  waveform: WaveformConfig,
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  dynamics: DynamicsConfig = DEFAULT_DYNAMICS,
+  speeds: number[] = LOOP_SPEEDS
+): LoopAreaPoint[] =>
+  speeds.map(speed => {
+    const analysis = analyzeLoop(traceLoop(waveform, speed, model, dynamics), observable);
+    return { speed, frequency: speed / waveform.period, area: analysis.totalArea, lobes: analysis.lobes.length };
+  });
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, SimulationState } from '../types';
+import { calculateAmplitude, calculateFrequency } from './physicsEngine';
+import {
+  REGISTER_SIZES,
+  createRegister,
+  formatWord,
+  maxWordValue,
+  parseWord,
+  readBits,
+  readWord,
+  resizeRegister,
+  wordToBits,
+  writeBit,
+  writeBitTrace,
+  writeWord,
+} from './memoryRegister';
+import { createSimulation } from './simulationCore';
+
+const model = DEFAULT_DEVICE_MODEL;
+
+// Any state the deterministic model can leave a bit in: either branch, anywhere
+// in the voltage range short of the threshold that would have switched it
+const anyState = fc.record({
+  voltage: fc.double({ min: CONSTANTS.VOLTAGE_MIN, max: CONSTANTS.VOLTAGE_MAX, noNaN: true }),
+  branch: fc.constantFrom<'upper' | 'lower'>('upper', 'lower'),
+}).filter(({ voltage, branch }) =>
+  branch === 'lower' ? voltage < model.THRESHOLD_UP : voltage > model.THRESHOLD_DOWN
+).map(({ voltage, branch }): SimulationState => ({
+  voltage,
+  frequency: calculateFrequency(voltage, branch, model),
+  amplitude: calculateAmplitude(voltage, branch, model),
+  branch,
+  direction: 'stationary',
+}));
+
+const bitValue = fc.constantFrom<0 | 1>(0, 1);
+
+describe('writeBit', () => {
+  it('writing 1 always ends on the upper branch at 0V', () => {
+    fc.assert(fc.property(anyState, state => {
+      const written = writeBit(state, 1, model);
+      return written.branch === 'upper' && written.voltage === 0;
+    }));
+  });
+
+  it('writing 0 always ends on the lower branch at 0V', () => {
+    fc.assert(fc.property(anyState, state => {
+      const written = writeBit(state, 0, model);
+      return written.branch === 'lower' && written.voltage === 0;
+    }));
+  });
+
+  it('switches during the pulse, not on the return to 0V', () => {
+    const [peak, settled] = writeBitTrace(createRegister(1, model)[0], 1, model);
+    expect(peak.voltage).toBeGreaterThanOrEqual(model.THRESHOLD_UP);
+    expect(peak.branch).toBe('upper');
+    expect(settled.branch).toBe('upper');
+  });
+
+  it('reads back what was written', () => {
+    fc.assert(fc.property(anyState, bitValue, (state, value) => readBits([writeBit(state, value, model)])[0] === value));
+  });
+});
+
+describe('word encoding', () => {
+  it('reads the upper branch as 1 and the lower branch as 0', () => {
+    const [lower, upper] = [createRegister(1, model)[0], writeBit(createRegister(1, model)[0], 1, model)];
+    expect(readBits([upper, lower])).toEqual([1, 0]);
+  });
+
+  it('puts the most significant bit at index 0', () => {
+    expect(wordToBits(0b1000, 4)).toEqual([1, 0, 0, 0]);
+    expect(readWord(writeWord(createRegister(4, model), 0b0001, model))).toBe(1);
+    expect(readBits(writeWord(createRegister(4, model), 0b0001, model))).toEqual([0, 0, 0, 1]);
+  });
+
+  it('round-trips every word through the register', () => {
+    const sized = fc.constantFrom(...REGISTER_SIZES).chain(size =>
+      fc.tuple(fc.constant(size), fc.integer({ min: 0, max: maxWordValue(size) })));
+    fc.assert(fc.property(sized, ([size, value]) => readWord(writeWord(createRegister(size, model), value, model)) === value));
+  });
+
+  it('keeps the least significant bits when resizing', () => {
+    const bits = writeWord(createRegister(8, model), 0b10110101, model);
+    expect(readWord(resizeRegister(bits, 4, model))).toBe(0b0101);
+    expect(readWord(resizeRegister(bits, 16, model))).toBe(0b10110101);
+  });
+
+  it('parses and formats words in each radix', () => {
+    expect(parseWord('0b0101', 'bin', 4)).toBe(5);
+    expect(parseWord('ff', 'hex', 8)).toBe(255);
+    expect(parseWord('256', 'dec', 8)).toBeNull();
+    expect(parseWord('12', 'bin', 4)).toBeNull();
+    // Only the selected format's prefix is stripped
+    expect(parseWord('0xff', 'hex', 8)).toBe(255);
+    expect(parseWord('0b12', 'hex', 12)).toBe(0xb12);
+    expect(parseWord('0x10', 'dec', 8)).toBeNull();
+    expect(parseWord('0x1', 'bin', 4)).toBeNull();
+    expect(formatWord(5, 'bin', 4)).toBe('0101');
+  });
+});
+
+describe('simulation writes', () => {
+  it('writes single bits and words through the simulation core', () => {
+    const sim = createSimulation({ bitCount: 4 });
+    sim.writeBit(0, 1);
+    expect(readBits(sim.getBits())).toEqual([1, 0, 0, 0]);
+    const report = sim.writeWord(0b0110);
+    expect(readWord(sim.getBits())).toBe(0b0110);
+    expect(report.failed).toEqual([]);
+    expect(report.flipped).toEqual([]);
+  });
+
+  it('logs a switch to the upper branch when writing 1', () => {
+    const sim = createSimulation();
+    const { events } = sim.writeBit(0, 1);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ bit: 0, from: 'lower', to: 'upper' });
+  });
+});
@@ -0,0 +1,151 @@
+import { DEFAULT_DEVICE_MODEL, DeviceModel, SimulationState } from '../types';
+import { stepSimulation, createInitialState, StepOptions } from './physicsEngine';
+import { levelCount, levelOf } from './multiLevel';
+
+export type WordFormat = 'bin' | 'dec' | 'hex';
+
+// Register widths offered in the UI
+export const REGISTER_SIZES = [1, 4, 8, 16];
+
+// Pulse height used by write operations; must exceed both thresholds
+export const WRITE_PULSE_VOLTAGE = 1.5;
+
+// Pulse duration and settle time at 0V; only matter in the stochastic and dynamic modes
+export const WRITE_PULSE_WIDTH = 0.1;
+export const WRITE_SETTLE_TIME = 0.1;
+
+const RADIX: Record<WordFormat, number> = { bin: 2, dec: 10, hex: 16 };
+// Optional prefix of each format; another format's prefix is not stripped
+const PREFIX: Record<WordFormat, RegExp | null> = { bin: /^0b/i, dec: null, hex: /^0x/i };
+// 'bin' is one digit per cell, in the cell's radix (binary for two-branch cells)
+const digitPattern = (format: WordFormat, radix: number): RegExp => {
+  if (format === 'bin') return new RegExp(`^[0-${radix - 1}]+$`);
+  return format === 'dec' ? /^[0-9]+$/ : /^[0-9a-f]+$/i;
+};
+
+export const createRegister = (bitCount: number, model: DeviceModel = DEFAULT_DEVICE_MODEL): SimulationState[] =>
+  Array(bitCount).fill(null).map(() => createInitialState(model));
+
+/**
+ * Changes the register width while keeping the least significant bits.
+ * Index 0 is the most significant bit, so bits are added/dropped at the front.
+ */
+export const resizeRegister = (
+  bits: SimulationState[],
+  bitCount: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): SimulationState[] => {
+  if (bitCount <= bits.length) return bits.slice(bits.length - bitCount);
+  return [...createRegister(bitCount - bits.length, model), ...bits];
+};
+
+// Largest word a register of `cellCount` cells holds, each cell storing one of `radix` levels
+export const maxWordValue = (cellCount: number, radix = 2): number => Math.pow(radix, cellCount) - 1;
+
+/**
+ * Pulse voltages that leave a multi-level cell on `level` once it returns to
+ * 0V: a full negative pulse resets it to level 0 if it has to move down,
+ * then a positive pulse stops between the thresholds into and out of the
+ * target level (the full pulse for the top level).
+ */
+export const levelWritePulses = (current: number, level: number, model: DeviceModel = DEFAULT_DEVICE_MODEL): number[] => {
+  const up = model.levels?.THRESHOLDS_UP ?? [model.THRESHOLD_UP];
+  if (level === 0) return [-WRITE_PULSE_VOLTAGE];
+  const pulses = current > level ? [-WRITE_PULSE_VOLTAGE] : [];
+  pulses.push(level >= up.length ? WRITE_PULSE_VOLTAGE : (up[level - 1] + up[level]) / 2);
+  return pulses;
+};
+
+/**
+ * States visited by a write: the pulse peak(s), then the return to 0V.
+ */
+export const writeBitTrace = (
+  state: SimulationState,
+  value: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {},
+  pulseWidth = WRITE_PULSE_WIDTH,
+  settleTime = WRITE_SETTLE_TIME
+): SimulationState[] => {
+  const pulses = model.levels
+    ? levelWritePulses(levelOf(state), value, model)
+    : [value === 1 ? WRITE_PULSE_VOLTAGE : -WRITE_PULSE_VOLTAGE];
+  const trace: SimulationState[] = [];
+  let current = state;
+  pulses.forEach(pulse => {
+    current = stepSimulation(pulse, current, model, { ...options, dt: pulseWidth });
+    trace.push(current);
+  });
+  return [...trace, stepSimulation(0, current, model, { ...options, dt: settleTime })];
+};
+
+/**
+ * "Write" operation for one resonator: pulse past the relevant threshold and return to 0V.
+ */
+export const writeBit = (
+  state: SimulationState,
+  value: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {}
+): SimulationState => {
+  const trace = writeBitTrace(state, value, model, options);
+  return trace[trace.length - 1];
+};
+
+/**
+ * Reads the stored word from the branch of each resonator (Upper = 1, Lower = 0).
+ */
+export const readBits = (bits: SimulationState[]): (0 | 1)[] =>
+  bits.map(b => (b.branch === 'upper' ? 1 : 0));
+
+// Stored level of each cell (0/1 for two-branch cells)
+export const readLevels = (bits: SimulationState[]): number[] => bits.map(levelOf);
+
+// Cells are digits in base `radix`, most significant first
+export const levelsToWord = (levels: number[], radix = 2): number =>
+  levels.reduce((word, level) => word * radix + level, 0);
+
+export const readWord = (bits: SimulationState[], radix = 2): number => levelsToWord(readLevels(bits), radix);
+
+export const wordToLevels = (value: number, cellCount: number, radix = 2): number[] =>
+  Array.from({ length: cellCount }, (_, i) => Math.floor(value / Math.pow(radix, cellCount - 1 - i)) % radix);
+
+export const wordToBits = (value: number, bitCount: number): (0 | 1)[] => wordToLevels(value, bitCount) as (0 | 1)[];
+
+/**
+ * Writes a whole word in one action. Each bit receives its own write pulse.
+ */
+export const writeWord = (
+  bits: SimulationState[],
+  value: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {}
+): SimulationState[] => {
+  const targets = wordToLevels(value, bits.length, levelCount(model));
+  return bits.map((bit, i) => writeBit(bit, targets[i], model, options));
+};
+
+/**
+ * Parses user input in the given format. Returns null if the text is not a
+ * valid number or does not fit in the register.
+ */
+export const parseWord = (text: string, format: WordFormat, bitCount: number, radix = 2): number | null => {
+  const prefix = PREFIX[format];
+  const digits = (prefix ? text.trim().replace(prefix, '') : text.trim()).replace(/[_\s]/g, '');
+  if (!digitPattern(format, radix).test(digits)) return null;
+
+  const value = parseInt(digits, format === 'bin' ? radix : RADIX[format]);
+  if (!Number.isFinite(value) || value > maxWordValue(bitCount, radix)) return null;
+  return value;
+};
+
+export const formatWord = (value: number, format: WordFormat, bitCount: number, radix = 2): string => {
+  switch (format) {
+    case 'bin':
+      return value.toString(radix).padStart(bitCount, '0');
+    case 'hex':
+      return '0x' + value.toString(16).toUpperCase().padStart(maxWordValue(bitCount, radix).toString(16).length, '0');
+    default:
+      return value.toString(10);
+  }
+};
@@ -0,0 +1,292 @@
+import { DeviceModel, DuffingParams, MeasuredPoint, Observable } from '../types';
+import { calculateAmplitude, calculateFrequency } from './physicsEngine';
+import { validateDeviceModel } from './deviceModel';
+import { computeDuffingBranches } from './duffingEngine';
+
+// Reassign-and-refit passes when the data carries no branch labels
+const FIT_ITERATIONS = 4;
+
+const VOLTAGE_COLUMNS = ['voltage', 'voltage_v', 'v', 'v_offset'];
+const AMPLITUDE_COLUMNS = ['amplitude', 'amplitude_mv', 'amp'];
+const FREQUENCY_COLUMNS = ['frequency', 'frequency_khz', 'freq'];
+
+export interface FitQuality {
+  observable: Observable;
+  branch: 'upper' | 'lower';
+  count: number;
+  rmse: number;
+  maxResidual: number;
+  rSquared: number;
+}
+
+export interface FitResult {
+  model: DeviceModel;
+  points: MeasuredPoint[]; // With fitted branch assignment
+  residuals: { voltage: number; observable: Observable; branch: 'upper' | 'lower'; residual: number }[];
+  quality: FitQuality[];
+  warnings: string[];
+}
+
+/**
+ * Parses measured data from CSV. Needs a voltage column and an amplitude
+ * and/or frequency column; an optional "branch" column (upper/lower or 1/0)
+ * fixes the branch of each point. The run export format is accepted as well.
+ */
+export const parseMeasuredCSV = (text: string): { points: MeasuredPoint[]; errors: string[] } => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length < 2) return { points: [], errors: ['CSV needs a header row and at least one data row.'] };
+
+  const header = lines[0].split(/[,\t;]/).map(h => h.trim().toLowerCase());
+  const find = (names: string[]) => header.findIndex(h => names.includes(h));
+  const vCol = find(VOLTAGE_COLUMNS);
+  const aCol = find(AMPLITUDE_COLUMNS);
+  const fCol = find(FREQUENCY_COLUMNS);
+  const bCol = find(['branch']);
+
+  if (vCol < 0) return { points: [], errors: ['CSV has no voltage column.'] };
+  if (aCol < 0 && fCol < 0) return { points: [], errors: ['CSV needs an amplitude or frequency column.'] };
+
+  const points: MeasuredPoint[] = [];
+  let skipped = 0;
+  for (const line of lines.slice(1)) {
+    const cells = line.split(/[,\t;]/).map(c => c.trim());
+    const voltage = parseFloat(cells[vCol]);
+    const amplitude = aCol >= 0 ? parseFloat(cells[aCol]) : NaN;
+    const frequency = fCol >= 0 ? parseFloat(cells[fCol]) : NaN;
+    const branchCell = bCol >= 0 ? cells[bCol]?.toLowerCase() : '';
+
+    if (!Number.isFinite(voltage) || (!Number.isFinite(amplitude) && !Number.isFinite(frequency))) {
+      skipped++;
+      continue;
+    }
+    points.push({
+      voltage,
+      amplitude: Number.isFinite(amplitude) ? amplitude : undefined,
+      frequency: Number.isFinite(frequency) ? frequency : undefined,
+      branch: branchCell === 'upper' || branchCell === '1' ? 'upper' : branchCell === 'lower' || branchCell === '0' ? 'lower' : undefined,
+    });
+  }
+
+  const errors = skipped > 0 ? [`Skipped ${skipped} rows without numeric values.`] : [];
+  if (points.length === 0) errors.push('CSV has no usable data points.');
+  return { points, errors };
+};
+
+/**
+ * Solves the normal equations (A^T A) x = A^T b by Gaussian elimination.
+ * Returns null when the system is singular (too few / degenerate points).
+ */
+export const leastSquares = (rows: number[][], targets: number[]): number[] | null => {
+  const n = rows[0]?.length ?? 0;
+  if (n === 0 || rows.length < n) return null;
+
+  const m = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+  rows.forEach((row, k) => {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) m[i][j] += row[i] * row[j];
+      m[i][n] += row[i] * targets[k];
+    }
+  });
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+/**
+ * Picks the branch whose model curves are closest to the point, weighting
+ * each observable by its spread so mV and kHz are comparable.
+ */
+const nearestBranch = (p: MeasuredPoint, model: DeviceModel, scale: { amplitude: number; frequency: number }) => {
+  const distance = (branch: 'upper' | 'lower') => {
+    let d = 0;
+    if (p.amplitude !== undefined) d += Math.abs(p.amplitude - calculateAmplitude(p.voltage, branch, model)) / scale.amplitude;
+    if (p.frequency !== undefined) d += Math.abs(p.frequency - calculateFrequency(p.voltage, branch, model)) / scale.frequency;
+    return d;
+  };
+  return distance('upper') <= distance('lower') ? 'upper' : 'lower';
+};
+
+const spread = (values: number[]) => {
+  if (values.length === 0) return 1;
+  return Math.max(...values) - Math.min(...values) || 1;
+};
+
+/**
+ * Threshold estimate from branch-labelled points: the lower branch exists up
+ * to THRESHOLD_UP and the upper branch down to THRESHOLD_DOWN, so each
+ * threshold is placed midway across the gap at the end of that branch.
+ */
+const estimateThresholds = (points: MeasuredPoint[], model: DeviceModel) => {
+  const lowerV = points.filter(p => p.branch === 'lower').map(p => p.voltage);
+  const upperV = points.filter(p => p.branch === 'upper').map(p => p.voltage);
+  if (lowerV.length === 0 || upperV.length === 0) return null;
+
+  const lastLower = Math.max(...lowerV);
+  const firstUpper = Math.min(...upperV);
+  const upBeyond = upperV.filter(v => v > lastLower);
+  const downBeyond = lowerV.filter(v => v < firstUpper);
+
+  // Without samples past the end of a branch the jump position is not observed
+  const up = upBeyond.length > 0 ? (lastLower + Math.min(...upBeyond)) / 2 : model.THRESHOLD_UP;
+  const down = downBeyond.length > 0 ? (firstUpper + Math.max(...downBeyond)) / 2 : model.THRESHOLD_DOWN;
+  return { up, down, observedUp: upBeyond.length > 0, observedDown: downBeyond.length > 0 };
+};
+
+const fitOnce = (points: MeasuredPoint[], start: DeviceModel, warnings: string[]): DeviceModel => {
+  const model = { ...start };
+
+  // Amplitude: independent quadratic per branch
+  for (const branch of ['lower', 'upper'] as const) {
+    const data = points.filter(p => p.branch === branch && p.amplitude !== undefined);
+    const coeffs = leastSquares(data.map(p => [p.voltage * p.voltage, p.voltage, 1]), data.map(p => p.amplitude as number));
+    if (!coeffs) {
+      warnings.push(`Not enough amplitude points on the ${branch} branch; keeping its coefficients.`);
+      continue;
+    }
+    if (branch === 'lower') [model.AMP_LOWER_QUAD, model.AMP_LOWER_LIN, model.AMP_LOWER_CONST] = coeffs;
+    else [model.AMP_UPPER_QUAD, model.AMP_UPPER_LIN, model.AMP_UPPER_CONST] = coeffs;
+  }
+
+  // Frequency: shared slope, one base per branch
+  const freq = points.filter(p => p.branch !== undefined && p.frequency !== undefined);
+  if (freq.length > 0) {
+    const coeffs = leastSquares(
+      freq.map(p => [p.voltage, p.branch === 'lower' ? 1 : 0, p.branch === 'upper' ? 1 : 0]),
+      freq.map(p => p.frequency as number)
+    );
+    if (coeffs) [model.FREQ_SLOPE, model.FREQ_LOWER_BASE, model.FREQ_UPPER_BASE] = coeffs;
+    else warnings.push('Frequency data does not cover both branches; keeping frequency parameters.');
+  }
+
+  const thresholds = estimateThresholds(points, model);
+  if (thresholds) {
+    model.THRESHOLD_UP = thresholds.up;
+    model.THRESHOLD_DOWN = thresholds.down;
+    if (!thresholds.observedUp) warnings.push('No samples past the upward jump; keeping THRESHOLD_UP.');
+    if (!thresholds.observedDown) warnings.push('No samples past the downward jump; keeping THRESHOLD_DOWN.');
+  }
+  return model;
+};
+
+const qualityOf = (
+  values: { measured: number; predicted: number }[],
+  observable: Observable,
+  branch: 'upper' | 'lower'
+): FitQuality => {
+  const residuals = values.map(v => v.measured - v.predicted);
+  const mean = values.reduce((sum, v) => sum + v.measured, 0) / values.length;
+  const ssRes = residuals.reduce((sum, r) => sum + r * r, 0);
+  const ssTot = values.reduce((sum, v) => sum + (v.measured - mean) ** 2, 0);
+  return {
+    observable,
+    branch,
+    count: values.length,
+    rmse: Math.sqrt(ssRes / values.length),
+    maxResidual: Math.max(...residuals.map(Math.abs)),
+    rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 1,
+  };
+};
+
+/**
+ * Least-squares fit of the quadratic AMP_* coefficients, the linear FREQ_*
+ * base/slope and the two thresholds. Unlabelled points are assigned to the
+ * nearest branch of the current fit and the fit is repeated until stable.
+ * The result has two branches; a multi-level start contributes its outermost ones.
+ */
+export const fitDeviceModel = (data: MeasuredPoint[], start: DeviceModel): FitResult => {
+  const labelled = data.every(p => p.branch !== undefined);
+  const scale = {
+    amplitude: spread(data.flatMap(p => (p.amplitude !== undefined ? [p.amplitude] : []))),
+    frequency: spread(data.flatMap(p => (p.frequency !== undefined ? [p.frequency] : []))),
+  };
+
+  const { levels: _, ...twoBranch } = start;
+  let model: DeviceModel = twoBranch;
+  let points = data;
+  let warnings: string[] = [];
+
+  for (let i = 0; i < (labelled ? 1 : FIT_ITERATIONS); i++) {
+    const current = model;
+    points = data.map(p => (p.branch ? p : { ...p, branch: nearestBranch(p, current, scale) }));
+    warnings = [];
+    model = fitOnce(points, current, warnings);
+  }
+
+  const problems = validateDeviceModel(model);
+  if (problems.length > 0) {
+    warnings.push(...problems.map(p => `Fitted model rejected: ${p}`));
+    model = start;
+  }
+
+  const residuals: FitResult['residuals'] = [];
+  const quality: FitQuality[] = [];
+  for (const observable of ['amplitude', 'frequency'] as const) {
+    for (const branch of ['lower', 'upper'] as const) {
+      const values = points
+        .filter(p => p.branch === branch && p[observable] !== undefined)
+        .map(p => ({
+          voltage: p.voltage,
+          measured: p[observable] as number,
+          predicted: observable === 'amplitude'
+            ? calculateAmplitude(p.voltage, branch, model)
+            : calculateFrequency(p.voltage, branch, model),
+        }));
+      if (values.length === 0) continue;
+      values.forEach(v => residuals.push({ voltage: v.voltage, observable, branch, residual: v.measured - v.predicted }));
+      quality.push(qualityOf(values, observable, branch));
+    }
+  }
+
+  return { model, points, residuals, quality, warnings: Array.from(new Set(warnings)) };
+};
+
+export interface DuffingFit {
+  model: DeviceModel;      // Fitted curves plus the Duffing parameters and derived thresholds
+  fit: FitResult;          // Quality of the phenomenological fit to the dynamics
+  points: MeasuredPoint[]; // Stable branch points of the integrated resonator
+  bistable: boolean;
+}
+
+/**
+ * Fits the phenomenological curves to the integrated Duffing branches, so the
+ * fitted model can be checked against (or used instead of) the dynamics. Only
+ * the stable part of each branch is fitted: the lower branch up to its jump,
+ * the upper branch down to its jump.
+ */
+export const fitDuffingModel = (params: DuffingParams, start: DeviceModel): DuffingFit => {
+  const branches = computeDuffingBranches(params);
+  const { duffing: _, levels: __, ...phenomenological } = start;
+  const points: MeasuredPoint[] = [
+    ...branches.lower
+      .filter(p => p.voltage <= branches.thresholdUp)
+      .map(p => ({ voltage: p.voltage, amplitude: p.amplitude, frequency: p.frequency, branch: 'lower' as const })),
+    ...branches.upper
+      .filter(p => p.voltage >= branches.thresholdDown)
+      .map(p => ({ voltage: p.voltage, amplitude: p.amplitude, frequency: p.frequency, branch: 'upper' as const })),
+  ];
+
+  const fit = fitDeviceModel(points, phenomenological);
+  if (!branches.bistable) fit.warnings.push('These parameters give no hysteresis: the sweeps never jump between branches.');
+
+  return {
+    model: {
+      ...fit.model,
+      THRESHOLD_UP: branches.thresholdUp,
+      THRESHOLD_DOWN: branches.thresholdDown,
+      duffing: params,
+    },
+    fit,
+    points,
+    bistable: branches.bistable,
+  };
+};
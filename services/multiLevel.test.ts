@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { DEFAULT_DEVICE_MODEL } from '../types';
+import { createRegister, maxWordValue, readWord, writeWord } from './memoryRegister';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE, StepOptions, createInitialState, stepSimulation } from './physicsEngine';
+import { createRng } from './random';
+import { analyzeWriteTiming } from './writeTiming';
+import { evenLevels, levelJumps, levelOf, multiLevelModel, nextLevel, validateMultiLevel } from './multiLevel';
+import { createSimulation } from './simulationCore';
+
+const ternary = evenLevels(3);
+
+describe('multi-level switching', () => {
+  it('climbs one level per up threshold and drops one per down threshold', () => {
+    expect(nextLevel(0, 0, 0.7, ternary)).toBe(1);
+    expect(nextLevel(0, 0, 1.5, ternary)).toBe(2);
+    expect(nextLevel(2, 0, -0.7, ternary)).toBe(1);
+    expect(nextLevel(2, 0, -1.5, ternary)).toBe(0);
+    expect(nextLevel(1, 0.5, 0, ternary)).toBe(1);
+  });
+
+  it('passes through every level on a full sweep', () => {
+    const sim = createSimulation({ bitCount: 1, model: multiLevelModel(ternary) });
+    const events = Array.from({ length: 400 }, () => sim.advance(0.02)).flat();
+    expect(events.slice(0, 4).map(e => [e.fromLevel, e.toLevel])).toEqual([[0, 1], [1, 2], [2, 1], [1, 0]]);
+  });
+
+  it('needs the minimum dwell to leave a level in the dynamic mode', () => {
+    const model = multiLevelModel(ternary);
+    const dynamics = { ...DEFAULT_DYNAMICS, enabled: true };
+    const start = createInitialState(model);
+    expect(levelOf(stepSimulation(1.5, start, model, { dynamics, dt: dynamics.minDwell / 2 }))).toBe(0);
+    expect(levelOf(stepSimulation(1.5, start, model, { dynamics, dt: dynamics.minDwell }))).toBe(1);
+    expect(levelOf(stepSimulation(1.5, start, model, { dynamics, dt: 2 * dynamics.minDwell }))).toBe(2);
+    expect(analyzeWriteTiming(dynamics, model).minPulseWidth).toBeGreaterThan(0);
+  });
+
+  it('switches levels at random near a threshold in the stochastic mode', () => {
+    const model = multiLevelModel(ternary);
+    const noise = { ...DEFAULT_NOISE, enabled: true, voltageNoise: 0 };
+    const rng = createRng(7);
+    const start = createInitialState(model);
+    const climbed = Array.from({ length: 400 }, () =>
+      levelOf(stepSimulation(ternary.THRESHOLDS_UP[0], start, model, { noise, rng, dt: 0.01 }))).filter(l => l === 1).length;
+    expect(climbed).toBeGreaterThan(80);
+    expect(climbed).toBeLessThan(240);
+  });
+
+  it('keeps the two-branch jumps for two-branch models', () => {
+    expect(levelJumps(DEFAULT_DEVICE_MODEL)).toEqual([
+      { voltage: DEFAULT_DEVICE_MODEL.THRESHOLD_UP, from: 0, to: 1 },
+      { voltage: DEFAULT_DEVICE_MODEL.THRESHOLD_DOWN, from: 1, to: 0 },
+    ]);
+  });
+});
+
+describe('multi-level words', () => {
+  it('round-trips every word through a base-3 and base-4 register', () => {
+    const cases = fc.constantFrom(3, 4).chain(radix =>
+      fc.tuple(fc.constant(radix), fc.integer({ min: 0, max: maxWordValue(4, radix) })));
+    fc.assert(fc.property(cases, ([radix, value]) => {
+      const model = multiLevelModel(evenLevels(radix));
+      const bits = writeWord(createRegister(4, model), value, model);
+      return readWord(bits, radix) === value && bits.every(bit => bit.voltage === 0);
+    }));
+  });
+
+  // Every level written over every other one, then read back
+  const everyWrite = (radix: number, options: StepOptions) => {
+    const model = multiLevelModel(evenLevels(radix));
+    for (let from = 0; from < radix; from++) {
+      for (let to = 0; to < radix; to++) {
+        const bits = writeWord(writeWord(createRegister(1, model), from, model, options), to, model, options);
+        expect(readWord(bits, radix), `${from} -> ${to}`).toBe(to);
+      }
+    }
+  };
+
+  it('writes every level in the dynamic mode', () => {
+    const dynamics = { ...DEFAULT_DYNAMICS, enabled: true };
+    [3, 4].forEach(radix => everyWrite(radix, { dynamics }));
+  });
+
+  it('writes every level in the stochastic mode', () => {
+    const noise = { ...DEFAULT_NOISE, enabled: true };
+    [3, 4].forEach(radix => everyWrite(radix, { noise, rng: createRng(11) }));
+  });
+
+  it('writes lower levels over higher ones', () => {
+    const model = multiLevelModel(evenLevels(4));
+    const bits = writeWord(createRegister(1, model), 3, model);
+    expect(levelOf(bits[0])).toBe(3);
+    expect(levelOf(writeWord(bits, 1, model)[0])).toBe(1);
+  });
+});
+
+describe('validateMultiLevel', () => {
+  it('accepts the evenly spread defaults', () => {
+    for (let count = 2; count <= 8; count++) expect(validateMultiLevel(evenLevels(count))).toEqual([]);
+  });
+
+  it('rejects thresholds that do not rise or do not hold at 0V', () => {
+    expect(validateMultiLevel({ ...ternary, THRESHOLDS_UP: [1.2, 0.6] })).toHaveLength(1);
+    expect(validateMultiLevel({ ...ternary, THRESHOLDS_UP: [-0.2, 1.35] })).toHaveLength(1);
+    expect(validateMultiLevel({ ...ternary, THRESHOLDS_DOWN: [-1] })).toHaveLength(1);
+  });
+});
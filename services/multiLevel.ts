@@ -0,0 +1,194 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, LevelCurve, MultiLevelParams, Observable, SimulationState } from '../types';
+
+// Most branches a multi-level model may have (one digit per cell up to base 8)
+export const MAX_LEVELS = 8;
+
+// Branch of a resonator: the two named branches of a bistable device, or a
+// level index (0 = lowest). On a multi-level model 'upper' is the top level
+export type BranchRef = 'upper' | 'lower' | number;
+
+export const levelCount = (model: DeviceModel = DEFAULT_DEVICE_MODEL): number =>
+  model.levels?.BRANCHES.length ?? 2;
+
+/**
+ * Stored level of a bit. Two-branch states carry no level: lower = 0, upper = 1.
+ */
+export const levelOf = (state: SimulationState): number =>
+  state.level ?? (state.branch === 'upper' ? 1 : 0);
+
+export const branchLevel = (branch: BranchRef, count: number): number => {
+  if (branch === 'lower') return 0;
+  if (branch === 'upper') return count - 1;
+  return Math.max(0, Math.min(count - 1, Math.round(branch)));
+};
+
+// Two-branch name of a level, for the code that only tells 0 from "not 0"
+export const branchName = (level: number): 'upper' | 'lower' => (level > 0 ? 'upper' : 'lower');
+
+export const levelObservable = (
+  voltage: number,
+  level: number,
+  observable: Observable,
+  params: MultiLevelParams
+): number => {
+  const curve = params.BRANCHES[level];
+  return observable === 'frequency'
+    ? curve.FREQ_BASE + curve.FREQ_SLOPE * voltage
+    : curve.AMP_QUAD * voltage * voltage + curve.AMP_LIN * voltage + curve.AMP_CONST;
+};
+
+/**
+ * Level after moving from prevVoltage to targetVoltage: one level per
+ * threshold passed in the direction of the move.
+ */
+export const nextLevel = (level: number, prevVoltage: number, targetVoltage: number, params: MultiLevelParams): number => {
+  const top = params.BRANCHES.length - 1;
+  let next = level;
+  if (targetVoltage > prevVoltage) {
+    while (next < top && targetVoltage >= params.THRESHOLDS_UP[next]) next++;
+  } else if (targetVoltage < prevVoltage) {
+    while (next > 0 && targetVoltage <= params.THRESHOLDS_DOWN[next - 1]) next--;
+  }
+  return next;
+};
+
+/**
+ * Where the segment prevVoltage -> nextVoltage crosses the first threshold
+ * that moves `level`, as a fraction of the segment. Null if it doesn't.
+ */
+export const findLevelCrossing = (
+  prevVoltage: number,
+  nextVoltage: number,
+  level: number,
+  params: MultiLevelParams
+): { fraction: number; voltage: number } | null => {
+  if (nextLevel(level, prevVoltage, nextVoltage, params) === level) return null;
+  const threshold = nextVoltage > prevVoltage ? params.THRESHOLDS_UP[level] : params.THRESHOLDS_DOWN[level - 1];
+  const fraction = Math.max(0, (threshold - prevVoltage) / (nextVoltage - prevVoltage));
+  return { fraction, voltage: prevVoltage + fraction * (nextVoltage - prevVoltage) };
+};
+
+/**
+ * Every jump of a model, with the levels it connects: rising past an up
+ * threshold and falling past a down threshold.
+ */
+export const levelJumps = (model: DeviceModel = DEFAULT_DEVICE_MODEL): { voltage: number; from: number; to: number }[] => {
+  if (!model.levels) {
+    return [
+      { voltage: model.THRESHOLD_UP, from: 0, to: 1 },
+      { voltage: model.THRESHOLD_DOWN, from: 1, to: 0 },
+    ];
+  }
+  const { THRESHOLDS_UP, THRESHOLDS_DOWN } = model.levels;
+  return [
+    ...THRESHOLDS_UP.map((voltage, k) => ({ voltage, from: k, to: k + 1 })),
+    ...THRESHOLDS_DOWN.map((voltage, k) => ({ voltage, from: k + 1, to: k })),
+  ];
+};
+
+/**
+ * Level whose curve lies closest to a sampled readout.
+ */
+export const nearestLevel = (measured: number, voltage: number, observable: Observable, params: MultiLevelParams): number =>
+  params.BRANCHES.reduce((best, _, level) =>
+    Math.abs(levelObservable(voltage, level, observable, params) - measured) <
+    Math.abs(levelObservable(voltage, best, observable, params) - measured) ? level : best, 0);
+
+/**
+ * Display colour of a level: blue for 0 and red for the top level, as on the
+ * two-branch charts, with the levels in between spread through violet.
+ */
+export const levelColor = (level: number, count: number): string => {
+  if (level <= 0) return '#3b82f6';
+  if (level >= count - 1) return '#ef4444';
+  const hue = 217 + (143 * level) / (count - 1);
+  return `hsl(${Math.round(hue)}, 75%, 60%)`;
+};
+
+/**
+ * Device model for a multi-level resonator. The two-branch fields are filled
+ * from the outermost branches and thresholds so analyses that only know two
+ * branches see the full loop.
+ */
+export const multiLevelModel = (params: MultiLevelParams, base: DeviceModel = DEFAULT_DEVICE_MODEL): DeviceModel => {
+  const lower = params.BRANCHES[0];
+  const upper = params.BRANCHES[params.BRANCHES.length - 1];
+  return {
+    ...base,
+    THRESHOLD_UP: params.THRESHOLDS_UP[params.THRESHOLDS_UP.length - 1],
+    THRESHOLD_DOWN: params.THRESHOLDS_DOWN[0],
+    FREQ_LOWER_BASE: lower.FREQ_BASE,
+    FREQ_UPPER_BASE: upper.FREQ_BASE,
+    FREQ_SLOPE: (lower.FREQ_SLOPE + upper.FREQ_SLOPE) / 2,
+    AMP_LOWER_QUAD: lower.AMP_QUAD,
+    AMP_LOWER_LIN: lower.AMP_LIN,
+    AMP_LOWER_CONST: lower.AMP_CONST,
+    AMP_UPPER_QUAD: upper.AMP_QUAD,
+    AMP_UPPER_LIN: upper.AMP_LIN,
+    AMP_UPPER_CONST: upper.AMP_CONST,
+    duffing: undefined,
+    levels: params,
+  };
+};
+
+const CURVE_KEYS: (keyof LevelCurve)[] = ['FREQ_BASE', 'FREQ_SLOPE', 'AMP_QUAD', 'AMP_LIN', 'AMP_CONST'];
+
+const ascending = (values: number[]) => values.every((v, i) => i === 0 || v > values[i - 1]);
+
+/**
+ * Checks that the levels are well formed and that every level holds at 0V,
+ * where writes leave the bit. Returns human-readable problems (empty if valid).
+ */
+export const validateMultiLevel = (params: MultiLevelParams): string[] => {
+  const { BRANCHES, THRESHOLDS_UP, THRESHOLDS_DOWN } = params;
+  if (!Array.isArray(BRANCHES) || !Array.isArray(THRESHOLDS_UP) || !Array.isArray(THRESHOLDS_DOWN)) {
+    return ['BRANCHES, THRESHOLDS_UP and THRESHOLDS_DOWN must be lists.'];
+  }
+  const errors: string[] = [];
+  if (BRANCHES.length < 2 || BRANCHES.length > MAX_LEVELS) {
+    errors.push(`A multi-level model needs 2 to ${MAX_LEVELS} branches.`);
+  }
+  BRANCHES.forEach((curve, level) => {
+    if (CURVE_KEYS.some(key => !Number.isFinite(curve?.[key]))) errors.push(`Branch ${level} needs numeric ${CURVE_KEYS.join(', ')}.`);
+    else if (curve.FREQ_BASE <= 0) errors.push(`Branch ${level} frequency base must be positive.`);
+  });
+  if (THRESHOLDS_UP.length !== BRANCHES.length - 1 || THRESHOLDS_DOWN.length !== BRANCHES.length - 1) {
+    errors.push('There must be one up and one down threshold between each pair of adjacent branches.');
+  }
+  if (errors.length > 0) return errors;
+
+  const thresholds = [...THRESHOLDS_UP, ...THRESHOLDS_DOWN];
+  if (thresholds.some(v => !Number.isFinite(v) || v < CONSTANTS.VOLTAGE_MIN || v > CONSTANTS.VOLTAGE_MAX)) {
+    errors.push(`Thresholds must lie within ${CONSTANTS.VOLTAGE_MIN}V..${CONSTANTS.VOLTAGE_MAX}V.`);
+  } else if (!ascending(THRESHOLDS_UP) || !ascending(THRESHOLDS_DOWN)) {
+    errors.push('Thresholds must rise from one level to the next.');
+  } else if (THRESHOLDS_UP[0] <= 0 || THRESHOLDS_DOWN[THRESHOLDS_DOWN.length - 1] >= 0) {
+    errors.push('Up thresholds must be positive and down thresholds negative, so every level holds at 0V.');
+  }
+  return errors;
+};
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Evenly spread levels: curves stepping from the Fig 8 lower branch towards
+ * the upper one, and thresholds spaced evenly out to ±1.35V.
+ */
+export const evenLevels = (count: number): MultiLevelParams => {
+  const n = Math.max(2, Math.min(MAX_LEVELS, Math.round(count)));
+  const thresholds = Array.from({ length: n - 1 }, (_, k) => round((1.35 * (k + 1)) / (n - 1), 2));
+  return {
+    BRANCHES: Array.from({ length: n }, (_, level) => {
+      const t = level / (n - 1);
+      return {
+        FREQ_BASE: round(103.27 + 0.09 * t, 4),
+        FREQ_SLOPE: 0.03,
+        AMP_QUAD: -2.5,
+        AMP_LIN: round(-3 + 6 * t, 3),
+        AMP_CONST: round(11 + 9 * t, 3),
+      };
+    }),
+    THRESHOLDS_UP: thresholds,
+    THRESHOLDS_DOWN: thresholds.map(v => -v).reverse(),
+  };
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, SimulationState } from '../types';
+import { calculateAmplitude, calculateFrequency, createInitialState, stepSimulation } from './physicsEngine';
+
+const model = DEFAULT_DEVICE_MODEL;
+const { VOLTAGE_MIN, VOLTAGE_MAX } = CONSTANTS;
+
+const voltage = fc.double({ min: VOLTAGE_MIN, max: VOLTAGE_MAX, noNaN: true });
+const branch = fc.constantFrom<'upper' | 'lower'>('upper', 'lower');
+
+// Voltages strictly between the thresholds, where neither branch can switch
+const subThreshold = fc.double({ min: model.THRESHOLD_DOWN, max: model.THRESHOLD_UP, noNaN: true })
+  .filter(v => v > model.THRESHOLD_DOWN && v < model.THRESHOLD_UP);
+
+const stateOn = (b: 'upper' | 'lower', v: number): SimulationState => ({
+  voltage: v,
+  frequency: calculateFrequency(v, b, model),
+  amplitude: calculateAmplitude(v, b, model),
+  branch: b,
+  direction: 'stationary',
+});
+
+// Steepest slope of an amplitude branch over the voltage range (|2·quad·v| + |lin|)
+const maxAmplitudeSlope = Math.max(
+  2 * Math.abs(model.AMP_LOWER_QUAD) * VOLTAGE_MAX + Math.abs(model.AMP_LOWER_LIN),
+  2 * Math.abs(model.AMP_UPPER_QUAD) * VOLTAGE_MAX + Math.abs(model.AMP_UPPER_LIN),
+);
+
+describe('calculateFrequency', () => {
+  it('follows the linear branch formula', () => {
+    expect(calculateFrequency(0, 'lower', model)).toBeCloseTo(model.FREQ_LOWER_BASE, 10);
+    expect(calculateFrequency(0, 'upper', model)).toBeCloseTo(model.FREQ_UPPER_BASE, 10);
+    expect(calculateFrequency(1, 'upper', model)).toBeCloseTo(model.FREQ_UPPER_BASE + model.FREQ_SLOPE, 10);
+  });
+
+  it('puts the upper branch (bit 1) above the lower branch (bit 0) everywhere', () => {
+    fc.assert(fc.property(voltage, v => calculateFrequency(v, 'upper', model) > calculateFrequency(v, 'lower', model)));
+  });
+});
+
+describe('calculateAmplitude', () => {
+  it('follows the quadratic branch formulas', () => {
+    expect(calculateAmplitude(1, 'upper', model))
+      .toBeCloseTo(model.AMP_UPPER_QUAD + model.AMP_UPPER_LIN + model.AMP_UPPER_CONST, 10);
+    expect(calculateAmplitude(-1, 'lower', model))
+      .toBeCloseTo(model.AMP_LOWER_QUAD - model.AMP_LOWER_LIN + model.AMP_LOWER_CONST, 10);
+  });
+
+  it('pinches the loop at 0V', () => {
+    expect(calculateAmplitude(0, 'upper', model)).toBeCloseTo(calculateAmplitude(0, 'lower', model), 10);
+  });
+
+  it('jumps up at both thresholds', () => {
+    expect(calculateAmplitude(model.THRESHOLD_UP, 'upper', model))
+      .toBeGreaterThan(calculateAmplitude(model.THRESHOLD_UP, 'lower', model));
+    expect(calculateAmplitude(model.THRESHOLD_DOWN, 'lower', model))
+      .toBeGreaterThan(calculateAmplitude(model.THRESHOLD_DOWN, 'upper', model));
+  });
+});
+
+describe('stepSimulation', () => {
+  it('starts at 0V on the lower branch (bit 0)', () => {
+    const state = createInitialState(model);
+    expect(state.voltage).toBe(0);
+    expect(state.branch).toBe('lower');
+  });
+
+  it('switches to the upper branch when sweeping up past THRESHOLD_UP', () => {
+    const below = stepSimulation(model.THRESHOLD_UP - 0.01, createInitialState(model), model);
+    expect(below.branch).toBe('lower');
+    const past = stepSimulation(model.THRESHOLD_UP, below, model);
+    expect(past.branch).toBe('upper');
+    expect(past.direction).toBe('increasing');
+    expect(past.amplitude).toBeCloseTo(calculateAmplitude(model.THRESHOLD_UP, 'upper', model), 10);
+  });
+
+  it('switches to the lower branch when sweeping down past THRESHOLD_DOWN', () => {
+    const past = stepSimulation(model.THRESHOLD_DOWN, stateOn('upper', 0), model);
+    expect(past.branch).toBe('lower');
+    expect(past.direction).toBe('decreasing');
+  });
+
+  it('never switches the wrong way past a threshold', () => {
+    // Arriving at THRESHOLD_UP from above is a decrease and must not write a 1
+    expect(stepSimulation(model.THRESHOLD_UP, stateOn('lower', VOLTAGE_MAX), model).branch).toBe('lower');
+    expect(stepSimulation(model.THRESHOLD_DOWN, stateOn('upper', VOLTAGE_MIN), model).branch).toBe('upper');
+  });
+
+  it('keeps the branch through sub-threshold excursions', () => {
+    fc.assert(fc.property(branch, fc.array(subThreshold, { minLength: 1, maxLength: 50 }), (b, path) => {
+      let state = stateOn(b, 0);
+      for (const v of path) {
+        state = stepSimulation(v, state, model);
+        if (state.branch !== b) return false;
+      }
+      return true;
+    }));
+  });
+
+  it('reports readouts on the branch it ends on', () => {
+    fc.assert(fc.property(branch, voltage, voltage, (b, from, to) => {
+      const next = stepSimulation(to, stateOn(b, from), model);
+      return next.voltage === to
+        && next.frequency === calculateFrequency(to, next.branch, model)
+        && next.amplitude === calculateAmplitude(to, next.branch, model);
+    }));
+  });
+
+  it('moves the readouts continuously wherever the branch does not jump', () => {
+    const small = fc.double({ min: -0.05, max: 0.05, noNaN: true });
+    fc.assert(fc.property(branch, voltage, small, (b, from, dv) => {
+      const to = Math.max(VOLTAGE_MIN, Math.min(VOLTAGE_MAX, from + dv));
+      const prev = stateOn(b, from);
+      const next = stepSimulation(to, prev, model);
+      if (next.branch !== prev.branch) return true; // A jump, by definition not continuous
+      const step = Math.abs(to - from);
+      return Math.abs(next.amplitude - prev.amplitude) <= maxAmplitudeSlope * step + 1e-9
+        && Math.abs(next.frequency - prev.frequency) <= Math.abs(model.FREQ_SLOPE) * step + 1e-9;
+    }));
+  });
+});
@@ -1,46 +1,206 @@
 
-import { CONSTANTS, SimulationState } from '../types';
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, DynamicsConfig, NoiseConfig, Observable, SimulationState, SwitchingEvent } from '../types';
+import { Rng } from './random';
+import { duffingObservable } from './duffingEngine';
+import { BranchRef, branchLevel, branchName, findLevelCrossing, levelObservable, levelOf, nextLevel } from './multiLevel';
+
+// Step length assumed when a stochastic step is not given one (one 60fps frame)
+const DEFAULT_STEP_DT = 1 / 60;
+
+// Longest sub-step when following a drive between two frames (s)
+export const MAX_SUBSTEP = 0.002;
+
+// Upper bound on sub-steps per advance, so a stalled tab cannot lock up on resume
+const MAX_SUBSTEPS_PER_ADVANCE = 20000;
+
+export const DEFAULT_NOISE: NoiseConfig = {
+  enabled: false,
+  voltageNoise: 0.02,
+  amplitudeNoise: 0.2,
+  frequencyNoise: 0.005,
+  switchingWidth: 0.03,
+  attemptRate: 50,
+  seed: 1,
+};
+
+export const DEFAULT_DYNAMICS: DynamicsConfig = {
+  enabled: false,
+  timeConstant: 0.05,
+  minDwell: 0.02,
+};
+
+/**
+ * Optional extras for stepSimulation. Without noise or dynamics (or with both
+ * disabled) the step is the deterministic, rate-independent threshold model.
+ */
+export interface StepOptions {
+  dt?: number; // s spent at the target voltage
+  noise?: NoiseConfig;
+  rng?: Rng;
+  dynamics?: DynamicsConfig;
+}
 
 /**
  * Calculates the Frequency Response (Fig 8a)
- * Lower Branch: Bottom trace (Red)
- * Upper Branch: Top trace (Blue)
+ * Lower Branch: Bottom trace (Blue, bit 0)
+ * Upper Branch: Top trace (Red, bit 1)
+ * Models with Duffing parameters use the integrated resonator instead,
+ * multi-level models the curve of the given level.
  */
-export const calculateFrequency = (voltage: number, branch: 'upper' | 'lower'): number => {
+export const calculateFrequency = (
+  voltage: number,
+  branch: BranchRef,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): number => {
+  if (model.levels) return levelObservable(voltage, branchLevel(branch, model.levels.BRANCHES.length), 'frequency', model.levels);
+  if (typeof branch === 'number') branch = branchName(branch);
+  if (model.duffing) return duffingObservable(voltage, branch, 'frequency', model.duffing);
   // Base offset based on branch
-  const base = branch === 'upper' ? CONSTANTS.FREQ_UPPER_BASE : CONSTANTS.FREQ_LOWER_BASE;
+  const base = branch === 'upper' ? model.FREQ_UPPER_BASE : model.FREQ_LOWER_BASE;
   // Linear dependency on voltage
-  return base + (CONSTANTS.FREQ_SLOPE * voltage);
+  return base + (model.FREQ_SLOPE * voltage);
 };
 
 /**
  * Calculates the Amplitude Response (Fig 8b)
  * Implements the "Pinched Hysteresis Loop" with quadratic curves.
  */
-export const calculateAmplitude = (voltage: number, branch: 'upper' | 'lower'): number => {
+export const calculateAmplitude = (
+  voltage: number,
+  branch: BranchRef,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): number => {
+  if (model.levels) return levelObservable(voltage, branchLevel(branch, model.levels.BRANCHES.length), 'amplitude', model.levels);
+  if (typeof branch === 'number') branch = branchName(branch);
+  if (model.duffing) return duffingObservable(voltage, branch, 'amplitude', model.duffing);
   if (branch === 'lower') {
     // Lower Branch (Blue): Concave Down, Peak at V=-1
     // Starts low at positive voltages, jumps UP to Upper branch.
-    return (CONSTANTS.AMP_LOWER_QUAD * Math.pow(voltage, 2)) + 
-           (CONSTANTS.AMP_LOWER_LIN * voltage) + 
-           CONSTANTS.AMP_LOWER_CONST;
+    return (model.AMP_LOWER_QUAD * Math.pow(voltage, 2)) + 
+           (model.AMP_LOWER_LIN * voltage) + 
+           model.AMP_LOWER_CONST;
   } else {
     // Upper Branch (Red): Concave Down, Peak at V=1
     // Starts low at negative voltages, jumps UP to Lower branch.
-    return (CONSTANTS.AMP_UPPER_QUAD * Math.pow(voltage, 2)) + 
-           (CONSTANTS.AMP_UPPER_LIN * voltage) + 
-           CONSTANTS.AMP_UPPER_CONST;
+    return (model.AMP_UPPER_QUAD * Math.pow(voltage, 2)) + 
+           (model.AMP_UPPER_LIN * voltage) + 
+           model.AMP_UPPER_CONST;
   }
 };
 
+/**
+ * Evaluates the selected observable (Fig 8a frequency or Fig 8b amplitude) on a branch.
+ */
+export const calculateObservable = (
+  voltage: number,
+  branch: BranchRef,
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): number =>
+  observable === 'frequency'
+    ? calculateFrequency(voltage, branch, model)
+    : calculateAmplitude(voltage, branch, model);
+
+/**
+ * Min/max of an observable over both branches across the full voltage range.
+ */
+export const calculateObservableRange = (
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  steps = 100
+): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i <= steps; i++) {
+    const v = CONSTANTS.VOLTAGE_MIN + (i / steps) * (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN);
+    for (const branch of ['upper', 'lower'] as const) {
+      const value = calculateObservable(v, branch, observable, model);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  return [min, max];
+};
+
+/**
+ * Probability that a bit leaves its branch while held at `voltage` for `dt`.
+ * The escape rate grows exponentially as the voltage approaches and passes
+ * the relevant threshold: rate = attemptRate * exp((v - Vth) / width).
+ */
+export const switchingProbability = (
+  voltage: number,
+  branch: 'upper' | 'lower',
+  dt: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise: NoiseConfig = DEFAULT_NOISE
+): number => {
+  const distance = branch === 'lower'
+    ? voltage - model.THRESHOLD_UP    // Lower jumps up past THRESHOLD_UP
+    : model.THRESHOLD_DOWN - voltage; // Upper jumps down past THRESHOLD_DOWN
+  return escapeProbability(distance, dt, noise);
+};
+
+// Escape rate (1/s) at `distance` volts past a threshold (negative: short of it)
+const escapeRate = (distance: number, noise: NoiseConfig): number =>
+  noise.attemptRate * Math.exp(Math.min(50, distance / Math.max(noise.switchingWidth, 1e-6)));
+
+// Escape probability over dt at `distance` volts past a threshold
+const escapeProbability = (distance: number, dt: number, noise: NoiseConfig): number =>
+  1 - Math.exp(-escapeRate(distance, noise) * dt);
+
+/**
+ * Thresholds that move a bit off `level`: up one level and down one level
+ * (undefined at the top and bottom). A two-branch model is the two-level case.
+ */
+const levelThresholds = (level: number, model: DeviceModel): { up?: number; down?: number } => {
+  const up = model.levels?.THRESHOLDS_UP ?? [model.THRESHOLD_UP];
+  const down = model.levels?.THRESHOLDS_DOWN ?? [model.THRESHOLD_DOWN];
+  return { up: up[level], down: level > 0 ? down[level - 1] : undefined };
+};
+
+// Bit on `level` at a voltage; two-branch states carry no level
+const levelState = (
+  voltage: number,
+  level: number,
+  direction: SimulationState['direction'],
+  model: DeviceModel
+): SimulationState => {
+  const branch = model.levels ? level : branchName(level);
+  return {
+    voltage,
+    frequency: calculateFrequency(voltage, branch, model),
+    amplitude: calculateAmplitude(voltage, branch, model),
+    branch: branchName(level),
+    direction,
+    ...(model.levels ? { level } : {}),
+  };
+};
+
+const clampedLevel = (state: SimulationState, model: DeviceModel) =>
+  Math.min(levelOf(state), (model.levels?.BRANCHES.length ?? 2) - 1);
+
 /**
  * Main step function to advance simulation state.
  * Handles the memory logic (hysteresis triggers).
  */
 export const stepSimulation = (
   targetVoltage: number, 
-  currentState: SimulationState
+  currentState: SimulationState,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {}
 ): SimulationState => {
+  const { noise, rng, dynamics } = options;
+  if (noise?.enabled && rng) {
+    const dt = options.dt ?? DEFAULT_STEP_DT;
+    const next = stepStochastic(targetVoltage, currentState, model, noise, rng, dt);
+    // Stochastic switching is rate-dependent already; only the readouts lag
+    return dynamics?.enabled ? relax(next, currentState, dynamics, dt) : next;
+  }
+  if (dynamics?.enabled) {
+    return stepDynamic(targetVoltage, currentState, model, dynamics, options.dt ?? 0);
+  }
+  if (model.levels) return stepMultiLevel(targetVoltage, currentState, model);
+
   const { branch, voltage: prevVoltage } = currentState;
   
   let newBranch = branch;
@@ -52,20 +212,250 @@ export const stepSimulation = (
   // Hysteresis Logic
   // Jump UP to Upper Branch (Frequency) when increasing past THRESHOLD_UP
   // Note: In Amplitude domain, this causes a jump UP to the other curve (Low->High)
-  if (direction === 'increasing' && targetVoltage >= CONSTANTS.THRESHOLD_UP) {
+  if (direction === 'increasing' && targetVoltage >= model.THRESHOLD_UP) {
     newBranch = 'upper'; 
   } 
   // Jump DOWN to Lower Branch (Frequency) when decreasing past THRESHOLD_DOWN
   // Note: In Amplitude domain, this causes a jump UP to the other curve (Low->High)
-  else if (direction === 'decreasing' && targetVoltage <= CONSTANTS.THRESHOLD_DOWN) {
+  else if (direction === 'decreasing' && targetVoltage <= model.THRESHOLD_DOWN) {
     newBranch = 'lower'; 
   }
 
   return {
     voltage: targetVoltage,
-    frequency: calculateFrequency(targetVoltage, newBranch),
-    amplitude: calculateAmplitude(targetVoltage, newBranch),
+    frequency: calculateFrequency(targetVoltage, newBranch, model),
+    amplitude: calculateAmplitude(targetVoltage, newBranch, model),
     branch: newBranch,
     direction
   };
 };
+
+/**
+ * Multi-level variant of the deterministic step: one level per threshold
+ * passed in the direction of the move.
+ */
+const stepMultiLevel = (targetVoltage: number, currentState: SimulationState, model: DeviceModel): SimulationState => {
+  const params = model.levels!;
+  let direction: 'increasing' | 'decreasing' | 'stationary' = 'stationary';
+  if (targetVoltage > currentState.voltage) direction = 'increasing';
+  if (targetVoltage < currentState.voltage) direction = 'decreasing';
+
+  const start = Math.min(levelOf(currentState), params.BRANCHES.length - 1);
+  const level = nextLevel(start, currentState.voltage, targetVoltage, params);
+  return {
+    voltage: targetVoltage,
+    frequency: levelObservable(targetVoltage, level, 'frequency', params),
+    amplitude: levelObservable(targetVoltage, level, 'amplitude', params),
+    branch: branchName(level),
+    direction,
+    level,
+  };
+};
+
+/**
+ * Moves the readouts of `next` only part of the way from `prev`: first-order
+ * relaxation towards the branch value with the configured time constant.
+ */
+const relax = (next: SimulationState, prev: SimulationState, dynamics: DynamicsConfig, dt: number): SimulationState => {
+  const keep = dynamics.timeConstant > 0 ? Math.exp(-dt / dynamics.timeConstant) : 0;
+  return {
+    ...next,
+    frequency: next.frequency + (prev.frequency - next.frequency) * keep,
+    amplitude: next.amplitude + (prev.amplitude - next.amplitude) * keep,
+  };
+};
+
+/**
+ * Dynamic variant of the step: the bit switches only after the voltage has
+ * stayed past the threshold for minDwell (in either sweep direction, so a
+ * held voltage counts), and the readouts relax towards the branch curves.
+ * Multi-level cells move one level per minDwell spent past the next threshold,
+ * so a long step can carry them over several.
+ */
+const stepDynamic = (
+  targetVoltage: number,
+  currentState: SimulationState,
+  model: DeviceModel,
+  dynamics: DynamicsConfig,
+  dt: number
+): SimulationState => {
+  let direction: 'increasing' | 'decreasing' | 'stationary' = 'stationary';
+  if (targetVoltage > currentState.voltage) direction = 'increasing';
+  if (targetVoltage < currentState.voltage) direction = 'decreasing';
+
+  let level = clampedLevel(currentState, model);
+  let dwell = (currentState.dwell ?? 0) + dt;
+  for (;;) {
+    const { up, down } = levelThresholds(level, model);
+    const pastUp = up !== undefined && targetVoltage >= up;
+    const pastDown = down !== undefined && targetVoltage <= down;
+    if (!pastUp && !pastDown) {
+      dwell = 0;
+      break;
+    }
+    if (dwell <= 0 || dwell < dynamics.minDwell) break;
+    // The time spent past this threshold counts towards the next one
+    level += pastUp ? 1 : -1;
+    dwell -= dynamics.minDwell;
+  }
+
+  return relax({ ...levelState(targetVoltage, level, direction, model), dwell }, currentState, dynamics, dt);
+};
+
+/**
+ * Stochastic variant of the step: the drive carries additive noise, switching
+ * happens with switchingProbability() instead of exactly at the thresholds,
+ * and the amplitude/frequency readouts carry measurement noise. Multi-level
+ * cells escape over the threshold above or below their level and, with the
+ * time left in the step, may go on escaping in the same direction.
+ */
+const stepStochastic = (
+  targetVoltage: number,
+  currentState: SimulationState,
+  model: DeviceModel,
+  noise: NoiseConfig,
+  rng: Rng,
+  dt: number
+): SimulationState => {
+  const voltage = targetVoltage + noise.voltageNoise * rng.gaussian();
+
+  let direction: 'increasing' | 'decreasing' | 'stationary' = 'stationary';
+  if (targetVoltage > currentState.voltage) direction = 'increasing';
+  if (targetVoltage < currentState.voltage) direction = 'decreasing';
+
+  // Each escape takes an exponential waiting time; the first one may go either
+  // way, later ones only continue the move
+  let level = clampedLevel(currentState, model);
+  let left = dt;
+  let heading = 0;
+  for (;;) {
+    const { up, down } = levelThresholds(level, model);
+    const rateUp = up === undefined || heading < 0 ? 0 : escapeRate(voltage - up, noise);
+    const rateDown = down === undefined || heading > 0 ? 0 : escapeRate(down - voltage, noise);
+    const rate = rateUp + rateDown;
+    if (rate === 0) break;
+    const wait = -Math.log(1 - rng.next()) / rate;
+    if (wait >= left) break;
+    left -= wait;
+    heading = rateDown === 0 || (rateUp > 0 && rng.next() * rate < rateUp) ? 1 : -1;
+    level += heading;
+  }
+
+  const next = levelState(voltage, level, direction, model);
+  return {
+    ...next,
+    frequency: next.frequency + noise.frequencyNoise * rng.gaussian(),
+    amplitude: next.amplitude + noise.amplitudeNoise * rng.gaussian(),
+  };
+};
+
+/**
+ * Where the straight segment prevVoltage -> nextVoltage crosses the threshold
+ * that would switch `branch`, as a fraction of the segment. Null if it doesn't.
+ */
+export const findCrossing = (
+  prevVoltage: number,
+  nextVoltage: number,
+  branch: 'upper' | 'lower',
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): { fraction: number; voltage: number } | null => {
+  if (branch === 'lower' && nextVoltage > prevVoltage && nextVoltage >= model.THRESHOLD_UP) {
+    const fraction = Math.max(0, (model.THRESHOLD_UP - prevVoltage) / (nextVoltage - prevVoltage));
+    return { fraction, voltage: prevVoltage + fraction * (nextVoltage - prevVoltage) };
+  }
+  if (branch === 'upper' && nextVoltage < prevVoltage && nextVoltage <= model.THRESHOLD_DOWN) {
+    const fraction = Math.max(0, (model.THRESHOLD_DOWN - prevVoltage) / (nextVoltage - prevVoltage));
+    return { fraction, voltage: prevVoltage + fraction * (nextVoltage - prevVoltage) };
+  }
+  return null;
+};
+
+/**
+ * Single step that also reports the switch it caused, if any. The drive is
+ * taken to move linearly from the previous voltage to the target over `dt`
+ * starting at time t0, so the event carries the interpolated crossing.
+ */
+export const stepWithEvents = (
+  targetVoltage: number,
+  currentState: SimulationState,
+  t0: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {},
+  bit = 0
+): { state: SimulationState; event: SwitchingEvent | null } => {
+  const state = stepSimulation(targetVoltage, currentState, model, options);
+  return { state, event: detectSwitch(currentState, state, targetVoltage, t0, options.dt ?? 0, model, bit) };
+};
+
+/**
+ * Switching event between two consecutive states, or null if the branch held.
+ */
+export const detectSwitch = (
+  prevState: SimulationState,
+  nextState: SimulationState,
+  targetVoltage: number,
+  t0: number,
+  dt: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  bit = 0
+): SwitchingEvent | null => {
+  const from = levelOf(prevState);
+  const to = levelOf(nextState);
+  if (from === to) return null;
+
+  // Stochastic switches and switches after a dwell (dynamic mode, the only
+  // states carrying one) have no exact crossing: stamp them at the end of the step
+  const exact = nextState.dwell !== undefined ? null
+    : model.levels ? findLevelCrossing(prevState.voltage, targetVoltage, Math.min(from, model.levels.BRANCHES.length - 1), model.levels)
+    : findCrossing(prevState.voltage, targetVoltage, prevState.branch, model);
+  const crossing = exact ?? { fraction: 1, voltage: nextState.voltage };
+  return {
+    bit,
+    time: t0 + crossing.fraction * dt,
+    voltage: crossing.voltage,
+    from: prevState.branch,
+    to: nextState.branch,
+    ...(model.levels ? { fromLevel: from, toLevel: to } : {}),
+  };
+};
+
+/**
+ * Follows a drive function v(t) from t0 to t1 in sub-steps no longer than
+ * maxSubstep. Threshold excursions shorter than a frame are therefore still
+ * caught, and the result no longer depends on how often it is called.
+ */
+export const advanceAlongDrive = (
+  drive: (t: number) => number,
+  t0: number,
+  t1: number,
+  currentState: SimulationState,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {},
+  bit = 0,
+  maxSubstep = MAX_SUBSTEP
+): { state: SimulationState; events: SwitchingEvent[] } => {
+  const span = t1 - t0;
+  const count = Math.min(MAX_SUBSTEPS_PER_ADVANCE, Math.max(1, Math.ceil(span / maxSubstep)));
+  const dt = span / count;
+
+  let state = currentState;
+  const events: SwitchingEvent[] = [];
+  for (let i = 1; i <= count; i++) {
+    const result = stepWithEvents(drive(t0 + i * dt), state, t0 + (i - 1) * dt, model, { ...options, dt }, bit);
+    state = result.state;
+    if (result.event) events.push(result.event);
+  }
+  return { state, events };
+};
+
+/**
+ * Default resonator state: 0V, Lower Branch (stored 0).
+ */
+export const createInitialState = (model: DeviceModel = DEFAULT_DEVICE_MODEL): SimulationState => ({
+  voltage: 0,
+  frequency: calculateFrequency(0, 'lower', model),
+  amplitude: calculateAmplitude(0, 'lower', model),
+  branch: 'lower',
+  direction: 'stationary',
+  ...(model.levels ? { level: 0 } : {}),
+});
@@ -0,0 +1,54 @@
+/**
+ * Seedable pseudo-random source so stochastic runs can be reproduced.
+ */
+export interface Rng {
+  next: () => number;     // Uniform in [0, 1)
+  gaussian: () => number; // Standard normal
+  getState: () => RngState;
+  setState: (state: RngState) => void;
+}
+
+// Generator position, so a rewound simulation draws the same numbers again
+export interface RngState {
+  a: number;
+  spare: number | null;
+}
+
+/**
+ * Mulberry32 generator with Box-Muller normals.
+ */
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  let spare: number | null = null;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const gaussian = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = Math.max(next(), 1e-12);
+    const v = next();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+
+  return {
+    next,
+    gaussian,
+    getState: () => ({ a, spare }),
+    setState: (state: RngState) => {
+      a = state.a;
+      spare = state.spare;
+    },
+  };
+};
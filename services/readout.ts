@@ -0,0 +1,219 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, NoiseConfig, Observable, SimulationState } from '../types';
+import { calculateObservable, stepSimulation, switchingProbability, StepOptions } from './physicsEngine';
+import { levelOf, nearestLevel } from './multiLevel';
+
+export interface ReadConfig {
+  voltage: number;          // Read bias (V)
+  observable: Observable;   // Quantity sampled at the read bias
+  threshold: number | null; // Decision level; null = midpoint between the branches
+}
+
+export interface ReadResult {
+  value: number;     // 0/1, or the level read on multi-level models
+  measured: number;  // Sampled observable
+  level: number;     // Decision level it was compared against
+  disturbed: boolean; // The read changed the stored branch
+}
+
+export interface ReadAnalysis {
+  upper: number;
+  lower: number;
+  margin: number;            // upper - lower at the read bias (signed)
+  level: number;
+  sigma: number;             // Readout noise of the observable (0 when deterministic)
+  errorProbability: number;  // Misread probability per read, both values equally likely
+  disturbProbability: number; // Probability that one read flips a stored bit (worst branch)
+  warnings: string[];
+}
+
+export const DEFAULT_READ_CONFIG: ReadConfig = { voltage: 0, observable: 'frequency', threshold: null };
+
+// Time spent at the read bias; only matters in stochastic mode
+export const READ_PULSE_WIDTH = 0.05;
+
+// Closest a read bias may get to a switching threshold before it counts as unsafe (V)
+export const READ_GUARD = 0.05;
+
+// Disturb probability per read above which a bias is flagged
+export const DISTURB_LIMIT = 1e-6;
+
+export const OBSERVABLE_UNITS: Record<Observable, string> = { amplitude: 'mV', frequency: 'kHz' };
+
+/**
+ * Separation between the branches at a voltage: upper minus lower.
+ */
+export const readMargin = (
+  voltage: number,
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): number =>
+  calculateObservable(voltage, 'upper', observable, model) - calculateObservable(voltage, 'lower', observable, model);
+
+export const decisionLevel = (config: ReadConfig, model: DeviceModel = DEFAULT_DEVICE_MODEL): number =>
+  config.threshold ??
+  (calculateObservable(config.voltage, 'upper', config.observable, model) +
+    calculateObservable(config.voltage, 'lower', config.observable, model)) / 2;
+
+const readoutSigma = (observable: Observable, noise?: NoiseConfig): number =>
+  noise?.enabled ? (observable === 'amplitude' ? noise.amplitudeNoise : noise.frequencyNoise) : 0;
+
+/**
+ * Probability that a read at `voltage` flips a stored bit, for whichever branch is worse off.
+ */
+export const readDisturbProbability = (
+  voltage: number,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise?: NoiseConfig
+): number => {
+  if (noise?.enabled) {
+    return Math.max(
+      switchingProbability(voltage, 'lower', READ_PULSE_WIDTH, model, noise),
+      switchingProbability(voltage, 'upper', READ_PULSE_WIDTH, model, noise)
+    );
+  }
+  return voltage >= model.THRESHOLD_UP || voltage <= model.THRESHOLD_DOWN ? 1 : 0;
+};
+
+// Complementary error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const result = poly * Math.exp(-z * z);
+  return x >= 0 ? result : 2 - result;
+};
+
+// Probability that a Gaussian readout centred on `mean` lands on the wrong side of `level`
+const crossProbability = (mean: number, level: number, sigma: number, above: boolean): number => {
+  const distance = above ? mean - level : level - mean;
+  if (sigma <= 0) return distance > 0 ? 0 : distance < 0 ? 1 : 0.5;
+  return 0.5 * erfc(distance / (sigma * Math.SQRT2));
+};
+
+/**
+ * Read quality at a bias: branch separation, misread probability from the
+ * readout noise, disturb probability, and warnings for unsafe settings.
+ */
+export const analyzeRead = (
+  config: ReadConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise?: NoiseConfig
+): ReadAnalysis => {
+  const upper = calculateObservable(config.voltage, 'upper', config.observable, model);
+  const lower = calculateObservable(config.voltage, 'lower', config.observable, model);
+  const margin = upper - lower;
+  const level = decisionLevel(config, model);
+  const sigma = readoutSigma(config.observable, noise);
+  const upperIsHigher = margin >= 0;
+  const errorProbability =
+    (crossProbability(upper, level, sigma, upperIsHigher) + crossProbability(lower, level, sigma, !upperIsHigher)) / 2;
+  const disturbProbability = readDisturbProbability(config.voltage, model, noise);
+  const unit = OBSERVABLE_UNITS[config.observable];
+
+  const warnings: string[] = [];
+  const v = config.voltage;
+  if (v >= model.THRESHOLD_UP) {
+    warnings.push(`Read bias ${v.toFixed(2)}V is at or past the up threshold (${model.THRESHOLD_UP}V): reading overwrites a stored 0 with 1.`);
+  } else if (v <= model.THRESHOLD_DOWN) {
+    warnings.push(`Read bias ${v.toFixed(2)}V is at or past the down threshold (${model.THRESHOLD_DOWN}V): reading overwrites a stored 1 with 0.`);
+  } else if (model.THRESHOLD_UP - v < READ_GUARD || v - model.THRESHOLD_DOWN < READ_GUARD) {
+    warnings.push(`Read bias ${v.toFixed(2)}V is within ${READ_GUARD}V of a threshold: a small drive offset would flip the bit.`);
+  }
+  if (noise?.enabled && disturbProbability > DISTURB_LIMIT && disturbProbability < 1) {
+    warnings.push(`Each read flips a stored bit with probability ${disturbProbability.toExponential(1)} under the current noise.`);
+  }
+  if (Math.abs(margin) < 1e-9) {
+    warnings.push(`The branches cross at ${v.toFixed(2)}V (pinch point): the ${config.observable} cannot tell 0 from 1 here.`);
+  } else if (level <= Math.min(upper, lower) || level >= Math.max(upper, lower)) {
+    warnings.push(`Decision level ${level.toFixed(3)} ${unit} is outside both branch levels: every read returns the same value.`);
+  } else if (sigma > 0 && Math.abs(margin) < 6 * sigma) {
+    warnings.push(`Branch separation is only ${(Math.abs(margin) / sigma).toFixed(1)}σ of the readout noise.`);
+  }
+
+  return { upper, lower, margin, level, sigma, errorProbability, disturbProbability, warnings };
+};
+
+/**
+ * Branch separation across the full voltage range, for the margin plot.
+ */
+export const marginCurve = (
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  steps = 150
+): { voltage: number; margin: number }[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const voltage = CONSTANTS.VOLTAGE_MIN + (i / steps) * (CONSTANTS.VOLTAGE_MAX - CONSTANTS.VOLTAGE_MIN);
+    return { voltage, margin: readMargin(voltage, observable, model) };
+  });
+
+/**
+ * Best non-destructive read bias for an observable: the largest branch
+ * separation among voltages that keep READ_GUARD from both thresholds and
+ * stay under DISTURB_LIMIT. Near-ties go to the bias furthest from the
+ * thresholds. Also explains whether 0V is that bias.
+ */
+export const findBestReadBias = (
+  observable: Observable,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise?: NoiseConfig,
+  steps = 400
+): { voltage: number; margin: number; explanation: string } | null => {
+  const headroom = (v: number) => Math.min(model.THRESHOLD_UP - v, v - model.THRESHOLD_DOWN);
+  const candidates = marginCurve(observable, model, steps).filter(
+    ({ voltage }) => headroom(voltage) >= READ_GUARD && readDisturbProbability(voltage, model, noise) <= DISTURB_LIMIT
+  );
+  if (candidates.length === 0) return null;
+
+  const largest = Math.max(...candidates.map(c => Math.abs(c.margin)));
+  const best = candidates
+    .filter(c => Math.abs(c.margin) >= 0.99 * largest)
+    .reduce((a, b) => (headroom(b.voltage) > headroom(a.voltage) ? b : a));
+
+  const unit = OBSERVABLE_UNITS[observable];
+  const atZero = readMargin(0, observable, model);
+  const zeroSafe = headroom(0) >= READ_GUARD && readDisturbProbability(0, model, noise) <= DISTURB_LIMIT;
+  const zeroShare = largest > 0 ? Math.abs(atZero) / largest : 0;
+
+  let explanation: string;
+  if (!zeroSafe) {
+    explanation = `0V is not a safe read bias for this device: it lies too close to a threshold.`;
+  } else if (zeroShare >= 0.99) {
+    explanation = `0V is as good as any bias for the ${observable}: the separation there is ${Math.abs(atZero).toFixed(3)} ${unit}, the maximum.` +
+      (Math.abs(best.voltage) > 0.01 ? ` ${best.voltage.toFixed(2)}V sits midway between the thresholds and only adds headroom against disturbs.` : '');
+  } else if (Math.abs(atZero) < 1e-9) {
+    explanation = `0V is the worst bias: it is the pinch point where both ${observable} branches meet, so the bit cannot be read there. Read at ${best.voltage.toFixed(2)}V instead, where the branches are ${Math.abs(best.margin).toFixed(3)} ${unit} apart without crossing a threshold.`;
+  } else {
+    explanation = `0V gives only ${(zeroShare * 100).toFixed(0)}% of the best ${observable} separation (${Math.abs(atZero).toFixed(3)} vs ${Math.abs(best.margin).toFixed(3)} ${unit} at ${best.voltage.toFixed(2)}V), which still stays ${READ_GUARD}V clear of the thresholds.`;
+  }
+
+  return { voltage: best.voltage, margin: best.margin, explanation };
+};
+
+/**
+ * States visited by a read: the step to the read bias, then back to the bias
+ * the bit was held at. The observable is sampled at the read bias; multi-level
+ * cells read as the level whose curve lies closest to the sample.
+ */
+export const readBitTrace = (
+  state: SimulationState,
+  config: ReadConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  options: StepOptions = {}
+): { trace: SimulationState[]; result: ReadResult } => {
+  const sampled = stepSimulation(config.voltage, state, model, { ...options, dt: READ_PULSE_WIDTH });
+  const restored = stepSimulation(state.voltage, sampled, model, { ...options, dt: READ_PULSE_WIDTH });
+  const measured = sampled[config.observable];
+  const level = decisionLevel(config, model);
+  const upperIsHigher = readMargin(config.voltage, config.observable, model) >= 0;
+  return {
+    trace: [sampled, restored],
+    result: {
+      value: model.levels
+        ? nearestLevel(measured, config.voltage, config.observable, model.levels)
+        : (measured > level) === upperIsHigher ? 1 : 0,
+      measured,
+      level,
+      disturbed: levelOf(restored) !== levelOf(state),
+    },
+  };
+};
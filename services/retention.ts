@@ -0,0 +1,130 @@
+import { AgingConfig, DEFAULT_DEVICE_MODEL, DeviceModel, NoiseConfig, SimulationState } from '../types';
+import { calculateObservable } from './physicsEngine';
+import { levelCount, levelOf, nearestLevel } from './multiLevel';
+import { ReadConfig, decisionLevel, readMargin } from './readout';
+import { SECONDS_PER_HOUR, agedModel, retentionTimeAt, temperatureAt } from './aging';
+import { Simulation } from './simulationCore';
+
+// Coarse hold steps of an accelerated storage run; losses are timed to one step
+export const STORAGE_STEPS = 240;
+
+// Storage spans offered for accelerated runs
+export const STORAGE_DURATIONS: { label: string; seconds: number }[] = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86400 },
+  { label: '1 week', seconds: 604800 },
+  { label: '1 month', seconds: 2.63e6 },
+  { label: '1 year', seconds: 3.156e7 },
+  { label: '10 years', seconds: 3.156e8 },
+];
+
+// Read margin an endurance-limited device must keep, in readout noise sigmas
+export const ENDURANCE_SIGMAS = 3;
+
+export interface BitLoss {
+  bit: number;
+  time: number;                 // s into the storage run
+  cause: 'relaxed' | 'misread'; // Level lost, or drifted until a calibrated read fails
+}
+
+export interface StorageReport {
+  duration: number; // s
+  stored: number[]; // Level of each bit when storage began
+  losses: BitLoss[]; // First loss of each bit that lost its value, earliest first
+}
+
+/**
+ * Level a read returns when the readout follows `model` but the decision was
+ * calibrated on `calibration` (the curves at the time of writing).
+ */
+export const readCalibrated = (
+  state: SimulationState,
+  config: ReadConfig,
+  model: DeviceModel,
+  calibration: DeviceModel
+): number => {
+  const measured = calculateObservable(config.voltage, model.levels ? levelOf(state) : state.branch, config.observable, model);
+  if (calibration.levels) return nearestLevel(measured, config.voltage, config.observable, calibration.levels);
+  const upperIsHigher = readMargin(config.voltage, config.observable, calibration) >= 0;
+  return (measured > decisionLevel(config, calibration)) === upperIsHigher ? 1 : 0;
+};
+
+/**
+ * Accelerated storage: holds the register for `duration` seconds of
+ * simulation time in coarse steps and notes when each bit first loses its
+ * value, either relaxing or drifting until a read calibrated when storage
+ * began returns the wrong level.
+ */
+export const runStorage = (
+  sim: Simulation,
+  duration: number,
+  readConfig: ReadConfig,
+  steps = STORAGE_STEPS
+): StorageReport => {
+  const start = sim.getTime();
+  const stored = sim.getBits().map(levelOf);
+  const calibration = stored.map((_, i) => sim.getBitModel(i));
+  const losses: BitLoss[] = [];
+  const lost = stored.map(() => false);
+
+  for (let k = 0; k < steps; k++) {
+    sim.hold(duration / steps);
+    sim.getBits().forEach((bit, i) => {
+      if (lost[i]) return;
+      const cause = levelOf(bit) !== stored[i] ? 'relaxed'
+        : readCalibrated(bit, readConfig, sim.getBitModel(i), calibration[i]) !== stored[i] ? 'misread'
+        : null;
+      if (cause) {
+        lost[i] = true;
+        losses.push({ bit: i, time: sim.getTime() - start, cause });
+      }
+    });
+  }
+  return { duration, stored, losses };
+};
+
+export interface RetentionFigures {
+  retentionTime: number;     // s, mean life of a stored level at the current temperature
+  timeToOnePercent: number;  // s until 1% of stored levels have relaxed
+  driftLimit: number | null; // s until temperature drift alone makes a calibrated read fail (null: never)
+  endurance: number | null;  // Switching cycles until the read margin is gone (null: no fatigue)
+}
+
+/**
+ * Retention and endurance of a fresh device under the aging settings. The
+ * drift limit assumes the read was calibrated at the current temperature.
+ */
+export const retentionFigures = (
+  aging: AgingConfig,
+  readConfig: ReadConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise?: NoiseConfig,
+  time = 0
+): RetentionFigures => {
+  const retentionTime = retentionTimeAt(aging, temperatureAt(aging, time));
+  const fresh = agedModel(model, { ...aging, enabled: true }, 0, time);
+  const count = levelCount(model);
+
+  // Readouts of every level at the read bias; the closest pair (or a level
+  // and a fixed decision level) sets how far they may drift
+  const readouts = Array.from({ length: count }, (_, level) =>
+    calculateObservable(readConfig.voltage, fresh.levels ? level : level === 0 ? 'lower' : 'upper', readConfig.observable, fresh)
+  ).sort((a, b) => a - b);
+  const gaps = readouts.slice(1).map((v, k) => v - readouts[k]);
+  const margin = !fresh.levels && readConfig.threshold !== null
+    ? Math.min(...readouts.map(v => Math.abs(v - readConfig.threshold!)))
+    : Math.min(...gaps) / 2;
+
+  // Only the frequency readout drifts with temperature
+  const driftRate = readConfig.observable === 'frequency' ? Math.abs(aging.freqTempCoeff * aging.temperatureDrift) / SECONDS_PER_HOUR : 0;
+  const driftLimit = driftRate > 0 ? margin / driftRate : null;
+
+  // Fatigue draws the levels together by the loop factor; the narrowest gap
+  // must stay wider than the readout noise allows
+  const sigma = noise?.enabled ? (readConfig.observable === 'amplitude' ? noise.amplitudeNoise : noise.frequencyNoise) : 0;
+  const halfGap = Math.min(...gaps) / 2;
+  const needed = halfGap > 0 ? Math.min(1, (ENDURANCE_SIGMAS * sigma) / halfGap) : 1;
+  const endurance = aging.fatigueRate > 0 ? Math.pow(10, (1 - needed) / aging.fatigueRate) - 1 : null;
+
+  return { retentionTime, timeToOnePercent: -retentionTime * Math.log(0.99), driftLimit, endurance };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './physicsEngine';
+import { sampleAt } from './history';
+import { parseRunCSV, parseRunJSON, runToCSV } from './runFiles';
+import { DEFAULT_WAVEFORM } from './waveforms';
+
+const sample = (time: number, voltage: number) => ({ time, state: { ...createInitialState(), voltage } });
+
+describe('parseRunJSON', () => {
+  it('orders each bit\'s samples by time, as the CSV import does', () => {
+    const text = JSON.stringify({ bits: [[sample(0.2, 0.2), sample(0, 0), sample(0.1, 0.1)]] });
+    const { run } = parseRunJSON(text);
+    expect(run!.bits[0].map(s => s.time)).toEqual([0, 0.1, 0.2]);
+    expect(sampleAt(run!.bits[0], 0.15)?.state.voltage).toBe(0.1);
+  });
+});
+
+describe('imported register', () => {
+  it('keeps only known model keys', () => {
+    const { run } = parseRunJSON(JSON.stringify({ bits: [[sample(0, 0)]], model: { THRESHOLD_UP: 1.2, color: 'red' } }));
+    expect(run!.model.THRESHOLD_UP).toBe(1.2);
+    expect(run!.model).not.toHaveProperty('color');
+  });
+
+  it('falls back to the default for each invalid waveform field', () => {
+    const waveform = { kind: 'zigzag', amplitude: '1.2', offset: 0.3, period: -1, source: '' };
+    const { run, errors } = parseRunJSON(JSON.stringify({ bits: [[sample(0, 0)]], waveform }));
+    expect(run!.waveform).toEqual({ ...DEFAULT_WAVEFORM, offset: 0.3 });
+    expect(errors).toEqual([
+      'Saved waveform kind is invalid; using the default.',
+      'Saved waveform amplitude is invalid; using the default.',
+      'Saved waveform period is invalid; using the default.',
+    ]);
+  });
+
+  it('pads a run to the next register size and rejects one that is too wide', () => {
+    const { run, errors } = parseRunJSON(JSON.stringify({ bits: [[sample(0, 1)], [sample(0, 2)], [sample(0, 3)]] }));
+    expect(run!.bits).toHaveLength(4);
+    expect(run!.bits[0]).toEqual([]);
+    expect(run!.bits[3][0].state.voltage).toBe(3);
+    expect(errors).toEqual(['Run has 3 bits; replaying it on a 4-bit register.']);
+
+    const wide = { ...run!, bits: Array.from({ length: 17 }, () => [sample(0, 0)]) };
+    expect(parseRunCSV(runToCSV(wide)).run).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  CONSTANTS,
+  DEFAULT_DEVICE_MODEL,
+  DeviceModel,
+  HistorySample,
+  SimulationRun,
+  SimulationState,
+  SwitchingEvent,
+  WaveformConfig,
+} from '../types';
+import { calculateAmplitude, calculateFrequency } from './physicsEngine';
+import { knownModel, validateDeviceModel } from './deviceModel';
+import { REGISTER_SIZES } from './memoryRegister';
+import { DEFAULT_WAVEFORM, WAVEFORM_KINDS } from './waveforms';
+
+export const RUN_CSV_COLUMNS = ['bit', 'time_s', 'voltage_V', 'branch', 'frequency_kHz', 'amplitude_mV', 'direction'];
+
+// Stored level of each sample; optional on import (older files and two-branch runs have none)
+export const RUN_CSV_LEVEL_COLUMN = 'level';
+export const CURVE_CSV_COLUMNS = ['voltage_V', 'frequency_lower_kHz', 'frequency_upper_kHz', 'amplitude_lower_mV', 'amplitude_upper_mV'];
+
+export interface VoltageGrid {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const DEFAULT_VOLTAGE_GRID: VoltageGrid = {
+  min: CONSTANTS.VOLTAGE_MIN,
+  max: CONSTANTS.VOLTAGE_MAX,
+  step: 0.01,
+};
+
+const BRANCHES = ['upper', 'lower'];
+const DIRECTIONS = ['increasing', 'decreasing', 'stationary'];
+
+/**
+ * Packages recorded samples (and optionally the switching events) into a run.
+ * Times are shifted so the earliest sample is t=0.
+ */
+export const createRun = (
+  bits: HistorySample[][],
+  model: DeviceModel,
+  waveform: WaveformConfig,
+  speed: number,
+  events: SwitchingEvent[] = []
+): SimulationRun => {
+  const starts = bits.filter(samples => samples.length > 0).map(samples => samples[0].time);
+  const t0 = starts.length > 0 ? Math.min(...starts) : 0;
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    model,
+    waveform,
+    speed,
+    bits: bits.map(samples => samples.map(({ time, state }) => ({ time: time - t0, state }))),
+    events: events.filter(e => e.time >= t0).map(e => ({ ...e, time: e.time - t0 })),
+  };
+};
+
+export const runToJSON = (run: SimulationRun): string => JSON.stringify(run, null, 2);
+
+/**
+ * One row per sample, all bits in one long-format table (bit column first).
+ */
+export const runToCSV = (run: SimulationRun): string => {
+  const rows = [[...RUN_CSV_COLUMNS, RUN_CSV_LEVEL_COLUMN].join(',')];
+  run.bits.forEach((samples, bit) => {
+    for (const { time, state } of samples) {
+      rows.push([
+        bit,
+        time.toFixed(6),
+        state.voltage.toFixed(6),
+        state.branch,
+        state.frequency.toFixed(6),
+        state.amplitude.toFixed(6),
+        state.direction,
+        state.level ?? '',
+      ].join(','));
+    }
+  });
+  return rows.join('\n') + '\n';
+};
+
+const voltageGridPoints = (grid: VoltageGrid): number[] => {
+  const points: number[] = [];
+  const count = Math.floor((grid.max - grid.min) / grid.step + 1e-9);
+  for (let i = 0; i <= count; i++) points.push(grid.min + i * grid.step);
+  return points;
+};
+
+export const validateVoltageGrid = (grid: VoltageGrid): string[] => {
+  const errors: string[] = [];
+  if (![grid.min, grid.max, grid.step].every(Number.isFinite)) errors.push('Grid values must be numbers.');
+  else {
+    if (grid.step <= 0) errors.push('Grid step must be positive.');
+    if (grid.max <= grid.min) errors.push('Grid max must be above min.');
+    else if (grid.step > 0 && (grid.max - grid.min) / grid.step > 100000) errors.push('Grid has too many points.');
+  }
+  return errors;
+};
+
+/**
+ * Evaluates both static branches of both observables over a voltage grid.
+ */
+export const curvesToRows = (grid: VoltageGrid, model: DeviceModel = DEFAULT_DEVICE_MODEL) =>
+  voltageGridPoints(grid).map(v => ({
+    voltage: v,
+    frequencyLower: calculateFrequency(v, 'lower', model),
+    frequencyUpper: calculateFrequency(v, 'upper', model),
+    amplitudeLower: calculateAmplitude(v, 'lower', model),
+    amplitudeUpper: calculateAmplitude(v, 'upper', model),
+  }));
+
+export const curvesToCSV = (grid: VoltageGrid, model: DeviceModel = DEFAULT_DEVICE_MODEL): string => {
+  const rows = [CURVE_CSV_COLUMNS.join(',')];
+  for (const r of curvesToRows(grid, model)) {
+    rows.push([r.voltage, r.frequencyLower, r.frequencyUpper, r.amplitudeLower, r.amplitudeUpper].map(n => n.toFixed(6)).join(','));
+  }
+  return rows.join('\n') + '\n';
+};
+
+export const curvesToJSON = (grid: VoltageGrid, model: DeviceModel = DEFAULT_DEVICE_MODEL): string =>
+  JSON.stringify({ grid, model, curves: curvesToRows(grid, model) }, null, 2);
+
+export const isState = (s: unknown): s is SimulationState => {
+  const state = s as SimulationState;
+  return (
+    !!state &&
+    [state.voltage, state.frequency, state.amplitude].every(n => typeof n === 'number' && Number.isFinite(n)) &&
+    BRANCHES.includes(state.branch) &&
+    DIRECTIONS.includes(state.direction) &&
+    (state.level === undefined || (Number.isInteger(state.level) && state.level >= 0))
+  );
+};
+
+/**
+ * Fits a run's bits to a register size the UI offers: extra bits are added
+ * (they hold their initial state during replay). Null if the run is too wide.
+ */
+const fitRegister = (bits: HistorySample[][], errors: string[]): HistorySample[][] | null => {
+  const size = REGISTER_SIZES.find(n => n >= bits.length);
+  if (size === undefined) {
+    errors.push(`Run has ${bits.length} bits; the register holds at most ${REGISTER_SIZES[REGISTER_SIZES.length - 1]}.`);
+    return null;
+  }
+  if (size > bits.length) errors.push(`Run has ${bits.length} bits; replaying it on a ${size}-bit register.`);
+  return [...Array.from({ length: size - bits.length }, () => []), ...bits];
+};
+
+const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+/**
+ * Drive settings of a saved run, field by field: each missing or invalid
+ * field falls back to the default and is reported.
+ */
+const knownWaveform = (saved: unknown, errors: string[]): WaveformConfig => {
+  if (saved === undefined) return DEFAULT_WAVEFORM;
+  if (!saved || typeof saved !== 'object') {
+    errors.push('Saved drive waveform is invalid; using the default sine.');
+    return DEFAULT_WAVEFORM;
+  }
+  const source = saved as Partial<Record<keyof WaveformConfig, unknown>>;
+  const waveform: WaveformConfig = { ...DEFAULT_WAVEFORM };
+  const fallback = (field: string) => errors.push(`Saved waveform ${field} is invalid; using the default.`);
+
+  const kind = WAVEFORM_KINDS.find(k => k.kind === source.kind);
+  if (kind) waveform.kind = kind.kind;
+  else fallback('kind');
+  if (isNumber(source.amplitude)) waveform.amplitude = source.amplitude;
+  else fallback('amplitude');
+  if (isNumber(source.offset)) waveform.offset = source.offset;
+  else fallback('offset');
+  if (isNumber(source.period) && source.period > 0) waveform.period = source.period;
+  else fallback('period');
+  if (typeof source.source === 'string') waveform.source = source.source;
+  else fallback('source');
+  return waveform;
+};
+
+/**
+ * Parses a run saved by runToJSON. Missing model/waveform fall back to defaults.
+ */
+export const parseRunJSON = (text: string): { run: SimulationRun | null; errors: string[] } => {
+  let data: Partial<SimulationRun>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { run: null, errors: ['File is not valid JSON.'] };
+  }
+  if (!data || !Array.isArray(data.bits)) return { run: null, errors: ['JSON has no "bits" array.'] };
+
+  const errors: string[] = [];
+  const bits = data.bits.map((samples, bit) => {
+    if (!Array.isArray(samples)) {
+      errors.push(`Bit ${bit} is not a sample list.`);
+      return [];
+    }
+    const valid = samples.filter(s => typeof s?.time === 'number' && isState(s.state));
+    if (valid.length < samples.length) errors.push(`Bit ${bit}: skipped ${samples.length - valid.length} invalid samples.`);
+    return valid.map(({ time, state }) => ({
+      time,
+      state: {
+        voltage: state.voltage,
+        frequency: state.frequency,
+        amplitude: state.amplitude,
+        branch: state.branch,
+        direction: state.direction,
+        ...(state.level === undefined ? {} : { level: state.level }),
+      },
+    })).sort((a, b) => a.time - b.time);
+  });
+
+  const model = knownModel(data.model);
+  if (validateDeviceModel(model).length > 0) errors.push('Saved device model is invalid; using defaults.');
+  const register = fitRegister(bits, errors);
+  if (!register) return { run: null, errors };
+
+  return {
+    run: {
+      version: 1,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+      model: validateDeviceModel(model).length > 0 ? DEFAULT_DEVICE_MODEL : model,
+      waveform: knownWaveform(data.waveform, errors),
+      speed: typeof data.speed === 'number' && data.speed > 0 ? data.speed : 1,
+      bits: register,
+    },
+    errors,
+  };
+};
+
+/**
+ * Parses a run saved by runToCSV (columns may be in any order).
+ * CSV carries no model or drive settings, so defaults are used for those.
+ */
+export const parseRunCSV = (text: string): { run: SimulationRun | null; errors: string[] } => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return { run: null, errors: ['CSV file is empty.'] };
+
+  const header = lines[0].split(',').map(h => h.trim());
+  const col = Object.fromEntries(RUN_CSV_COLUMNS.map(name => [name, header.indexOf(name)]));
+  const missing = RUN_CSV_COLUMNS.filter(name => col[name] < 0);
+  if (missing.length > 0) return { run: null, errors: [`CSV is missing columns: ${missing.join(', ')}.`] };
+
+  const levelCol = header.indexOf(RUN_CSV_LEVEL_COLUMN);
+
+  const errors: string[] = [];
+  const bits: HistorySample[][] = [];
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(',').map(c => c.trim());
+    const bit = parseInt(cells[col.bit], 10);
+    const time = parseFloat(cells[col.time_s]);
+    const state = {
+      voltage: parseFloat(cells[col.voltage_V]),
+      frequency: parseFloat(cells[col.frequency_kHz]),
+      amplitude: parseFloat(cells[col.amplitude_mV]),
+      branch: cells[col.branch],
+      direction: cells[col.direction],
+      ...(levelCol >= 0 && cells[levelCol] ? { level: Number(cells[levelCol]) } : {}),
+    };
+    if (!(bit >= 0) || !Number.isFinite(time) || !isState(state)) {
+      errors.push(`Row ${i + 2} is invalid.`);
+      return;
+    }
+    while (bits.length <= bit) bits.push([]);
+    bits[bit].push({ time, state });
+  });
+
+  if (bits.length === 0) return { run: null, errors: errors.length > 0 ? errors : ['CSV has no samples.'] };
+  bits.forEach(samples => samples.sort((a, b) => a.time - b.time));
+  const register = fitRegister(bits, errors);
+  if (!register) return { run: null, errors };
+
+  return {
+    run: {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      model: DEFAULT_DEVICE_MODEL,
+      waveform: DEFAULT_WAVEFORM,
+      speed: 1,
+      bits: register,
+    },
+    errors: errors.length > 5 ? [...errors.slice(0, 5), `...and ${errors.length - 5} more invalid rows.`] : errors,
+  };
+};
+
+export const runDuration = (run: SimulationRun): number =>
+  Math.max(0, ...run.bits.map(samples => (samples.length > 0 ? samples[samples.length - 1].time : 0)));
+
+/**
+ * Triggers a browser download of a file.
+ */
+export const downloadBlob = (filename: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (filename: string, text: string, mimeType: string): void =>
+  downloadBlob(filename, new Blob([text], { type: mimeType }));
@@ -0,0 +1,116 @@
+import { CouplingConfig, DeviceModel, DynamicsConfig, NoiseConfig, SimulationRun, WaveformConfig } from '../types';
+import { DEFAULT_WAVEFORM, EXAMPLE_SCRIPTS } from './waveforms';
+import { createSimulation } from './simulationCore';
+
+/**
+ * A reproducible experiment: a drive, a register width, a run length and
+ * word writes at fixed times. Used by the CLI runner.
+ */
+export interface Scenario {
+  name: string;
+  description: string;
+  bitCount: number;
+  waveform: WaveformConfig;
+  duration: number; // s of simulation clock
+  writes?: { time: number; value: number; bit?: number }[]; // With `bit`, value is that bit only
+}
+
+export interface ScenarioRunOptions {
+  sampleDt: number; // Clock step between recorded samples (s)
+  model?: DeviceModel;
+  noise?: NoiseConfig;
+  dynamics?: DynamicsConfig;
+  coupling?: CouplingConfig;
+  speed?: number;
+}
+
+export const DEFAULT_SAMPLE_DT = 1 / 60;
+
+const scriptDrive = (source: string): WaveformConfig => ({ ...DEFAULT_WAVEFORM, kind: 'script', source });
+
+export const SCENARIOS: Scenario[] = [
+  {
+    name: 'sweep',
+    description: 'Two periods of the default 6 s sine sweep (traces the full pinched loop).',
+    bitCount: 1,
+    waveform: DEFAULT_WAVEFORM,
+    duration: 2 * DEFAULT_WAVEFORM.period,
+  },
+  {
+    name: 'minor-loop',
+    description: 'Sub-threshold minor loops around 0 V; the stored bit must not flip.',
+    bitCount: 1,
+    waveform: { ...DEFAULT_WAVEFORM, kind: 'minorLoop' },
+    duration: 3 * DEFAULT_WAVEFORM.period,
+  },
+  {
+    name: 'write-pulses',
+    description: 'Alternating +/-1.5 V write pulses with 2 s holds at 0 V.',
+    bitCount: 1,
+    waveform: scriptDrive(EXAMPLE_SCRIPTS[1].source),
+    duration: 10,
+  },
+  {
+    name: 'sub-threshold',
+    description: 'Writes, then disturbs below both thresholds before the next write.',
+    bitCount: 1,
+    waveform: scriptDrive(EXAMPLE_SCRIPTS[0].source),
+    duration: 14,
+  },
+  {
+    name: 'write-word',
+    description: 'Writes 0xA5 then 0x5A to an 8-bit register held at 0 V.',
+    bitCount: 8,
+    waveform: { ...DEFAULT_WAVEFORM, kind: 'dc', offset: 0 },
+    duration: 2,
+    writes: [{ time: 0.5, value: 0xa5 }, { time: 1.5, value: 0x5a }],
+  },
+  {
+    name: 'half-select',
+    description: 'Single-bit writes into an 8-bit register of 0x0F; run with --coupling to see neighbor disturbs.',
+    bitCount: 8,
+    waveform: { ...DEFAULT_WAVEFORM, kind: 'dc', offset: 0 },
+    duration: 3,
+    writes: [
+      { time: 0.25, value: 0x0f },
+      { time: 1, value: 1, bit: 2 },
+      { time: 2, value: 0, bit: 5 },
+    ],
+  },
+];
+
+export const findScenario = (name: string): Scenario | undefined =>
+  SCENARIOS.find(s => s.name === name.trim().toLowerCase());
+
+/**
+ * Runs a scenario headlessly in fixed clock steps and returns the recorded run.
+ */
+export const runScenario = (scenario: Scenario, options: ScenarioRunOptions): SimulationRun => {
+  const sim = createSimulation({
+    bitCount: scenario.bitCount,
+    waveform: scenario.waveform,
+    ...(options.model && { model: options.model }),
+    ...(options.noise && { noise: options.noise }),
+    ...(options.dynamics && { dynamics: options.dynamics }),
+    ...(options.coupling && { coupling: options.coupling }),
+    ...(options.speed && { speed: options.speed }),
+    // Keep every sample of the run
+    historyCapacity: Math.ceil(scenario.duration / options.sampleDt) + 4 * (scenario.writes?.length ?? 0) + 2,
+  });
+
+  const writes = [...(scenario.writes ?? [])].sort((a, b) => a.time - b.time);
+  let nextWrite = 0;
+
+  const steps = Math.round(scenario.duration / options.sampleDt);
+  for (let i = 0; i < steps; i++) {
+    while (nextWrite < writes.length && writes[nextWrite].time <= sim.getTime()) {
+      const { value, bit } = writes[nextWrite];
+      if (bit === undefined) sim.writeWord(value);
+      else sim.writeBit(bit, value ? 1 : 0);
+      nextWrite++;
+    }
+    sim.advance(options.sampleDt);
+  }
+
+  return sim.exportRun();
+};
@@ -0,0 +1,222 @@
+import {
+  AgingConfig,
+  AxisRange,
+  CouplingConfig,
+  DEFAULT_DEVICE_MODEL,
+  DeviceModel,
+  DynamicsConfig,
+  NoiseConfig,
+  Observable,
+  SimulationState,
+  WaveformConfig,
+} from '../types';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE } from './physicsEngine';
+import { knownModel, validateDeviceModel } from './deviceModel';
+import { DEFAULT_WAVEFORM, WAVEFORM_KINDS } from './waveforms';
+import { DEFAULT_COUPLING } from './crosstalk';
+import { DEFAULT_AGING, validateAging } from './aging';
+import { DEFAULT_READ_CONFIG, ReadConfig } from './readout';
+import { DEFAULT_AXIS_RANGES } from './chartScale';
+import { REGISTER_SIZES, createRegister } from './memoryRegister';
+import { isState } from './runFiles';
+
+export type ChartView = 'both' | Observable;
+
+// Everything needed to reopen the app where it was left, locally or from a shared link
+export interface SessionState {
+  version: 1;
+  bits: SimulationState[]; // Index 0 = MSB
+  driveTime: number;       // s into the drive waveform
+  playing: boolean;
+  speed: number;
+  model: DeviceModel;
+  waveform: WaveformConfig;
+  noise: NoiseConfig;
+  dynamics: DynamicsConfig;
+  coupling: CouplingConfig;
+  aging: AgingConfig;
+  readConfig: ReadConfig;
+  chartView: ChartView;
+  axisRanges: Record<Observable, AxisRange>;
+  showTrail: boolean;
+}
+
+export const STORAGE_KEY = 'hysteresis-session';
+
+// URL fragment parameter carrying an encoded session (never sent to a server)
+export const URL_PARAM = 'session';
+
+// Speed slider range
+export const SPEED_RANGE: [number, number] = [0.1, 3];
+
+const OBSERVABLES: Observable[] = ['frequency', 'amplitude'];
+const CHART_VIEWS: ChartView[] = ['both', ...OBSERVABLES];
+
+export const DEFAULT_SESSION: SessionState = {
+  version: 1,
+  bits: createRegister(1, DEFAULT_DEVICE_MODEL),
+  driveTime: 0,
+  playing: true,
+  speed: 1,
+  model: DEFAULT_DEVICE_MODEL,
+  waveform: DEFAULT_WAVEFORM,
+  noise: DEFAULT_NOISE,
+  dynamics: DEFAULT_DYNAMICS,
+  coupling: DEFAULT_COUPLING,
+  aging: DEFAULT_AGING,
+  readConfig: DEFAULT_READ_CONFIG,
+  chartView: 'both',
+  axisRanges: DEFAULT_AXIS_RANGES,
+  showTrail: true,
+};
+
+// Keeps the fields of `defaults` whose saved value has the same type (null allowed where the default is null)
+const mergeKnown = <T extends object>(defaults: T, saved: unknown): T => {
+  if (!saved || typeof saved !== 'object') return defaults;
+  const source = saved as Record<string, unknown>;
+  const merged = { ...defaults } as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, value]) => {
+    const candidate = source[key];
+    const sameType = typeof candidate === typeof value && (typeof candidate !== 'number' || Number.isFinite(candidate));
+    if (sameType || (value === null && typeof candidate === 'number') || (typeof value === 'number' && candidate === null)) {
+      merged[key] = candidate;
+    }
+  });
+  return merged as T;
+};
+
+/**
+ * Checks a decoded session and fills gaps from the defaults. Invalid parts
+ * fall back individually and are reported, so a half-broken link still opens.
+ */
+export const parseSession = (data: unknown): { session: SessionState | null; errors: string[] } => {
+  if (!data || typeof data !== 'object') return { session: null, errors: ['Session is not an object.'] };
+  const saved = data as Partial<Record<keyof SessionState, unknown>>;
+  if (saved.version !== 1) return { session: null, errors: [`Unsupported session version ${String(saved.version)}.`] };
+  const errors: string[] = [];
+
+  let model = knownModel(saved.model);
+  if (validateDeviceModel(model).length > 0) {
+    errors.push('Saved device model is invalid; using defaults.');
+    model = DEFAULT_DEVICE_MODEL;
+  }
+
+  // A script with errors is kept as typed; the waveform panel reports them
+  let waveform = mergeKnown(DEFAULT_WAVEFORM, saved.waveform);
+  if (!WAVEFORM_KINDS.some(k => k.kind === waveform.kind)) {
+    errors.push('Saved drive waveform is invalid; using the default sine.');
+    waveform = DEFAULT_WAVEFORM;
+  }
+
+  let bits = Array.isArray(saved.bits) ? saved.bits.filter(isState) : [];
+  if (!REGISTER_SIZES.includes(bits.length) || bits.length !== (saved.bits as unknown[]).length) {
+    errors.push('Saved bit states are invalid; starting from a fresh register.');
+    bits = createRegister(REGISTER_SIZES.includes(bits.length) ? bits.length : 1, model);
+  }
+
+  const speed = typeof saved.speed === 'number' && saved.speed >= SPEED_RANGE[0] && saved.speed <= SPEED_RANGE[1]
+    ? saved.speed
+    : DEFAULT_SESSION.speed;
+  const readConfig = mergeKnown(DEFAULT_READ_CONFIG, saved.readConfig);
+  let aging = mergeKnown(DEFAULT_AGING, saved.aging);
+  if (validateAging(aging).length > 0) {
+    errors.push('Saved aging settings are invalid; aging is off.');
+    aging = DEFAULT_AGING;
+  }
+  const axisRanges = saved.axisRanges as Partial<Record<Observable, unknown>> | undefined;
+
+  return {
+    session: {
+      version: 1,
+      bits,
+      driveTime: typeof saved.driveTime === 'number' && saved.driveTime >= 0 ? saved.driveTime : 0,
+      playing: typeof saved.playing === 'boolean' ? saved.playing : DEFAULT_SESSION.playing,
+      speed,
+      model,
+      waveform,
+      noise: mergeKnown(DEFAULT_NOISE, saved.noise),
+      dynamics: mergeKnown(DEFAULT_DYNAMICS, saved.dynamics),
+      coupling: mergeKnown(DEFAULT_COUPLING, saved.coupling),
+      aging,
+      readConfig: OBSERVABLES.includes(readConfig.observable) ? readConfig : DEFAULT_READ_CONFIG,
+      chartView: CHART_VIEWS.includes(saved.chartView as ChartView) ? saved.chartView as ChartView : DEFAULT_SESSION.chartView,
+      axisRanges: {
+        amplitude: mergeKnown(DEFAULT_AXIS_RANGES.amplitude, axisRanges?.amplitude),
+        frequency: mergeKnown(DEFAULT_AXIS_RANGES.frequency, axisRanges?.frequency),
+      },
+      showTrail: typeof saved.showTrail === 'boolean' ? saved.showTrail : DEFAULT_SESSION.showTrail,
+    },
+    errors,
+  };
+};
+
+// JSON as URL-safe base64 (UTF-8, so script comments and labels survive)
+export const encodeSession = (session: SessionState): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(session));
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeSession = (text: string): { session: SessionState | null; errors: string[] } => {
+  let data: unknown;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    data = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+  } catch {
+    return { session: null, errors: ['Session link is corrupted.'] };
+  }
+  return parseSession(data);
+};
+
+/**
+ * Link that reopens the session: the current page with the encoded session
+ * in the fragment.
+ */
+export const sessionURL = (session: SessionState, base: string): string => {
+  const url = new URL(base);
+  url.hash = `${URL_PARAM}=${encodeSession(session)}`;
+  return url.toString();
+};
+
+// Encoded session in a URL fragment, if any
+const sessionFromHash = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(URL_PARAM);
+
+/**
+ * Session to start from: a shared link wins over the last local session.
+ * Browser only (reads location and localStorage).
+ */
+export const loadSession = (): { session: SessionState | null; source: 'link' | 'local' | null; errors: string[] } => {
+  const encoded = sessionFromHash(window.location.hash);
+  if (encoded) return { ...decodeSession(encoded), source: 'link' };
+
+  let stored: string | null = null;
+  try {
+    stored = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled (private mode, sandboxed frame): start fresh
+  }
+  if (!stored) return { session: null, source: null, errors: [] };
+  try {
+    return { ...parseSession(JSON.parse(stored)), source: 'local' };
+  } catch {
+    return { session: null, source: 'local', errors: ['Saved session is corrupted; starting fresh.'] };
+  }
+};
+
+export const saveSession = (session: SessionState): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    // Quota exceeded or storage disabled: persistence is best effort
+  }
+};
+
+export const clearSession = (): void => {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing saved to clear
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEVICE_MODEL } from '../types';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE } from './physicsEngine';
+import { DEFAULT_SHMOO_CONFIG, ShmooConfig, computeShmoo, safestPoint, shmooPoint, shmooToCSV, validateShmoo } from './shmoo';
+
+const model = DEFAULT_DEVICE_MODEL;
+const config = DEFAULT_SHMOO_CONFIG;
+
+describe('shmoo point', () => {
+  it('passes a full write pulse and fails one short of the threshold', () => {
+    expect(shmooPoint(1.5, 0.1, 0, config, model).pass).toBe(true);
+    expect(shmooPoint(-1.5, 0.1, 0, config, model).pass).toBe(true);
+    const weak = shmooPoint(model.THRESHOLD_UP - 0.05, 0.1, 0, config, model);
+    expect(weak.writeSuccess).toBe(0.5); // Only the bit that already held 1
+    expect(weak.readMargin).toBeLessThan(0);
+  });
+
+  it('flags a pulse whose half-select fraction switches the neighbour', () => {
+    const strong = shmooPoint(2 * model.THRESHOLD_UP + 0.1, 0.1, 0, config, model);
+    expect(strong.writeSuccess).toBe(1);
+    expect(strong.disturbRate).toBe(1);
+    expect(strong.pass).toBe(false);
+    expect(shmooPoint(2 * model.THRESHOLD_UP + 0.1, 0.1, 0, { ...config, scheme: 'third' }, model).pass).toBe(true);
+  });
+
+  it('counts a read past a threshold as a disturb', () => {
+    expect(shmooPoint(-1.5, 0.1, model.THRESHOLD_UP + 0.05, config, model).disturbRate).toBe(1);
+    expect(shmooPoint(1.5, 0.1, model.THRESHOLD_UP + 0.05, config, model).disturbRate).toBe(0);
+  });
+
+  it('needs the minimum dwell in the dynamic mode', () => {
+    const dynamics = { ...DEFAULT_DYNAMICS, enabled: true };
+    expect(shmooPoint(1.5, dynamics.minDwell / 2, 0, config, model, DEFAULT_NOISE, dynamics).writeSuccess).toBeLessThan(1);
+    expect(shmooPoint(1.5, dynamics.minDwell * 2, 0, config, model, DEFAULT_NOISE, dynamics).pass).toBe(true);
+  });
+});
+
+describe('shmoo sweep', () => {
+  const small: ShmooConfig = {
+    ...config,
+    sweeps: { ...config.sweeps, amplitude: { min: -3, max: 3, steps: 13 }, width: { min: 0.05, max: 0.2, steps: 3 } },
+  };
+
+  it('is the same sweep each time in stochastic mode, row by row', () => {
+    const noise = { ...DEFAULT_NOISE, enabled: true };
+    const rows: number[] = [];
+    const a = computeShmoo({ ...small, trials: 5 }, model, noise, DEFAULT_DYNAMICS, (_, j) => rows.push(j));
+    const b = computeShmoo({ ...small, trials: 5 }, model, noise);
+    expect(rows).toEqual([0, 1, 2]);
+    expect(a.rows).toEqual(b.rows);
+  });
+
+  it('centres the safest point inside the window and exports every point', () => {
+    const result = computeShmoo(small, model);
+    const safest = safestPoint(result)!;
+    expect(safest.pass).toBe(true);
+    expect(Math.abs(safest.amplitude)).toBeGreaterThanOrEqual(1.5);
+    expect(Math.abs(safest.amplitude)).toBeLessThanOrEqual(2);
+    expect(shmooToCSV(result).trim().split('\n')).toHaveLength(1 + 13 * 3);
+  });
+
+  it('rejects unusable sweeps', () => {
+    expect(validateShmoo(config, model)).toEqual([]);
+    expect(validateShmoo({ ...config, y: 'amplitude' }, model)).toContain('Sweep two different quantities on the axes.');
+    expect(validateShmoo({ ...config, sweeps: { ...config.sweeps, width: { min: 0, max: 0.1, steps: 5 } } }, model)).toContain('Pulse width must be positive.');
+    expect(validateShmoo(config, { ...model, levels: { BRANCHES: [], THRESHOLDS_UP: [], THRESHOLDS_DOWN: [] } })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,257 @@
+import { CONSTANTS, DEFAULT_DEVICE_MODEL, DeviceModel, DynamicsConfig, HalfSelectScheme, NoiseConfig, Observable, SimulationState } from '../types';
+import { DEFAULT_DYNAMICS, DEFAULT_NOISE, StepOptions, stepSimulation } from './physicsEngine';
+import { WRITE_PULSE_VOLTAGE, WRITE_PULSE_WIDTH, WRITE_SETTLE_TIME } from './memoryRegister';
+import { readBitTrace, readMargin } from './readout';
+import { restingBit } from './writeTiming';
+import { halfSelectFraction } from './crosstalk';
+import { createRng } from './random';
+
+// Quantities a shmoo plot can sweep along its axes
+export type ShmooAxis = 'amplitude' | 'width' | 'readVoltage';
+
+// Branch the bit rests on before the pulse; 'either' keeps the worse of the two
+export type ShmooStart = 0 | 1 | 'either';
+
+export type ShmooMetric = 'write' | 'disturb' | 'margin' | 'window';
+
+export interface AxisSweep {
+  min: number;
+  max: number;
+  steps: number; // Grid points, both ends included
+}
+
+export interface ShmooConfig {
+  x: ShmooAxis;
+  y: ShmooAxis;
+  sweeps: Record<ShmooAxis, AxisSweep>;
+  fixed: Record<ShmooAxis, number>; // Value of the axis that is not swept
+  start: ShmooStart;
+  observable: Observable;           // Readout used for the read margin
+  scheme: HalfSelectScheme;         // Bias on the half-selected neighbour during the pulse
+  trials: number;                   // Repeats per point in stochastic mode
+}
+
+export interface ShmooPoint {
+  amplitude: number;    // V, signed: positive pulses write 1, negative ones 0
+  width: number;        // s
+  readVoltage: number;  // V
+  writeSuccess: number; // Fraction of writes that left the bit on the target branch
+  disturbRate: number;  // Fraction of trials where the half-selected neighbour or the read flipped a bit
+  readMargin: number;   // Mean readout distance from the decision level towards the target value (negative: misread)
+  pass: boolean;        // Inside the operating window
+}
+
+export interface ShmooResult {
+  config: ShmooConfig;
+  xValues: number[];
+  yValues: number[];
+  rows: ShmooPoint[][]; // One row per y value
+  sigma: number;        // Readout noise the margin was judged against
+}
+
+export const SHMOO_AXES: { axis: ShmooAxis; label: string; unit: string }[] = [
+  { axis: 'amplitude', label: 'Pulse amplitude', unit: 'V' },
+  { axis: 'width', label: 'Pulse width', unit: 's' },
+  { axis: 'readVoltage', label: 'Read voltage', unit: 'V' },
+];
+
+export const DEFAULT_SHMOO_CONFIG: ShmooConfig = {
+  x: 'amplitude',
+  y: 'width',
+  sweeps: {
+    amplitude: { min: -3, max: 3, steps: 25 },
+    width: { min: 0.01, max: 0.5, steps: 20 },
+    readVoltage: { min: -1.2, max: 1.2, steps: 25 },
+  },
+  fixed: { amplitude: WRITE_PULSE_VOLTAGE, width: WRITE_PULSE_WIDTH, readVoltage: 0 },
+  start: 'either',
+  observable: 'frequency',
+  scheme: 'half',
+  trials: 50,
+};
+
+// Largest grid side and trial count a sweep may ask for
+export const MAX_SHMOO_STEPS = 60;
+export const MAX_SHMOO_TRIALS = 1000;
+
+// Read margin a passing point must keep, in readout noise sigmas
+export const SHMOO_MARGIN_SIGMAS = 3;
+
+export const axisValues = ({ min, max, steps }: AxisSweep): number[] =>
+  Array.from({ length: steps }, (_, i) => (steps === 1 ? min : min + ((max - min) * i) / (steps - 1)));
+
+/**
+ * Checks a sweep against the model. Returns human-readable problems (empty if valid).
+ */
+export const validateShmoo = (config: ShmooConfig, model: DeviceModel = DEFAULT_DEVICE_MODEL): string[] => {
+  if (model.levels) return ['The shmoo plot needs a two-branch model (each bit holds 0 or 1).'];
+  const errors: string[] = [];
+  if (config.x === config.y) errors.push('Sweep two different quantities on the axes.');
+  if (!Number.isInteger(config.trials) || config.trials < 1 || config.trials > MAX_SHMOO_TRIALS) {
+    errors.push(`Trials must be a whole number from 1 to ${MAX_SHMOO_TRIALS}.`);
+  }
+  const limit = 2 * CONSTANTS.VOLTAGE_MAX;
+  SHMOO_AXES.forEach(({ axis, label }) => {
+    const swept = axis === config.x || axis === config.y;
+    const { min, max, steps } = config.sweeps[axis];
+    const values = swept ? [min, max] : [config.fixed[axis]];
+    if (values.some(v => !Number.isFinite(v))) {
+      errors.push(`${label} must be a number.`);
+      return;
+    }
+    if (swept && (min >= max || !Number.isInteger(steps) || steps < 2 || steps > MAX_SHMOO_STEPS)) {
+      errors.push(`${label} needs min < max and 2 to ${MAX_SHMOO_STEPS} steps.`);
+    }
+    if (axis === 'width' && values.some(v => v <= 0)) errors.push('Pulse width must be positive.');
+    if (axis !== 'width' && values.some(v => Math.abs(v) > limit)) errors.push(`${label} must stay within ±${limit}V.`);
+  });
+  return errors;
+};
+
+// Readout noise of the observable (0 when deterministic)
+const readoutSigma = (observable: Observable, noise: NoiseConfig): number =>
+  noise.enabled ? (observable === 'amplitude' ? noise.amplitudeNoise : noise.frequencyNoise) : 0;
+
+// Pulse to `voltage` for `width`, then settle at 0V
+const applyPulse = (state: SimulationState, voltage: number, width: number, model: DeviceModel, options: StepOptions) =>
+  stepSimulation(0, stepSimulation(voltage, state, model, { ...options, dt: width }), model, { ...options, dt: WRITE_SETTLE_TIME });
+
+/**
+ * One grid point: writes from each starting branch with the pulse, pulses a
+ * half-selected neighbour holding the other value with the scheme's fraction
+ * of it, then reads the written bit back. Rates are over all trials; the
+ * margin keeps the worse starting branch.
+ */
+export const shmooPoint = (
+  amplitude: number,
+  width: number,
+  readVoltage: number,
+  config: ShmooConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise: NoiseConfig = DEFAULT_NOISE,
+  dynamics: DynamicsConfig = DEFAULT_DYNAMICS,
+  seed = noise.seed
+): ShmooPoint => {
+  const options: StepOptions = { noise, dynamics, rng: createRng(seed) };
+  const target: 0 | 1 = amplitude >= 0 ? 1 : 0;
+  const targetBranch = target === 1 ? 'upper' : 'lower';
+  const otherBranch = target === 1 ? 'lower' : 'upper';
+  const starts: (0 | 1)[] = config.start === 'either' ? [0, 1] : [config.start];
+  // The deterministic model gives the same outcome every time
+  const trials = noise.enabled ? config.trials : 1;
+  const fraction = halfSelectFraction(config.scheme);
+  const readConfig = { voltage: readVoltage, observable: config.observable, threshold: null };
+  // Sign that turns "above the decision level" into "towards the target value"
+  const towardsTarget = (readMargin(readVoltage, config.observable, model) >= 0) === (target === 1) ? 1 : -1;
+
+  let written = 0;
+  let disturbed = 0;
+  const margins = starts.map(start => {
+    let sum = 0;
+    for (let t = 0; t < trials; t++) {
+      const state = applyPulse(restingBit(start === 1 ? 'upper' : 'lower', model), amplitude, width, model, options);
+      if (state.branch === targetBranch) written++;
+
+      const neighbour = applyPulse(restingBit(otherBranch, model), amplitude * fraction, width, model, options);
+      const { result } = readBitTrace(state, readConfig, model, options);
+      if (neighbour.branch === targetBranch || result.disturbed) disturbed++;
+
+      sum += towardsTarget * (result.measured - result.level);
+    }
+    return sum / trials;
+  });
+
+  const runs = trials * starts.length;
+  const writeSuccess = written / runs;
+  const disturbRate = disturbed / runs;
+  const margin = Math.min(...margins);
+  return {
+    amplitude,
+    width,
+    readVoltage,
+    writeSuccess,
+    disturbRate,
+    readMargin: margin,
+    pass: writeSuccess === 1 && disturbRate === 0 && margin > SHMOO_MARGIN_SIGMAS * readoutSigma(config.observable, noise),
+  };
+};
+
+/**
+ * Sweeps the grid row by row (one row per y value). `onRow` sees each row as
+ * it finishes, so a worker can report progress. Every point draws from its
+ * own seed, so a point's result does not depend on the rest of the grid.
+ */
+export const computeShmoo = (
+  config: ShmooConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  noise: NoiseConfig = DEFAULT_NOISE,
+  dynamics: DynamicsConfig = DEFAULT_DYNAMICS,
+  onRow?: (row: ShmooPoint[], index: number) => void
+): ShmooResult => {
+  const xValues = axisValues(config.sweeps[config.x]);
+  const yValues = axisValues(config.sweeps[config.y]);
+  const rows = yValues.map((yValue, j) => {
+    const row = xValues.map((xValue, i) => {
+      const at = { ...config.fixed, [config.x]: xValue, [config.y]: yValue };
+      return shmooPoint(at.amplitude, at.width, at.readVoltage, config, model, noise, dynamics, noise.seed + j * xValues.length + i);
+    });
+    onRow?.(row, j);
+    return row;
+  });
+  return { config, xValues, yValues, rows, sigma: readoutSigma(config.observable, noise) };
+};
+
+// Messages between the panel and the shmoo worker
+export interface ShmooRequest {
+  config: ShmooConfig;
+  model: DeviceModel;
+  noise: NoiseConfig;
+  dynamics: DynamicsConfig;
+}
+
+export type ShmooMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: ShmooResult };
+
+// Fraction of grid points inside the operating window
+export const windowFraction = (result: ShmooResult): number => {
+  const points = result.rows.flat();
+  return points.length === 0 ? 0 : points.filter(p => p.pass).length / points.length;
+};
+
+/**
+ * Passing point deepest inside the window: the most grid cells away from the
+ * nearest failing point (or the grid edge), larger read margin on ties. This
+ * is the setting to start a protocol from; null when nothing passes.
+ */
+export const safestPoint = (result: ShmooResult): ShmooPoint | null => {
+  const points = result.rows.flatMap((row, j) => row.map((point, i) => ({ point, i, j })));
+  const failing = points.filter(p => !p.point.pass);
+  const height = result.rows.length;
+  const width = result.rows[0]?.length ?? 0;
+
+  let best: ShmooPoint | null = null;
+  let bestDepth = 0;
+  for (const { point, i, j } of points) {
+    if (!point.pass) continue;
+    const depth = Math.min(
+      Math.min(i, j, width - 1 - i, height - 1 - j) + 1,
+      ...failing.map(f => Math.max(Math.abs(f.i - i), Math.abs(f.j - j)))
+    );
+    if (!best || depth > bestDepth || (depth === bestDepth && point.readMargin > best.readMargin)) {
+      best = point;
+      bestDepth = depth;
+    }
+  }
+  return best;
+};
+
+export const SHMOO_CSV_COLUMNS = ['amplitude_V', 'width_s', 'read_voltage_V', 'write_success', 'disturb_rate', 'read_margin', 'pass'];
+
+export const shmooToCSV = (result: ShmooResult): string => {
+  const rows = [SHMOO_CSV_COLUMNS.join(',')];
+  result.rows.flat().forEach(p => {
+    rows.push([p.amplitude, p.width, p.readVoltage, p.writeSuccess, p.disturbRate, p.readMargin].map(n => n.toFixed(6)).concat(p.pass ? '1' : '0').join(','));
+  });
+  return rows.join('\n') + '\n';
+};
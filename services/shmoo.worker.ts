@@ -0,0 +1,14 @@
+import { ShmooMessage, ShmooRequest, computeShmoo } from './shmoo';
+
+/**
+ * Runs a shmoo sweep off the UI thread, reporting each finished row.
+ */
+const scope = self as unknown as Worker;
+
+scope.onmessage = (e: MessageEvent<ShmooRequest>) => {
+  const { config, model, noise, dynamics } = e.data;
+  const post = (message: ShmooMessage) => scope.postMessage(message);
+  const total = config.sweeps[config.y].steps;
+  const result = computeShmoo(config, model, noise, dynamics, (_, index) => post({ type: 'progress', done: index + 1, total }));
+  post({ type: 'done', result });
+};
@@ -0,0 +1,424 @@
+import {
+  AgingConfig,
+  CouplingConfig,
+  DEFAULT_DEVICE_MODEL,
+  DeviceModel,
+  DynamicsConfig,
+  NoiseConfig,
+  SimulationRun,
+  SimulationState,
+  SwitchingEvent,
+  WaveformConfig,
+} from '../types';
+import { advanceAlongDrive, detectSwitch, stepSimulation, DEFAULT_DYNAMICS, DEFAULT_NOISE, MAX_SUBSTEP, StepOptions } from './physicsEngine';
+import { RngState, createRng } from './random';
+import { CompiledWaveform, DEFAULT_WAVEFORM, compileWaveform } from './waveforms';
+import { WRITE_PULSE_WIDTH, WRITE_SETTLE_TIME, createRegister, resizeRegister, wordToLevels, writeBitTrace } from './memoryRegister';
+import { levelCount, levelOf } from './multiLevel';
+import {
+  HISTORY_CAPACITY,
+  RegisterHistory,
+  RingBuffer,
+  clearRingBuffer,
+  createRegisterHistory,
+  createRingBuffer,
+  dropNewest,
+  itemAt,
+  pushRingBuffer,
+  recordRegister,
+  resizeRegisterHistory,
+  toArray,
+} from './history';
+import { createRun } from './runFiles';
+import { ReadConfig, ReadResult, readBitTrace } from './readout';
+import { DEFAULT_COUPLING, coupledWriteTraces, effectiveVoltages } from './crosstalk';
+import { DEFAULT_AGING, agedModel, relaxStored, retentionTimeAt, temperatureAt } from './aging';
+
+export const EVENT_LOG_CAPACITY = 10000;
+
+export interface SimulationConfig {
+  bitCount: number;
+  model: DeviceModel;
+  waveform: WaveformConfig;
+  noise: NoiseConfig;
+  dynamics: DynamicsConfig;
+  coupling: CouplingConfig;
+  aging: AgingConfig;
+  speed: number; // Drive time per clock second
+  historyCapacity: number;
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  bitCount: 1,
+  model: DEFAULT_DEVICE_MODEL,
+  waveform: DEFAULT_WAVEFORM,
+  noise: DEFAULT_NOISE,
+  dynamics: DEFAULT_DYNAMICS,
+  coupling: DEFAULT_COUPLING,
+  aging: DEFAULT_AGING,
+  speed: 1,
+  historyCapacity: HISTORY_CAPACITY,
+};
+
+// Outcome of a write; flips and failures are bit indices
+export interface WriteReport {
+  events: SwitchingEvent[];
+  flipped: number[]; // Bits that were not written but changed (crosstalk)
+  failed: number[];  // Written bits that did not end on their target
+}
+
+// Dynamic state at one instant; restoring it rewinds the register, clock,
+// drive position and random sequence (configuration is not part of it)
+export interface SimulationSnapshot {
+  time: number;
+  driveTime: number;
+  bits: SimulationState[];
+  applied: number[];
+  rng: RngState;
+  eventCount: number;
+  cycles: number[];
+}
+
+/**
+ * Framework-free simulation: a register of bits, one drive source shared by
+ * all bits, a simulation clock and an event log. The UI and the CLI both
+ * drive it; nothing here touches the DOM or React.
+ */
+export interface Simulation {
+  getConfig: () => SimulationConfig;
+  getBits: () => SimulationState[];
+  getTime: () => number;      // Simulation clock (s), monotonic until reset
+  getDriveTime: () => number; // Position within the drive (s), restarts with the waveform
+  getDrive: () => CompiledWaveform;
+  getHistory: () => RegisterHistory;
+  getEvents: (count?: number) => SwitchingEvent[];
+  getEventCount: () => number;
+  getCycles: () => number[];                 // Switches of each bit so far (aging fatigue)
+  getBitModel: (bit: number) => DeviceModel; // Model of a bit after aging (the configured model when off)
+
+  advance: (dt: number) => SwitchingEvent[];
+  hold: (dt: number) => SwitchingEvent[];
+  setVoltage: (bit: number, voltage: number) => SwitchingEvent[];
+  writeBit: (bit: number, value: number) => WriteReport; // value: level on multi-level models
+  writeWord: (value: number) => WriteReport;
+  pulse: (bit: number, voltage: number) => SwitchingEvent[];
+  read: (config: ReadConfig) => ReadResult[];
+  setStates: (states: SimulationState[], dt?: number) => void;
+  restore: (states: SimulationState[], driveTime: number) => void;
+
+  setModel: (model: DeviceModel) => void;
+  setWaveform: (waveform: WaveformConfig) => void;
+  setNoise: (noise: NoiseConfig) => void;
+  setDynamics: (dynamics: DynamicsConfig) => void;
+  setCoupling: (coupling: CouplingConfig) => void;
+  setAging: (aging: AgingConfig) => void;
+  setSpeed: (speed: number) => void;
+  resize: (bitCount: number) => void;
+  restartDrive: () => void;
+  reset: () => void;
+
+  snapshot: () => SimulationSnapshot;
+  restoreSnapshot: (snapshot: SimulationSnapshot, events?: SwitchingEvent[]) => void;
+
+  exportRun: () => SimulationRun;
+}
+
+export const createSimulation = (overrides: Partial<SimulationConfig> = {}): Simulation => {
+  const config: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, ...overrides };
+
+  let bits = createRegister(config.bitCount, config.model);
+  let applied: number[] = bits.map(() => 0); // Electrode voltages (before crosstalk)
+  let history = createRegisterHistory(config.bitCount, config.historyCapacity);
+  const events: RingBuffer<SwitchingEvent> = createRingBuffer(EVENT_LOG_CAPACITY);
+  let eventCount = 0;
+  let cycles: number[] = bits.map(() => 0);
+  let time = 0;
+  let driveTime = 0;
+  let drive = compileWaveform(config.waveform, config.model);
+  let rng = createRng(config.noise.seed);
+
+  const stepOptions = (): StepOptions => ({ noise: config.noise, rng, dynamics: config.dynamics });
+
+  const log = (newEvents: SwitchingEvent[]) => {
+    newEvents.forEach(e => {
+      pushRingBuffer(events, e);
+      // Only driven switches wear the loop
+      if (!e.relaxed) cycles[e.bit]++;
+    });
+    eventCount += newEvents.length;
+    return newEvents;
+  };
+
+  const modelOf = (bit: number) => agedModel(config.model, config.aging, cycles[bit] ?? 0, time);
+
+  // Stored levels lost to relaxation over the next dt (aging mode only)
+  const relaxAll = (states: SimulationState[], dt: number, newEvents: SwitchingEvent[]) => {
+    if (!config.aging.enabled) return states;
+    const retention = retentionTimeAt(config.aging, temperatureAt(config.aging, time + dt / 2));
+    return states.map((state, i) => {
+      const relaxed = relaxStored(state, dt, retention, modelOf(i), rng);
+      const event = detectSwitch(state, relaxed, relaxed.voltage, time, dt, modelOf(i), i);
+      if (event) newEvents.push({ ...event, relaxed: true });
+      return relaxed;
+    });
+  };
+
+  const commit = (next: SimulationState[]) => {
+    bits = next;
+    recordRegister(history, time, bits);
+  };
+
+  recordRegister(history, time, bits);
+
+  return {
+    getConfig: () => config,
+    getBits: () => bits,
+    getTime: () => time,
+    getDriveTime: () => driveTime,
+    getDrive: () => drive,
+    getHistory: () => history,
+    getEvents: (count?: number) => toArray(events, count),
+    getEventCount: () => eventCount,
+    getCycles: () => cycles,
+    getBitModel: (bit: number) => modelOf(bit),
+
+    // Follow the drive for dt seconds of clock time (scaled by speed for the drive).
+    // The bits live on the clock, so relaxation and dwell times are real seconds
+    advance: (dt: number) => {
+      if (dt <= 0) return [];
+      const t0 = driveTime;
+      const t1 = t0 + config.speed * dt;
+      const clockStart = time;
+      const driveAt = (t: number) => drive.evaluate(t0 + (t - clockStart) * config.speed);
+      const newEvents: SwitchingEvent[] = [];
+
+      // Same drive resolution at any speed
+      const maxSubstep = MAX_SUBSTEP / config.speed;
+      const next = bits.map((bit, i) => {
+        const { state, events: bitEvents } = advanceAlongDrive(driveAt, clockStart, clockStart + dt, bit, modelOf(i), stepOptions(), i, maxSubstep);
+        newEvents.push(...bitEvents);
+        return state;
+      });
+      const relaxed = relaxAll(next, dt, newEvents);
+
+      // A shared drive leaves no voltage differences for the crosstalk to act on
+      applied = bits.map(() => drive.evaluate(t1));
+      driveTime = t1;
+      time += dt;
+      commit(relaxed);
+      return log(newEvents.sort((a, b) => a.time - b.time));
+    },
+
+    // Let dt seconds pass with the electrodes held where they are (the drive is
+    // paused); only changes anything in the stochastic and dynamic modes
+    hold: (dt: number) => {
+      if (dt <= 0) return [];
+      const voltages = effectiveVoltages(applied, config.coupling);
+      const newEvents: SwitchingEvent[] = [];
+      const next = bits.map((prev, i) => {
+        const state = stepSimulation(voltages[i], prev, modelOf(i), { ...stepOptions(), dt });
+        const event = detectSwitch(prev, state, voltages[i], time, dt, modelOf(i), i);
+        if (event) newEvents.push(event);
+        return state;
+      });
+      const relaxed = relaxAll(next, dt, newEvents);
+      time += dt;
+      commit(relaxed);
+      return log(newEvents);
+    },
+
+    // With crosstalk on, neighbors see part of the change too
+    setVoltage: (bit: number, voltage: number) => {
+      if (!bits[bit]) return [];
+      const before = effectiveVoltages(applied, config.coupling);
+      applied = applied.map((v, i) => (i === bit ? voltage : v));
+      const after = effectiveVoltages(applied, config.coupling);
+
+      const newEvents: SwitchingEvent[] = [];
+      commit(bits.map((prev, i) => {
+        if (i !== bit && after[i] === before[i]) return prev;
+        const next = stepSimulation(after[i], prev, modelOf(i), stepOptions());
+        const event = detectSwitch(prev, next, after[i], time, 0, modelOf(i), i);
+        if (event) newEvents.push(event);
+        return next;
+      }));
+      return log(newEvents);
+    },
+
+    writeBit: (bit: number, value: number) => {
+      const targets: (number | null)[] = bits.map((_, i) => (i === bit ? value : null));
+      return writeTargets(targets);
+    },
+
+    writeWord: (value: number) => writeTargets(wordToLevels(value, bits.length, levelCount(config.model))),
+
+    // One pulse of the given height on a single bit, then back to 0V (a step of
+    // an in-memory logic gate). Not coupled to the neighbors
+    pulse: (bit: number, voltage: number) => {
+      if (!bits[bit]) return [];
+      const peak = stepSimulation(voltage, bits[bit], modelOf(bit), { ...stepOptions(), dt: WRITE_PULSE_WIDTH });
+      const trace = [peak, stepSimulation(0, peak, modelOf(bit), { ...stepOptions(), dt: WRITE_SETTLE_TIME })];
+      const newEvents: SwitchingEvent[] = [];
+      applied[bit] = 0;
+      commit(bits.map((state, i) => (i === bit ? applyTrace(i, state, trace, newEvents) : state)));
+      return log(newEvents);
+    },
+
+    // Reads every bit at the configured bias; a disturbing read shows up in the event log
+    read: (readConfig: ReadConfig) => {
+      const newEvents: SwitchingEvent[] = [];
+      const results: ReadResult[] = [];
+      const next = bits.map((bit, i) => {
+        const { trace, result } = readBitTrace(bit, readConfig, modelOf(i), stepOptions());
+        results.push(result);
+        return applyTrace(i, bit, trace, newEvents);
+      });
+      commit(next);
+      log(newEvents);
+      return results;
+    },
+
+    // Replace the states outright dt seconds on (e.g. replaying a recorded run)
+    setStates: (states: SimulationState[], dt = 0) => {
+      time += dt;
+      commit(states.slice(0, bits.length).concat(bits.slice(states.length)));
+    },
+
+    // Resume a saved session: electrodes back at each bit's voltage, the drive where it was
+    restore: (states: SimulationState[], savedDriveTime: number) => {
+      applied = bits.map((_, i) => states[i]?.voltage ?? 0);
+      driveTime = savedDriveTime;
+      commit(states.slice(0, bits.length).concat(bits.slice(states.length)));
+    },
+
+    // Re-evaluate every bit on the new curves with a stationary step
+    setModel: (model: DeviceModel) => {
+      config.model = model;
+      drive = compileWaveform(config.waveform, model);
+      commit(bits.map((bit, i) => stepSimulation(bit.voltage, bit, modelOf(i))));
+    },
+
+    setWaveform: (waveform: WaveformConfig) => {
+      config.waveform = waveform;
+      drive = compileWaveform(waveform, config.model);
+      driveTime = 0;
+    },
+
+    // A new seed (or toggling the mode) restarts the random sequence so runs reproduce
+    setNoise: (noise: NoiseConfig) => {
+      if (noise.seed !== config.noise.seed || noise.enabled !== config.noise.enabled) rng = createRng(noise.seed);
+      config.noise = noise;
+    },
+
+    setDynamics: (dynamics: DynamicsConfig) => {
+      config.dynamics = dynamics;
+    },
+
+    setCoupling: (coupling: CouplingConfig) => {
+      config.coupling = coupling;
+    },
+
+    // Bits move onto their aged curves (or back to the configured ones) right away
+    setAging: (aging: AgingConfig) => {
+      config.aging = aging;
+      commit(bits.map((bit, i) => stepSimulation(bit.voltage, bit, modelOf(i))));
+    },
+
+    setSpeed: (speed: number) => {
+      config.speed = speed;
+    },
+
+    resize: (bitCount: number) => {
+      config.bitCount = bitCount;
+      bits = resizeRegister(bits, bitCount, config.model);
+      applied = bitCount <= applied.length
+        ? applied.slice(applied.length - bitCount)
+        : [...Array(bitCount - applied.length).fill(0), ...applied];
+      cycles = bitCount <= cycles.length
+        ? cycles.slice(cycles.length - bitCount)
+        : [...Array(bitCount - cycles.length).fill(0), ...cycles];
+      history = resizeRegisterHistory(history, bitCount);
+      recordRegister(history, time, bits);
+    },
+
+    restartDrive: () => {
+      driveTime = 0;
+    },
+
+    reset: () => {
+      time = 0;
+      driveTime = 0;
+      eventCount = 0;
+      rng = createRng(config.noise.seed);
+      bits = createRegister(config.bitCount, config.model);
+      applied = bits.map(() => 0);
+      cycles = bits.map(() => 0);
+      history.forEach(clearRingBuffer);
+      clearRingBuffer(events);
+      recordRegister(history, time, bits);
+    },
+
+    snapshot: () => ({ time, driveTime, bits, applied: [...applied], rng: rng.getState(), eventCount, cycles: [...cycles] }),
+
+    // Moves to a recorded snapshot. Going back drops the later history and
+    // events; going forward one step at a time re-logs that step's events
+    restoreSnapshot: (snapshot: SimulationSnapshot, replayed: SwitchingEvent[] = []) => {
+      history.forEach(buffer => {
+        let later = 0;
+        while (later < buffer.size && itemAt(buffer, buffer.size - 1 - later)!.time > snapshot.time) later++;
+        dropNewest(buffer, later);
+      });
+      const before = snapshot.eventCount - replayed.length;
+      dropNewest(events, eventCount - before);
+      eventCount = Math.min(eventCount, before);
+      time = snapshot.time;
+      driveTime = snapshot.driveTime;
+      applied = [...snapshot.applied];
+      rng.setState(snapshot.rng);
+      commit(snapshot.bits);
+      log(replayed);
+      cycles = [...snapshot.cycles]; // Already counts the replayed switches
+    },
+
+    exportRun: () => createRun(history.map(buffer => toArray(buffer)), config.model, config.waveform, config.speed, toArray(events)),
+  };
+
+  // Records the intermediate states of a pulse (so trails and exports show
+  // each jump) and its switches; returns the final state
+  function applyTrace(bit: number, start: SimulationState, trace: SimulationState[], newEvents: SwitchingEvent[]) {
+    trace.slice(0, -1).forEach(state => pushRingBuffer(history[bit], { time, state }));
+    trace.forEach((state, k) => {
+      const event = detectSwitch(k === 0 ? start : trace[k - 1], state, state.voltage, time, 0, modelOf(bit), bit);
+      if (event) newEvents.push(event);
+    });
+    return trace[trace.length - 1];
+  }
+
+  // Writes the given bits (null = untouched). With crosstalk on, the whole
+  // register sees the pulse through the half-select scheme and the coupling
+  // (two-branch models only; multi-level cells are written one by one).
+  function writeTargets(targets: (number | null)[]): WriteReport {
+    const newEvents: SwitchingEvent[] = [];
+
+    if (config.coupling.enabled && !config.model.levels) {
+      // One model for the whole register: the most worn bit's
+      const worn = agedModel(config.model, config.aging, Math.max(...cycles), time);
+      const write = coupledWriteTraces(bits, targets as (0 | 1 | null)[], applied, config.coupling, worn, stepOptions());
+      applied = write.applied;
+      commit(bits.map((bit, i) => applyTrace(i, bit, write.traces[i], newEvents)));
+      return { events: log(newEvents), flipped: write.flipped, failed: write.failed };
+    }
+
+    const failed: number[] = [];
+    const next = bits.map((bit, i) => {
+      const target = targets[i];
+      if (target === null || target === undefined) return bit;
+      applied[i] = 0;
+      const final = applyTrace(i, bit, writeBitTrace(bit, target, modelOf(i), stepOptions()), newEvents);
+      if (levelOf(final) !== target) failed.push(i);
+      return final;
+    });
+    commit(next);
+    return { events: log(newEvents), flipped: [], failed };
+  }
+};
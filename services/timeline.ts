@@ -0,0 +1,142 @@
+import { SwitchingEvent } from '../types';
+import { Simulation, SimulationSnapshot } from './simulationCore';
+import { RingBuffer, createRingBuffer, dropNewest, itemAt, pushRingBuffer } from './history';
+
+// Fixed simulation step (s of clock time), independent of the display frame rate
+export const SIM_DT = 1 / 120;
+
+// Steps kept for rewinding (60s of clock time)
+export const TIMELINE_CAPACITY = 7200;
+
+// After a stall (background tab, breakpoint) the clock skips ahead instead of catching up
+export const MAX_STEPS_PER_FRAME = 16;
+
+// Run-to-next-event gives up after this much clock time without a switch (s)
+export const MAX_SEEK_TIME = 120;
+
+// How the clock moves: following the drive, or holding the electrodes (paused drive)
+export type ClockMode = 'advance' | 'hold';
+
+// One recorded step: the state it ended in and the switches it contained
+interface TimelineEntry {
+  snapshot: SimulationSnapshot;
+  events: SwitchingEvent[];
+}
+
+/**
+ * Fixed-timestep clock around a simulation, with a rewindable record of the
+ * states it passed through. Real time from the display only feeds an
+ * accumulator, so the sequence of states depends on the number of steps and
+ * never on the frame rate. Moving the cursor restores recorded steps; doing
+ * anything new from a rewound position discards the steps after it.
+ */
+export interface Timeline {
+  getLength: () => number;            // Recorded steps
+  getCursor: () => number;            // Index of the step the simulation is at
+  getTime: (index: number) => number; // Clock time at a step (s)
+  record: () => void;                 // After a change made outside the clock (write, read, drag)
+  clear: () => void;                  // Forget the past (resize, reset, import)
+  run: (realDt: number, mode: ClockMode, stopAtEvent?: boolean) => SwitchingEvent[];
+  stepForward: (mode: ClockMode) => SwitchingEvent[];
+  stepBack: () => boolean;
+  seek: (index: number) => void;
+  runToNextEvent: (mode: ClockMode) => SwitchingEvent[];
+}
+
+export const createTimeline = (sim: Simulation, capacity = TIMELINE_CAPACITY): Timeline => {
+  const entries: RingBuffer<TimelineEntry> = createRingBuffer(capacity);
+  let cursor = 0;
+  let accumulator = 0;
+  let loggedEvents = sim.getEventCount();
+
+  const record = () => {
+    dropNewest(entries, entries.size - 1 - cursor);
+    const count = sim.getEventCount();
+    pushRingBuffer(entries, { snapshot: sim.snapshot(), events: sim.getEvents(count - loggedEvents) });
+    loggedEvents = count;
+    cursor = entries.size - 1;
+  };
+
+  // Walks to a recorded step, replaying the switches of each step on the way forward
+  const seek = (index: number) => {
+    const target = Math.max(0, Math.min(entries.size - 1, Math.round(index)));
+    if (target < cursor) {
+      sim.restoreSnapshot(itemAt(entries, target)!.snapshot);
+    }
+    for (let i = cursor + 1; i <= target; i++) {
+      const { snapshot, events } = itemAt(entries, i)!;
+      sim.restoreSnapshot(snapshot, events);
+    }
+    cursor = target;
+    loggedEvents = sim.getEventCount();
+    accumulator = 0;
+  };
+
+  // A new step from the cursor (discarding any recorded steps after it)
+  const simulate = (mode: ClockMode) => {
+    const events = mode === 'advance' ? sim.advance(SIM_DT) : sim.hold(SIM_DT);
+    record();
+    return events;
+  };
+
+  // Replays the recorded step when rewound, so walking through a jump shows what happened
+  const stepForward = (mode: ClockMode) => {
+    if (cursor < entries.size - 1) {
+      seek(cursor + 1);
+      return itemAt(entries, cursor)!.events;
+    }
+    return simulate(mode);
+  };
+
+  record();
+
+  return {
+    getLength: () => entries.size,
+    getCursor: () => cursor,
+    getTime: (index: number) => itemAt(entries, index)?.snapshot.time ?? 0,
+    record,
+
+    clear: () => {
+      dropNewest(entries, entries.size);
+      cursor = 0;
+      accumulator = 0;
+      loggedEvents = sim.getEventCount();
+      record();
+    },
+
+    // Whole steps covered by the real time elapsed; the remainder carries over.
+    // Running resimulates from the cursor, so changed settings take effect
+    run: (realDt: number, mode: ClockMode, stopAtEvent = false) => {
+      accumulator += Math.max(0, realDt);
+      const events: SwitchingEvent[] = [];
+      let steps = 0;
+      while (accumulator >= SIM_DT && steps < MAX_STEPS_PER_FRAME) {
+        accumulator -= SIM_DT;
+        steps++;
+        events.push(...simulate(mode));
+        if (stopAtEvent && events.length > 0) break;
+      }
+      if (steps === MAX_STEPS_PER_FRAME || (stopAtEvent && events.length > 0)) accumulator = 0;
+      return events;
+    },
+
+    stepForward,
+
+    stepBack: () => {
+      if (cursor === 0) return false;
+      seek(cursor - 1);
+      return true;
+    },
+
+    seek,
+
+    // Stops on the first step that contains a switch (the jump happens within it)
+    runToNextEvent: (mode: ClockMode) => {
+      for (let i = 0; i < MAX_SEEK_TIME / SIM_DT; i++) {
+        const events = stepForward(mode);
+        if (events.length > 0) return events;
+      }
+      return [];
+    },
+  };
+};
@@ -0,0 +1,238 @@
+import {
+  CONSTANTS,
+  DEFAULT_DEVICE_MODEL,
+  DeviceModel,
+  DrivePoint,
+  DriveSequence,
+  WaveformConfig,
+  WaveformKind,
+} from '../types';
+
+// Base sweep frequency of the original auto-sweep: 0.166Hz (~6s period)
+export const BASE_SWEEP_FREQUENCY = 0.166;
+
+// Duration used by "ramp to X" when no "over" clause is given
+const DEFAULT_RAMP_DURATION = 1;
+
+// Minor loops stay this fraction below the nearest threshold
+const MINOR_LOOP_MARGIN = 0.95;
+
+export const DEFAULT_WAVEFORM: WaveformConfig = {
+  kind: 'sine',
+  amplitude: CONSTANTS.VOLTAGE_MAX,
+  offset: 0,
+  period: 1 / BASE_SWEEP_FREQUENCY,
+  source: '',
+};
+
+export const WAVEFORM_KINDS: { kind: WaveformKind; label: string }[] = [
+  { kind: 'sine', label: 'Sine' },
+  { kind: 'triangle', label: 'Triangle' },
+  { kind: 'square', label: 'Square' },
+  { kind: 'sawtooth', label: 'Sawtooth' },
+  { kind: 'minorLoop', label: 'Minor Loop' },
+  { kind: 'dc', label: 'DC Offset' },
+  { kind: 'piecewise', label: 'Piecewise' },
+  { kind: 'script', label: 'Script' },
+];
+
+export const EXAMPLE_SCRIPTS: { name: string; source: string }[] = [
+  {
+    name: 'Sub-threshold keeps bit',
+    source: 'ramp to 1.3 over 1s, ramp to 0 over 1s, hold 1s,\nramp to 0.8 over 1s, ramp to -0.7 over 2s, ramp to 0 over 1s, hold 1s,\nramp to -1.3 over 1s, ramp to 0 over 1s, hold 1s, repeat',
+  },
+  {
+    name: 'Write pulses',
+    source: 'step to 1.5, hold 0.5s, step to 0, hold 2s, step to -1.5, hold 0.5s, step to 0, hold 2s, repeat',
+  },
+  {
+    name: 'Ramp and hold',
+    source: 'ramp to 1.2 over 2s, hold 1s, ramp to -0.5',
+  },
+];
+
+export interface CompiledWaveform {
+  evaluate: (t: number) => number;
+  duration: number | null; // null for periodic / endless drives
+  errors: string[];
+}
+
+const clampVoltage = (v: number) => Math.min(CONSTANTS.VOLTAGE_MAX, Math.max(CONSTANTS.VOLTAGE_MIN, v));
+
+/**
+ * Unit periodic shapes in [-1, 1] for a cycle position in [0, 1).
+ * All shapes start at 0 and rise first, like the original sine sweep.
+ */
+export const periodicShape = (kind: WaveformKind, cycle: number): number => {
+  const x = cycle - Math.floor(cycle);
+  switch (kind) {
+    case 'triangle':
+    case 'minorLoop':
+      if (x < 0.25) return 4 * x;
+      if (x < 0.75) return 2 - 4 * x;
+      return 4 * x - 4;
+    case 'square':
+      return x < 0.5 ? 1 : -1;
+    case 'sawtooth':
+      return x < 0.5 ? 2 * x : 2 * x - 2;
+    case 'dc':
+      return 0;
+    default:
+      return Math.sin(2 * Math.PI * x);
+  }
+};
+
+/**
+ * Linear interpolation through the sequence breakpoints. Holds the last value
+ * after the end unless the sequence loops.
+ */
+export const evaluateSequence = (sequence: DriveSequence, t: number): number => {
+  const { points, loop } = sequence;
+  if (points.length === 0) return 0;
+
+  const end = points[points.length - 1].t;
+  let time = t;
+  if (loop && end > 0) time = t - Math.floor(t / end) * end;
+
+  if (time <= points[0].t) return points[0].v;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (time < b.t) {
+      const span = b.t - a.t;
+      return span > 0 ? a.v + ((time - a.t) / span) * (b.v - a.v) : b.v;
+    }
+  }
+  return points[points.length - 1].v;
+};
+
+const parseVoltage = (text: string): number | null => {
+  const match = /^(-?\d*\.?\d+)\s*(mv|v)?$/i.exec(text.trim());
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'mv' ? value / 1000 : value;
+};
+
+const parseDuration = (text: string): number | null => {
+  const match = /^(\d*\.?\d+)\s*(ms|s)?$/i.exec(text.trim());
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'ms' ? value / 1000 : value;
+};
+
+const splitStatements = (source: string): string[] =>
+  source.split(/[,;\n]/).map(s => s.trim()).filter(s => s.length > 0);
+
+/**
+ * Parses user-defined breakpoints, e.g. "0:0, 1:1.2, 3:1.2, 4:-0.5" (time s : voltage V).
+ * A trailing "repeat" makes the sequence periodic.
+ */
+export const parsePiecewise = (source: string): { sequence: DriveSequence; errors: string[] } => {
+  const points: DrivePoint[] = [];
+  const errors: string[] = [];
+  let loop = false;
+
+  for (const statement of splitStatements(source)) {
+    if (/^(repeat|loop)$/i.test(statement)) {
+      loop = true;
+      continue;
+    }
+    const [tText, vText, ...rest] = statement.split(':');
+    const t = tText !== undefined ? parseDuration(tText) : null;
+    const v = vText !== undefined ? parseVoltage(vText) : null;
+    if (t === null || v === null || rest.length > 0) {
+      errors.push(`Cannot read point "${statement}" (expected time:voltage).`);
+      continue;
+    }
+    if (points.length > 0 && t < points[points.length - 1].t) {
+      errors.push(`Point "${statement}" goes back in time.`);
+      continue;
+    }
+    points.push({ t, v: clampVoltage(v) });
+  }
+
+  if (points.length === 0 && errors.length === 0) errors.push('Add at least one time:voltage point.');
+  return { sequence: { points, loop }, errors };
+};
+
+/**
+ * Parses a drive script such as "ramp to 1.2 over 2s, hold 1s, ramp to -0.5".
+ *
+ * Commands (separated by commas, semicolons or new lines):
+ *   start at <V>            initial voltage (default 0V)
+ *   ramp to <V> [over <T>]  linear ramp (default 1s)
+ *   step to <V>             instantaneous jump (also "jump to", "set")
+ *   hold <T>                keep the current voltage (also "wait")
+ *   repeat                  loop the whole script
+ */
+export const parseDriveScript = (source: string): { sequence: DriveSequence; errors: string[] } => {
+  const points: DrivePoint[] = [{ t: 0, v: 0 }];
+  const errors: string[] = [];
+  let loop = false;
+
+  const last = () => points[points.length - 1];
+
+  splitStatements(source).forEach((statement, i) => {
+    let match: RegExpExecArray | null;
+
+    if ((match = /^start\s+at\s+(.+)$/i.exec(statement))) {
+      const v = parseVoltage(match[1]);
+      if (i !== 0) errors.push('"start at" must be the first command.');
+      else if (v === null) errors.push(`Invalid voltage in "${statement}".`);
+      else points[0] = { t: 0, v: clampVoltage(v) };
+    } else if ((match = /^ramp\s+to\s+(.+?)(?:\s+over\s+(.+))?$/i.exec(statement))) {
+      const v = parseVoltage(match[1]);
+      const d = match[2] !== undefined ? parseDuration(match[2]) : DEFAULT_RAMP_DURATION;
+      if (v === null || d === null) errors.push(`Cannot read "${statement}".`);
+      else points.push({ t: last().t + d, v: clampVoltage(v) });
+    } else if ((match = /^(?:step\s+to|jump\s+to|set)\s+(.+)$/i.exec(statement))) {
+      const v = parseVoltage(match[1]);
+      if (v === null) errors.push(`Invalid voltage in "${statement}".`);
+      else points.push({ t: last().t, v: clampVoltage(v) });
+    } else if ((match = /^(?:hold|wait)(?:\s+for)?\s+(.+)$/i.exec(statement))) {
+      const d = parseDuration(match[1]);
+      if (d === null) errors.push(`Invalid duration in "${statement}".`);
+      else points.push({ t: last().t + d, v: last().v });
+    } else if (/^(repeat|loop)$/i.test(statement)) {
+      loop = true;
+    } else {
+      errors.push(`Unknown command "${statement}".`);
+    }
+  });
+
+  if (points.length === 1 && errors.length === 0) errors.push('Script has no drive commands.');
+  return { sequence: { points, loop }, errors };
+};
+
+/**
+ * Turns a waveform configuration into a drive function of time (s).
+ * The device model is used to keep minor loops below both thresholds.
+ */
+export const compileWaveform = (
+  config: WaveformConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL
+): CompiledWaveform => {
+  if (config.kind === 'piecewise' || config.kind === 'script') {
+    const { sequence, errors } =
+      config.kind === 'script' ? parseDriveScript(config.source) : parsePiecewise(config.source);
+    const end = sequence.points.length > 0 ? sequence.points[sequence.points.length - 1].t : 0;
+    return {
+      evaluate: (t) => evaluateSequence(sequence, t),
+      duration: sequence.loop ? null : end,
+      errors,
+    };
+  }
+
+  let amplitude = config.amplitude;
+  if (config.kind === 'minorLoop') {
+    const headroom = Math.min(model.THRESHOLD_UP - config.offset, config.offset - model.THRESHOLD_DOWN);
+    amplitude = Math.max(0, Math.min(amplitude, headroom * MINOR_LOOP_MARGIN));
+  }
+
+  const period = config.period > 0 ? config.period : DEFAULT_WAVEFORM.period;
+  return {
+    evaluate: (t) => clampVoltage(config.offset + amplitude * periodicShape(config.kind, t / period)),
+    duration: null,
+    errors: [],
+  };
+};
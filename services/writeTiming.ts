@@ -0,0 +1,76 @@
+import { DEFAULT_DEVICE_MODEL, DeviceModel, DynamicsConfig, SimulationState } from '../types';
+import { createInitialState, stepSimulation } from './physicsEngine';
+import { writeBitTrace } from './memoryRegister';
+import { DEFAULT_READ_CONFIG, ReadConfig, readBitTrace } from './readout';
+
+// Longest pulse width searched (s); anything slower counts as "does not write"
+const MAX_PULSE_WIDTH = 2;
+
+// Settle times are searched up to this many time constants (plus the dwell)
+const MAX_SETTLE_TIME_CONSTANTS = 30;
+
+const TIMING_TOLERANCE = 1e-5;
+
+export interface WriteTiming {
+  minPulseWidth: number | null; // s, shortest pulse that writes both values
+  minSettleTime: number | null; // s at 0V after that pulse before a read returns the new value
+  maxWriteRate: number | null;  // Writes/s when each write must be readable before the next (Infinity if instant)
+}
+
+// Bit resting at 0V on a branch, readouts fully relaxed
+export const restingBit = (branch: 'upper' | 'lower', model: DeviceModel): SimulationState =>
+  stepSimulation(0, { ...createInitialState(model), branch }, model);
+
+// Smallest x in [0, max] passing a monotone test (bisection), or null if max fails
+const smallestPassing = (test: (x: number) => boolean, max: number): number | null => {
+  if (test(0)) return 0;
+  if (!test(max)) return null;
+  let lo = 0;
+  let hi = max;
+  while (hi - lo > TIMING_TOLERANCE * Math.max(1, max)) {
+    const mid = (lo + hi) / 2;
+    if (test(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+};
+
+/**
+ * Shortest write pulse that switches the bit both ways, how long the readout
+ * then takes to relax far enough for a read to see the new value, and the
+ * write rate that leaves. Only meaningful with dynamics enabled; the
+ * rate-independent model writes with any pulse and settles instantly.
+ */
+export const analyzeWriteTiming = (
+  dynamics: DynamicsConfig,
+  model: DeviceModel = DEFAULT_DEVICE_MODEL,
+  readConfig: ReadConfig = DEFAULT_READ_CONFIG
+): WriteTiming => {
+  const options = { dynamics };
+  const values = [1, 0] as const;
+  const startFor = (value: 0 | 1) => restingBit(value === 1 ? 'lower' : 'upper', model);
+
+  const minPulseWidth = smallestPassing(
+    width => values.every(value => {
+      const trace = writeBitTrace(startFor(value), value, model, options, width, 0);
+      return trace[trace.length - 1].branch === (value === 1 ? 'upper' : 'lower');
+    }),
+    MAX_PULSE_WIDTH
+  );
+  if (minPulseWidth === null) return { minPulseWidth, minSettleTime: null, maxWriteRate: null };
+
+  const written = values.map(value => {
+    const trace = writeBitTrace(startFor(value), value, model, options, minPulseWidth, 0);
+    return { value, state: trace[trace.length - 1] };
+  });
+  const minSettleTime = smallestPassing(
+    settle => written.every(({ value, state }) => {
+      const settled = stepSimulation(0, state, model, { ...options, dt: settle });
+      return readBitTrace(settled, readConfig, model, options).result.value === value;
+    }),
+    MAX_SETTLE_TIME_CONSTANTS * dynamics.timeConstant + dynamics.minDwell
+  );
+
+  const cycle = minSettleTime === null ? null : minPulseWidth + minSettleTime;
+  return { minPulseWidth, minSettleTime, maxWriteRate: cycle === null ? null : cycle > 0 ? 1 / cycle : Infinity };
+};
@@ -3,8 +3,57 @@ export interface SimulationState {
   voltage: number;      // x-axis: v_offset (V)
   frequency: number;    // y-axis (a): Frequency (kHz)
   amplitude: number;    // y-axis (b): Amplitude (mV)
-  branch: 'upper' | 'lower'; // Memory state
+  branch: 'upper' | 'lower'; // Memory state (multi-level: 'lower' only on level 0)
   direction: 'increasing' | 'decreasing' | 'stationary';
+  dwell?: number;       // s spent past the switching threshold (dynamic mode only)
+  level?: number;       // Stored level, 0 = lowest branch (multi-level models only)
+}
+
+// A branch switch, located at the interpolated threshold crossing
+export interface SwitchingEvent {
+  bit: number;
+  time: number;    // s (simulation time)
+  voltage: number; // V at the crossing
+  from: 'upper' | 'lower';
+  to: 'upper' | 'lower';
+  fromLevel?: number; // Multi-level models only
+  toLevel?: number;
+  relaxed?: true;     // Stored level lost on its own (aging), not a driven switch
+}
+
+// One recorded state of a bit, stamped with session time (s)
+export interface HistorySample {
+  time: number;
+  state: SimulationState;
+}
+
+// A recorded run as exported/imported; times start at 0 (s)
+export interface SimulationRun {
+  version: 1;
+  exportedAt: string;
+  model: DeviceModel;
+  waveform: WaveformConfig;
+  speed: number;
+  bits: HistorySample[][]; // Index 0 = MSB
+  events?: SwitchingEvent[]; // Switches during the run (same time base as the samples)
+}
+
+// One measured data point from the lab (branch may be unknown until fitted)
+export interface MeasuredPoint {
+  voltage: number;
+  amplitude?: number; // mV
+  frequency?: number; // kHz
+  branch?: 'upper' | 'lower';
+}
+
+// Which response a chart plots against voltage
+export type Observable = 'amplitude' | 'frequency';
+
+// Y axis of a chart: fitted to the model's curves, or fixed by the user
+export interface AxisRange {
+  auto: boolean;
+  min: number;
+  max: number;
 }
 
 export interface ChartPoint {
@@ -12,10 +61,153 @@ export interface ChartPoint {
   y: number;
 }
 
+// Optional stochastic mode: additive noise and thermally-activated switching
+export interface NoiseConfig {
+  enabled: boolean;
+  voltageNoise: number;   // V rms added to the drive
+  amplitudeNoise: number; // mV rms on the amplitude readout
+  frequencyNoise: number; // kHz rms on the frequency readout
+  switchingWidth: number; // V, how soft the thresholds are
+  attemptRate: number;    // 1/s, switching rate exactly at a threshold
+  seed: number;
+}
+
+// Optional dynamic mode: the readouts lag the branch curves and switching needs a dwell past threshold
+export interface DynamicsConfig {
+  enabled: boolean;
+  timeConstant: number; // s, relaxation of amplitude/frequency towards the branch value
+  minDwell: number;     // s the voltage must stay past a threshold before the bit switches
+}
+
+// Optional aging mode: temperature drift of the curves, spontaneous loss of stored
+// levels and write fatigue that narrows the loop
+export interface AgingConfig {
+  enabled: boolean;
+  temperature: number;        // K above the 300K reference the curves were fitted at
+  temperatureDrift: number;   // K/h, ambient drift during long storage
+  freqTempCoeff: number;      // kHz/K shift of every branch frequency
+  thresholdTempCoeff: number; // V/K the thresholds move towards 0V when warmer
+  retentionTime: number;      // s, mean time a stored level holds at the reference temperature
+  activationEnergy: number;   // eV, Arrhenius temperature dependence of the retention time
+  fatigueRate: number;        // Fraction of the loop lost per decade of switching cycles
+}
+
+// Unselected-bit bias during a write: grounded, or a fraction of the write pulse (half-select)
+export type HalfSelectScheme = 'ground' | 'half' | 'third';
+
+// Optional crosstalk between adjacent resonators in the register
+export interface CouplingConfig {
+  enabled: boolean;
+  neighborCoupling: number; // Fraction of the voltage difference to each neighbor that leaks in
+  scheme: HalfSelectScheme;
+}
+
+// In-memory logic gates computed between stored bits by conditional pulses
+export type LogicGate = 'IMPLY' | 'NAND' | 'OR' | 'MAJ';
+
+// Drive waveform applied to every bit while the sweep is running
+export type WaveformKind =
+  | 'sine'
+  | 'triangle'
+  | 'square'
+  | 'sawtooth'
+  | 'minorLoop'
+  | 'dc'
+  | 'piecewise'
+  | 'script';
+
+export interface WaveformConfig {
+  kind: WaveformKind;
+  amplitude: number; // V (peak)
+  offset: number;    // V (DC level)
+  period: number;    // s (at 1.0x speed)
+  source: string;    // Text for 'piecewise' points or 'script' commands
+}
+
+// One breakpoint of a piecewise-linear drive sequence
+export interface DrivePoint {
+  t: number; // s
+  v: number; // V
+}
+
+export interface DriveSequence {
+  points: DrivePoint[];
+  loop: boolean;
+}
+
 export const CONSTANTS = {
   VOLTAGE_MIN: -1.5,
   VOLTAGE_MAX: 1.5,
-  
+};
+
+// Driven Duffing resonator in normalized units (time in 1/ω0 at 0V, unit linear stiffness):
+// x'' + x'/Q + k1(V) x + k3(V) x³ = F cos(w t), with k1 = 1 + LINEAR_TUNING*V and k3 = CUBIC*(1 + CUBIC_TUNING*V)
+export interface DuffingParams {
+  NATURAL_FREQ: number;   // kHz, linear resonance at 0V
+  QUALITY: number;        // Q factor
+  DRIVE_DETUNING: number; // Drive frequency above the 0V resonance (relative), w = 1 + detuning
+  DRIVE_FORCE: number;    // F (normalized)
+  CUBIC: number;          // Cubic stiffness at 0V (normalized, > 0 hardening)
+  LINEAR_TUNING: number;  // Relative change of the linear stiffness per V
+  CUBIC_TUNING: number;   // Relative change of the cubic stiffness per V
+  AMP_SCALE: number;      // mV readout per unit displacement
+}
+
+// One stable branch of a multi-level resonator
+export interface LevelCurve {
+  FREQ_BASE: number;  // kHz at 0V
+  FREQ_SLOPE: number; // kHz/V
+  AMP_QUAD: number;   // mV: y = Quad*(v^2) + Lin*v + Const
+  AMP_LIN: number;
+  AMP_CONST: number;
+}
+
+// Resonator with N stable branches, lowest first. Rising past THRESHOLDS_UP[k]
+// climbs from level k to k+1; falling past THRESHOLDS_DOWN[k] drops from k+1 to k
+export interface MultiLevelParams {
+  BRANCHES: LevelCurve[];
+  THRESHOLDS_UP: number[];   // V, N-1 entries, ascending
+  THRESHOLDS_DOWN: number[]; // V, N-1 entries, ascending
+}
+
+/**
+ * Fitted parameters of one resonator. Passed into the physics engine so
+ * different devices can be simulated without editing source.
+ */
+export interface DeviceModel {
+  // Hysteresis Thresholds (V)
+  THRESHOLD_UP: number;
+  THRESHOLD_DOWN: number;
+
+  // Frequency Model (kHz): f = Base + Slope*v
+  FREQ_LOWER_BASE: number;
+  FREQ_UPPER_BASE: number;
+  FREQ_SLOPE: number;
+
+  // Amplitude Model (mV): y = Quad*(v^2) + Lin*v + Const
+  AMP_LOWER_QUAD: number;
+  AMP_LOWER_LIN: number;
+  AMP_LOWER_CONST: number;
+  AMP_UPPER_QUAD: number;
+  AMP_UPPER_LIN: number;
+  AMP_UPPER_CONST: number;
+
+  // When set, the branches come from integrating this resonator instead of the
+  // fitted curves above (which then hold the phenomenological fit to it)
+  duffing?: DuffingParams;
+
+  // When set, the bit stores one of several levels; the two-branch fields above
+  // then hold the outermost branches and thresholds (level 0 and the top level)
+  levels?: MultiLevelParams;
+}
+
+export interface DevicePreset {
+  name: string;
+  model: DeviceModel;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_DEVICE_MODEL: DeviceModel = {
   // Hysteresis Thresholds
   THRESHOLD_UP: 1.1,    // Right discontinuity
   THRESHOLD_DOWN: -0.9, // Left discontinuity
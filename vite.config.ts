@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // Services run under node; component tests opt into jsdom with a @vitest-environment comment
+      test: {
+        environment: 'node',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**'],
       }
     };
 });